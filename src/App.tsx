@@ -9,31 +9,31 @@ const repl = new REPL(rdbms);
 
 function initializeDatabase() {
   rdbms.query(
-    'CREATE TABLE authors (id number PRIMARY KEY, name string NOT NULL, country string NOT NULL)'
+    'CREATE TABLE authors (id serial PRIMARY KEY, name string NOT NULL, country string NOT NULL)'
   );
 
   rdbms.query(
-    'CREATE TABLE books (id number PRIMARY KEY, title string NOT NULL, author_id number NOT NULL, year number NOT NULL, available boolean NOT NULL)'
+    'CREATE TABLE books (id serial PRIMARY KEY, title string NOT NULL, author_id integer NOT NULL REFERENCES authors(id), year integer NOT NULL, available boolean NOT NULL)'
   );
 
-  rdbms.query("INSERT INTO authors (id, name, country) VALUES (1, 'George Orwell', 'UK')");
-  rdbms.query("INSERT INTO authors (id, name, country) VALUES (2, 'Jane Austen', 'UK')");
-  rdbms.query("INSERT INTO authors (id, name, country) VALUES (3, 'Mark Twain', 'USA')");
+  rdbms.query("INSERT INTO authors (name, country) VALUES ('George Orwell', 'UK')");
+  rdbms.query("INSERT INTO authors (name, country) VALUES ('Jane Austen', 'UK')");
+  rdbms.query("INSERT INTO authors (name, country) VALUES ('Mark Twain', 'USA')");
 
   rdbms.query(
-    "INSERT INTO books (id, title, author_id, year, available) VALUES (1, '1984', 1, 1949, true)"
+    "INSERT INTO books (title, author_id, year, available) VALUES ('1984', 1, 1949, true)"
   );
   rdbms.query(
-    "INSERT INTO books (id, title, author_id, year, available) VALUES (2, 'Animal Farm', 1, 1945, true)"
+    "INSERT INTO books (title, author_id, year, available) VALUES ('Animal Farm', 1, 1945, true)"
   );
   rdbms.query(
-    "INSERT INTO books (id, title, author_id, year, available) VALUES (3, 'Pride and Prejudice', 2, 1813, true)"
+    "INSERT INTO books (title, author_id, year, available) VALUES ('Pride and Prejudice', 2, 1813, true)"
   );
   rdbms.query(
-    "INSERT INTO books (id, title, author_id, year, available) VALUES (4, 'Emma', 2, 1815, false)"
+    "INSERT INTO books (title, author_id, year, available) VALUES ('Emma', 2, 1815, false)"
   );
   rdbms.query(
-    "INSERT INTO books (id, title, author_id, year, available) VALUES (5, 'The Adventures of Tom Sawyer', 3, 1876, true)"
+    "INSERT INTO books (title, author_id, year, available) VALUES ('The Adventures of Tom Sawyer', 3, 1876, true)"
   );
 }
 
@@ -98,7 +98,7 @@ function App() {
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="text-blue-600 font-bold">✓</span>
-                      <span>INNER and LEFT JOIN support</span>
+                      <span>INNER, OUTER and CROSS JOIN support</span>
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="text-blue-600 font-bold">✓</span>
@@ -148,7 +148,7 @@ function App() {
                 <li>• SELECT ... FROM ... WHERE</li>
                 <li>• UPDATE ... SET ... WHERE</li>
                 <li>• DELETE FROM ... WHERE</li>
-                <li>• INNER/LEFT JOIN ... ON</li>
+                <li>• INNER/LEFT/RIGHT/FULL/CROSS JOIN ... ON</li>
                 <li>• SHOW TABLES / DESCRIBE</li>
               </ul>
             </div>
@@ -0,0 +1,119 @@
+/**
+ * Compares the join methods on generated books and loans tables. Each
+ * method gets its own copy of the data and runs the same queries, and its
+ * rows must match those of plain nested loops.
+ *
+ *   npm run benchmark:joins -- [books] [loans]
+ */
+import { RDBMS } from '../rdbms';
+import type { JoinMethod } from '../rdbms';
+
+const BOOKS = Number(process.argv[2] ?? 300);
+const LOANS = Number(process.argv[3] ?? 1500);
+// Each query runs this often per method; the median time is reported
+const RUNS = 3;
+
+const METHODS: { name: string; joinMethods: JoinMethod[] }[] = [
+  { name: 'nested loop', joinMethods: [] },
+  { name: 'index', joinMethods: ['index'] },
+  { name: 'hash', joinMethods: ['hash'] },
+  { name: 'merge', joinMethods: ['merge'] },
+];
+
+const QUERIES = [
+  'SELECT b.title, l.member FROM books b JOIN loans l ON l.book_id = b.id',
+  'SELECT b.title, l.member FROM books b JOIN loans l ON l.book_id = b.id ORDER BY b.id',
+  'SELECT b.title, l.member FROM books b LEFT JOIN loans l ON l.book_id = b.id AND l.returned = false ORDER BY b.id',
+  `SELECT b.title, l.member FROM books b JOIN loans l ON l.book_id = b.id WHERE b.id < ${Math.floor(BOOKS / 10)} ORDER BY b.id`,
+];
+
+// The same data on every run, from a linear congruential generator
+function generateData(): string[] {
+  let seed = 42;
+  const random = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % n;
+  };
+
+  const statements = [
+    'CREATE TABLE books (id number PRIMARY KEY, title string NOT NULL, year number)',
+    'CREATE TABLE loans (id number PRIMARY KEY, book_id number, member string NOT NULL, returned boolean NOT NULL)',
+    // Merge joins read both tables in id order, which the hash index of the primary key cannot give
+    'CREATE INDEX books_id_idx ON books USING btree (id)',
+    'CREATE INDEX loans_book_idx ON loans USING btree (book_id)',
+  ];
+  for (let id = 1; id <= BOOKS; id++) {
+    statements.push(`INSERT INTO books (id, title, year) VALUES (${id}, 'Book ${id}', ${1900 + random(125)})`);
+  }
+  for (let id = 1; id <= LOANS; id++) {
+    // Some loans refer to books that do not exist, so that not every row finds a match
+    const bookId = random(Math.floor(BOOKS * 1.1)) + 1;
+    statements.push(
+      `INSERT INTO loans (id, book_id, member, returned) VALUES (${id}, ${bookId}, 'member${random(500)}', ${random(4) === 0})`
+    );
+  }
+  return statements;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// The join steps of a query's plan, such as "Hash Left Join"
+function joinSteps(db: RDBMS, sql: string): string {
+  const plan = db.query(`EXPLAIN ${sql}`).rows ?? [];
+  const steps = plan
+    .map(row => String(row['QUERY PLAN']).replace(/^[\s>-]*/, ''))
+    .filter(step => /^(Nested Loop|Hash|Merge)/.test(step))
+    .map(step => step.replace(/ \(.*$/, ''));
+  return steps.join(', ');
+}
+
+function main(): void {
+  console.log(`Generating ${BOOKS} books and ${LOANS} loans`);
+  const data = generateData();
+  const databases = METHODS.map(method => {
+    const db = new RDBMS({ joinMethods: method.joinMethods });
+    db.transaction(() => {
+      for (const statement of data) {
+        const result = db.query(statement);
+        if (!result.success) throw new Error(result.error);
+      }
+    });
+    return db;
+  });
+
+  let mismatches = 0;
+  for (const sql of QUERIES) {
+    console.log(`\n${sql}`);
+    let expected: string | undefined;
+
+    METHODS.forEach((method, i) => {
+      const db = databases[i];
+      const times: number[] = [];
+      let rows = '';
+      for (let run = 0; run < RUNS; run++) {
+        const start = performance.now();
+        const result = db.query(sql);
+        times.push(performance.now() - start);
+        if (!result.success) throw new Error(result.error);
+        rows = JSON.stringify(result.rows);
+      }
+
+      expected ??= rows;
+      const same = rows === expected;
+      if (!same) mismatches++;
+
+      const time = `${median(times).toFixed(1)} ms`.padStart(12);
+      console.log(`  ${method.name.padEnd(12)}${time}  ${joinSteps(db, sql)}${same ? '' : '  DIFFERENT ROWS'}`);
+    });
+  }
+
+  if (mismatches > 0) {
+    console.log(`\n${mismatches} result(s) differ from nested loops`);
+    process.exitCode = 1;
+  }
+}
+
+main();
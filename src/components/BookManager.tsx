@@ -48,9 +48,9 @@ export function BookManager({ rdbms, onUpdate }: BookManagerProps) {
   const addBook = () => {
     if (!newBook.title || !newBook.author_id || !newBook.year) return;
 
-    const result = rdbms.query(
-      `INSERT INTO books (id, title, author_id, year, available) VALUES (${Date.now()}, '${newBook.title}', ${newBook.author_id}, ${newBook.year}, true)`
-    );
+    const result = rdbms
+      .prepare('INSERT INTO books (title, author_id, year, available) VALUES (?, ?, ?, true)')
+      .execute([newBook.title, Number(newBook.author_id), Number(newBook.year)]);
 
     if (result.success) {
       setNewBook({ title: '', author_id: '', year: '' });
@@ -60,7 +60,7 @@ export function BookManager({ rdbms, onUpdate }: BookManagerProps) {
   };
 
   const deleteBook = (id: number) => {
-    const result = rdbms.query(`DELETE FROM books WHERE id = ${id}`);
+    const result = rdbms.prepare('DELETE FROM books WHERE id = ?').execute([id]);
     if (result.success) {
       loadData();
       onUpdate();
@@ -68,7 +68,7 @@ export function BookManager({ rdbms, onUpdate }: BookManagerProps) {
   };
 
   const toggleAvailability = (id: number, currentStatus: boolean) => {
-    const result = rdbms.query(`UPDATE books SET available = ${!currentStatus} WHERE id = ${id}`);
+    const result = rdbms.prepare('UPDATE books SET available = ? WHERE id = ?').execute([!currentStatus, id]);
     if (result.success) {
       loadData();
       onUpdate();
@@ -78,9 +78,9 @@ export function BookManager({ rdbms, onUpdate }: BookManagerProps) {
   const addAuthor = () => {
     if (!newAuthor.name || !newAuthor.country) return;
 
-    const result = rdbms.query(
-      `INSERT INTO authors (id, name, country) VALUES (${Date.now()}, '${newAuthor.name}', '${newAuthor.country}')`
-    );
+    const result = rdbms
+      .prepare('INSERT INTO authors (name, country) VALUES (?, ?)')
+      .execute([newAuthor.name, newAuthor.country]);
 
     if (result.success) {
       setNewAuthor({ name: '', country: '' });
@@ -90,17 +90,15 @@ export function BookManager({ rdbms, onUpdate }: BookManagerProps) {
   };
 
   const deleteAuthor = (id: number) => {
-    const hasBooks = books.some(book => book.author_id === id);
-    if (hasBooks) {
+    // The books.author_id foreign key refuses to delete authors that still have books
+    const result = rdbms.prepare('DELETE FROM authors WHERE id = ?').execute([id]);
+    if (!result.success) {
       alert('Cannot delete author with existing books');
       return;
     }
 
-    const result = rdbms.query(`DELETE FROM authors WHERE id = ${id}`);
-    if (result.success) {
-      loadData();
-      onUpdate();
-    }
+    loadData();
+    onUpdate();
   };
 
   const getAuthorName = (authorId: number) => {
@@ -0,0 +1,276 @@
+import { IndexBound, IndexKey, IndexRange, Value } from './types';
+
+// Most keys a node holds before it is split
+const MAX_KEYS = 32;
+
+interface LeafNode {
+  leaf: true;
+  keys: IndexKey[];
+  // Positions of the rows with each key, in ascending order
+  positions: number[][];
+  prev: LeafNode | null;
+  next: LeafNode | null;
+}
+
+interface InternalNode {
+  leaf: false;
+  // keys[i] is the smallest key under children[i + 1]
+  keys: IndexKey[];
+  children: TreeNode[];
+}
+
+type TreeNode = LeafNode | InternalNode;
+
+/**
+ * An ordered index, kept as a B+ tree whose leaves are linked in both
+ * directions. Besides equality lookups it answers range queries and returns
+ * rows in key order, ascending or descending.
+ *
+ * Keys are compared column by column with the comparison used for ORDER BY.
+ * Like the hash index, rows with a NULL in the key are not indexed. Removing
+ * keys does not merge nodes; Table rebuilds its indexes after a DELETE.
+ */
+export class BTreeIndex {
+  private root: TreeNode;
+  private compareValues: (a: Value, b: Value) => number;
+
+  constructor(compareValues: (a: Value, b: Value) => number) {
+    this.compareValues = compareValues;
+    this.root = this.emptyLeaf();
+  }
+
+  add(key: IndexKey | null, rowIndex: number): void {
+    if (key === null) return;
+
+    const split = this.insert(this.root, key, rowIndex);
+    if (split) {
+      this.root = { leaf: false, keys: [split.key], children: [this.root, split.node] };
+    }
+  }
+
+  remove(key: IndexKey | null, rowIndex: number): void {
+    if (key === null) return;
+
+    const leaf = this.findLeaf(key);
+    const slot = this.search(leaf.keys, key);
+    if (!slot.found) return;
+
+    const positions = leaf.positions[slot.index];
+    const at = this.searchPosition(positions, rowIndex);
+    if (positions[at] !== rowIndex) return;
+
+    positions.splice(at, 1);
+    if (positions.length === 0) {
+      leaf.keys.splice(slot.index, 1);
+      leaf.positions.splice(slot.index, 1);
+    }
+  }
+
+  find(key: IndexKey): number[] {
+    const leaf = this.findLeaf(key);
+    const slot = this.search(leaf.keys, key);
+    return slot.found ? [...leaf.positions[slot.index]] : [];
+  }
+
+  /**
+   * Returns the positions of the rows whose keys fall within the range, in
+   * key order. Bounds may give only the first columns of the key. Rows with
+   * equal keys are returned in position order in either direction.
+   */
+  *scan(range: IndexRange = {}): Generator<number> {
+    const { lower, upper, descending } = range;
+
+    if (!descending) {
+      let leaf: LeafNode | null = lower ? this.boundLeaf(lower, 'lower') : this.edgeLeaf('first');
+      for (; leaf; leaf = leaf.next) {
+        for (let i = 0; i < leaf.keys.length; i++) {
+          if (lower && !this.withinLower(leaf.keys[i], lower)) continue;
+          if (upper && !this.withinUpper(leaf.keys[i], upper)) return;
+          yield* leaf.positions[i];
+        }
+      }
+    } else {
+      let leaf: LeafNode | null = upper ? this.boundLeaf(upper, 'upper') : this.edgeLeaf('last');
+      for (; leaf; leaf = leaf.prev) {
+        for (let i = leaf.keys.length - 1; i >= 0; i--) {
+          if (upper && !this.withinUpper(leaf.keys[i], upper)) continue;
+          if (lower && !this.withinLower(leaf.keys[i], lower)) return;
+          yield* leaf.positions[i];
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.root = this.emptyLeaf();
+  }
+
+  // Returns the new right sibling when the node had to be split
+  private insert(node: TreeNode, key: IndexKey, rowIndex: number): { key: IndexKey; node: TreeNode } | null {
+    if (node.leaf) {
+      const slot = this.search(node.keys, key);
+      if (slot.found) {
+        const positions = node.positions[slot.index];
+        positions.splice(this.searchPosition(positions, rowIndex), 0, rowIndex);
+        return null;
+      }
+
+      node.keys.splice(slot.index, 0, key);
+      node.positions.splice(slot.index, 0, [rowIndex]);
+      return node.keys.length > MAX_KEYS ? this.splitLeaf(node) : null;
+    }
+
+    const child = this.childIndex(node, key);
+    const split = this.insert(node.children[child], key, rowIndex);
+    if (!split) return null;
+
+    node.keys.splice(child, 0, split.key);
+    node.children.splice(child + 1, 0, split.node);
+    return node.keys.length > MAX_KEYS ? this.splitInternal(node) : null;
+  }
+
+  private splitLeaf(leaf: LeafNode): { key: IndexKey; node: LeafNode } {
+    const middle = Math.floor(leaf.keys.length / 2);
+    const right: LeafNode = {
+      leaf: true,
+      keys: leaf.keys.splice(middle),
+      positions: leaf.positions.splice(middle),
+      prev: leaf,
+      next: leaf.next,
+    };
+    if (leaf.next) {
+      leaf.next.prev = right;
+    }
+    leaf.next = right;
+    return { key: right.keys[0], node: right };
+  }
+
+  // The middle key moves up to the parent
+  private splitInternal(node: InternalNode): { key: IndexKey; node: InternalNode } {
+    const middle = Math.floor(node.keys.length / 2);
+    const key = node.keys[middle];
+    const right: InternalNode = {
+      leaf: false,
+      keys: node.keys.splice(middle + 1),
+      children: node.children.splice(middle + 1),
+    };
+    node.keys.pop();
+    return { key, node: right };
+  }
+
+  private findLeaf(key: IndexKey): LeafNode {
+    let node = this.root;
+    while (!node.leaf) {
+      node = node.children[this.childIndex(node, key)];
+    }
+    return node;
+  }
+
+  // The child whose keys are at least the separator before it and below the one after it
+  private childIndex(node: InternalNode, key: IndexKey): number {
+    let low = 0;
+    let high = node.keys.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.compareKeys(node.keys[middle], key) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * The leaf from which a scan starts: for a lower bound, the leaf that holds
+   * the first key the bound allows, and for an upper bound the one that holds
+   * the last. Scans skip the keys of that leaf that are outside the bound.
+   */
+  private boundLeaf(bound: IndexBound, side: 'lower' | 'upper'): LeafNode {
+    // Separators are the first keys of the subtrees after them. A lower bound skips the subtrees
+    // followed by a separator it excludes; an upper bound enters the last subtree it allows.
+    const precedesStart =
+      side === 'lower'
+        ? (key: IndexKey) => !this.withinLower(key, bound)
+        : (key: IndexKey) => this.withinUpper(key, bound);
+
+    let node = this.root;
+    while (!node.leaf) {
+      let child = 0;
+      while (child < node.keys.length && precedesStart(node.keys[child])) {
+        child++;
+      }
+      node = node.children[child];
+    }
+    return node;
+  }
+
+  private edgeLeaf(edge: 'first' | 'last'): LeafNode {
+    let node = this.root;
+    while (!node.leaf) {
+      node = node.children[edge === 'first' ? 0 : node.children.length - 1];
+    }
+    return node;
+  }
+
+  private withinLower(key: IndexKey, bound: IndexBound): boolean {
+    const comparison = this.comparePrefix(key, bound.key);
+    return comparison > 0 || (comparison === 0 && bound.inclusive);
+  }
+
+  private withinUpper(key: IndexKey, bound: IndexBound): boolean {
+    const comparison = this.comparePrefix(key, bound.key);
+    return comparison < 0 || (comparison === 0 && bound.inclusive);
+  }
+
+  private search(keys: IndexKey[], key: IndexKey): { index: number; found: boolean } {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const comparison = this.compareKeys(keys[middle], key);
+      if (comparison === 0) return { index: middle, found: true };
+      if (comparison < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return { index: low, found: false };
+  }
+
+  private searchPosition(positions: number[], rowIndex: number): number {
+    let low = 0;
+    let high = positions.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (positions[middle] < rowIndex) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private compareKeys(a: IndexKey, b: IndexKey): number {
+    for (let i = 0; i < a.length; i++) {
+      const comparison = this.compareValues(a[i], b[i]);
+      if (comparison !== 0) return comparison;
+    }
+    return 0;
+  }
+
+  // Compares only as many columns as the bound gives
+  private comparePrefix(key: IndexKey, bound: IndexKey): number {
+    for (let i = 0; i < bound.length; i++) {
+      const comparison = this.compareValues(key[i], bound[i]);
+      if (comparison !== 0) return comparison;
+    }
+    return 0;
+  }
+
+  private emptyLeaf(): LeafNode {
+    return { leaf: true, keys: [], positions: [], prev: null, next: null };
+  }
+}
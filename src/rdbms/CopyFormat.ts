@@ -0,0 +1,212 @@
+import { ColumnDefinition, Row, Value } from './types';
+import { TypeConverter } from './TypeConverter';
+
+// A record read from an input file. Records that could not be read carry an error instead of data.
+export interface SourceRecord {
+  // Line on which the record starts
+  line: number;
+  // CSV fields, where null is a NULL value
+  fields?: (string | null)[];
+  // JSON object
+  object?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Reads and writes the CSV and JSON data used by COPY. Input is consumed
+ * as a sequence of text chunks, which may split records anywhere, so large
+ * files can be streamed instead of read at once.
+ */
+export class CopyFormat {
+  private converter = new TypeConverter();
+
+  /**
+   * Splits CSV text into records. Quoted fields may contain delimiters,
+   * newlines and doubled quotes. An unquoted field equal to nullText is
+   * NULL, so with the default empty nullText, "" is an empty string and an
+   * empty field is NULL.
+   */
+  *parseCSV(input: Iterable<string>, delimiter = ',', nullText = ''): Generator<SourceRecord> {
+    let fields: (string | null)[] = [];
+    let field = '';
+    let quoted = false;
+    let inQuotes = false;
+    // A quote inside a quoted field: either the closing quote or the first half of an escaped one
+    let quotePending = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endField = () => {
+      fields.push(!quoted && field === nullText ? null : field);
+      field = '';
+      quoted = false;
+    };
+
+    for (const chunk of input) {
+      for (const ch of chunk) {
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (ch === '"') {
+              field += ch;
+              continue;
+            }
+            inQuotes = false;
+          } else {
+            if (ch === '"') {
+              quotePending = true;
+            } else {
+              field += ch;
+              if (ch === '\n') line++;
+            }
+            continue;
+          }
+        }
+
+        if (ch === '"' && field === '' && !quoted) {
+          inQuotes = true;
+          quoted = true;
+        } else if (ch === delimiter) {
+          endField();
+        } else if (ch === '\n') {
+          // Blank lines are skipped
+          if (fields.length > 0 || field !== '' || quoted) {
+            endField();
+            yield { line: recordLine, fields };
+          }
+          fields = [];
+          line++;
+          recordLine = line;
+        } else if (ch !== '\r') {
+          field += ch;
+        }
+      }
+    }
+
+    if (inQuotes && !quotePending) {
+      yield { line: recordLine, error: 'Unterminated quoted field' };
+    } else if (fields.length > 0 || field !== '' || quoted) {
+      endField();
+      yield { line: recordLine, fields };
+    }
+  }
+
+  /**
+   * Splits JSON text into records. Accepts an array of objects as well as
+   * one object per line, and reads each object separately so a malformed
+   * one only rejects that record.
+   */
+  *parseJSON(input: Iterable<string>): Generator<SourceRecord> {
+    let line = 1;
+    let recordLine = 1;
+    let started = false;
+    // Depth at which records are found: 1 inside a top-level array, 0 otherwise
+    let recordDepth = 0;
+    let depth = 0;
+    let text = '';
+    let inString = false;
+    let escaped = false;
+
+    for (const chunk of input) {
+      for (const ch of chunk) {
+        if (ch === '\n') line++;
+
+        if (depth > recordDepth) {
+          text += ch;
+          if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+          } else if (ch === '"') {
+            inString = true;
+          } else if (ch === '{' || ch === '[') {
+            depth++;
+          } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === recordDepth) {
+              yield this.parseJSONRecord(text, recordLine);
+              text = '';
+            }
+          }
+          continue;
+        }
+
+        if (/\s/.test(ch) || (ch === ',' && recordDepth === 1)) continue;
+
+        if (ch === '[' && !started) {
+          recordDepth = 1;
+          depth = 1;
+        } else if (ch === ']' && recordDepth === 1 && depth === 1) {
+          depth = 0;
+        } else if (ch === '{' && depth === recordDepth) {
+          text = ch;
+          depth++;
+          recordLine = line;
+        } else {
+          throw new Error(`Expected a JSON object at line ${line} but found '${ch}'`);
+        }
+        started = true;
+      }
+    }
+
+    if (depth > recordDepth) {
+      yield { line: recordLine, error: 'Unterminated JSON object' };
+    }
+  }
+
+  formatCSV(columns: string[], rows: Row[], header = false, delimiter = ',', nullText = ''): string {
+    const lines = rows.map(row =>
+      columns.map(column => this.formatCSVField(row[column] ?? null, delimiter, nullText)).join(delimiter)
+    );
+    if (header) {
+      lines.unshift(columns.map(column => this.formatCSVField(column, delimiter, nullText)).join(delimiter));
+    }
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  // One object per line, so each record can be found by its line number
+  formatJSON(columns: string[], rows: Row[]): string {
+    if (rows.length === 0) return '[]\n';
+
+    const lines = rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))));
+    return `[\n${lines.join(',\n')}\n]\n`;
+  }
+
+  /** Converts a value read from a file to the type of the column it is stored in. */
+  coerce(value: unknown, column: ColumnDefinition): Value {
+    if (value === null || value === undefined) return null;
+    // Objects and arrays of JSON input are stored in json columns as their text
+    if (typeof value === 'object' && column.type === 'json') return JSON.stringify(value);
+
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new Error(`Invalid value for column ${column.name}`);
+    }
+
+    try {
+      return this.converter.cast(value, column);
+    } catch (error) {
+      throw new Error(`${error instanceof Error ? error.message : String(error)} for column ${column.name}`);
+    }
+  }
+
+  private parseJSONRecord(text: string, line: number): SourceRecord {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      return { line, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    return { line, object: value as Record<string, unknown> };
+  }
+
+  private formatCSVField(value: Value, delimiter: string, nullText: string): string {
+    if (value === null) return nullText;
+
+    const text = String(value);
+    // Quote text that would otherwise be split, or read back as NULL
+    if (text === nullText || text.includes(delimiter) || /["\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+}
@@ -1,11 +1,50 @@
-import { Table } from './Table';
-import { TableSchema } from './types';
+import { IndexInfo, Table, TableSnapshot } from './Table';
+import { Sequence, SequenceState } from './Sequence';
+import { SQLFormatter } from './SQLFormatter';
+import { TypeConverter } from './TypeConverter';
+import { FunctionRegistry } from './FunctionRegistry';
+import { AlterTableAction, ColumnDefinition, IndexDefinition, Row, TableSchema, Value } from './types';
+
+// The contents of a database, as saved by checkpoints
+export interface DatabaseState {
+  tables: { schema: TableSchema; rows: Row[] }[];
+  // Absent from checkpoints taken before sequences were supported
+  sequences?: SequenceState[];
+}
+
+// State to return to on ROLLBACK: the start of the transaction or a savepoint
+interface Savepoint {
+  // null for the savepoint implicitly created by BEGIN
+  name: string | null;
+  tables: Map<string, Table>;
+  // Tables are copied lazily, on their first change after the savepoint
+  snapshots: Map<Table, TableSnapshot>;
+  // Sequences are small, so they are copied right away
+  sequences: Map<string, SequenceState>;
+  // Number of statements recorded before the savepoint
+  statementCount: number;
+}
 
 export class Database {
   private tables: Map<string, Table>;
+  private sequences: Map<string, Sequence>;
+  // Sequences advanced or set since statements were last recorded
+  private changedSequences: Set<string>;
+  private savepoints: Savepoint[];
+  // Changes made by the open transaction, reported to the commit listener when it commits
+  private statements: string[];
+  private commitListener?: (statements: string[]) => void;
+  private converter: TypeConverter;
+  private functions: FunctionRegistry;
 
   constructor() {
     this.tables = new Map();
+    this.sequences = new Map();
+    this.changedSequences = new Set();
+    this.savepoints = [];
+    this.statements = [];
+    this.converter = new TypeConverter();
+    this.functions = new FunctionRegistry((name, args) => this.callSequenceFunction(name, args));
   }
 
   createTable(schema: TableSchema): { success: boolean; error?: string } {
@@ -14,27 +53,214 @@ export class Database {
     }
 
     const primaryKeys = schema.columns.filter(col => col.primaryKey);
-    if (primaryKeys.length > 1) {
-      return { success: false, error: 'Multiple primary keys not supported' };
+    const compositePrimaryKeys = (schema.uniqueKeys ?? []).filter(key => key.primary);
+    if (primaryKeys.length + compositePrimaryKeys.length > 1) {
+      return {
+        success: false,
+        error: 'Multiple primary keys not supported (use PRIMARY KEY (a, b) for a key on several columns)',
+      };
+    }
+
+    for (const key of schema.uniqueKeys ?? []) {
+      const missing = key.columns.find(name => !schema.columns.some(col => col.name === name));
+      if (missing) {
+        return { success: false, error: `Key column ${missing} does not exist` };
+      }
     }
 
     if (primaryKeys.length === 1) {
       schema.primaryKey = primaryKeys[0].name;
     }
 
-    this.tables.set(schema.name, new Table(schema));
+    const error = this.validateForeignKeys(schema);
+    if (error) {
+      return { success: false, error };
+    }
+
+    // Each SERIAL column takes its values from a sequence of its own
+    const serials = schema.columns.filter(col => col.autoIncrement);
+    for (const column of serials) {
+      const sequenceName = this.serialSequenceName(schema.name, column.name);
+      if (this.sequences.has(sequenceName)) {
+        return { success: false, error: `Sequence ${sequenceName} for column ${column.name} already exists` };
+      }
+    }
+    for (const column of serials) {
+      const sequenceName = this.serialSequenceName(schema.name, column.name);
+      this.createSequence(sequenceName, { ownedBy: schema.name });
+      column.default = this.nextvalCall(sequenceName);
+    }
+
+    this.tables.set(schema.name, new Table(schema, this));
     return { success: true };
   }
 
-  dropTable(tableName: string): { success: boolean; error?: string } {
+  /**
+   * Drops a table. A table referenced by foreign keys in other tables can
+   * only be dropped with cascade, which removes those foreign keys.
+   */
+  dropTable(tableName: string, cascade = false): { success: boolean; error?: string } {
     if (!this.tables.has(tableName)) {
       return { success: false, error: `Table ${tableName} does not exist` };
     }
 
+    const references = this.getReferences(tableName).filter(({ table }) => table.getSchema().name !== tableName);
+    if (references.length > 0 && !cascade) {
+      const { table, column } = references[0];
+      return {
+        success: false,
+        error: `Cannot drop table ${tableName}: column ${table.getSchema().name}.${column.name} references it (use DROP TABLE ... CASCADE)`,
+      };
+    }
+
+    for (const { table } of references) {
+      table.dropForeignKeys(tableName);
+    }
     this.tables.delete(tableName);
+    for (const sequence of this.sequences.values()) {
+      if (sequence.getState().ownedBy === tableName) {
+        this.sequences.delete(sequence.getName());
+      }
+    }
+    return { success: true };
+  }
+
+  /**
+   * Changes a table as ALTER TABLE does. Everything the change involves,
+   * such as foreign keys in other tables and the sequences of SERIAL
+   * columns, changes with it; when any part fails nothing changes.
+   */
+  alterTable(tableName: string, action: AlterTableAction): { success: boolean; error?: string } {
+    const table = this.tables.get(tableName);
+    if (!table) {
+      return { success: false, error: `Table ${tableName} does not exist` };
+    }
+
+    try {
+      this.atomic(() => {
+        const error = this.applyAlteration(table, action);
+        if (error) {
+          throw new Error(error);
+        }
+      });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  createSequence(
+    name: string,
+    options: { start?: number; increment?: number; ownedBy?: string } = {}
+  ): { success: boolean; error?: string } {
+    if (this.sequences.has(name)) {
+      return { success: false, error: `Sequence ${name} already exists` };
+    }
+
+    const start = options.start ?? 1;
+    this.sequences.set(
+      name,
+      new Sequence({ name, start, increment: options.increment ?? 1, value: start, called: false, ownedBy: options.ownedBy })
+    );
+    return { success: true };
+  }
+
+  /** Drops a sequence. Sequences created for SERIAL columns are only dropped with their table. */
+  dropSequence(name: string): { success: boolean; error?: string } {
+    const sequence = this.sequences.get(name);
+    if (!sequence) {
+      return { success: false, error: `Sequence ${name} does not exist` };
+    }
+
+    const owner = sequence.getState().ownedBy;
+    if (owner && this.tables.has(owner)) {
+      return { success: false, error: `Cannot drop sequence ${name}: it belongs to a SERIAL column of table ${owner}` };
+    }
+
+    this.sequences.delete(name);
+    return { success: true };
+  }
+
+  createIndex(tableName: string, definition: IndexDefinition): { success: boolean; error?: string } {
+    const table = this.tables.get(tableName);
+    if (!table) {
+      return { success: false, error: `Table ${tableName} does not exist` };
+    }
+    if (this.findIndex(definition.name)) {
+      return { success: false, error: `Index ${definition.name} already exists` };
+    }
+
+    const columns = table.getSchema().columns;
+    for (const [position, name] of definition.columns.entries()) {
+      if (!columns.some(column => column.name === name)) {
+        return { success: false, error: `Column ${name} does not exist in table ${tableName}` };
+      }
+      if (definition.columns.indexOf(name) !== position) {
+        return { success: false, error: `Column ${name} appears twice in index ${definition.name}` };
+      }
+    }
+
+    return table.createIndex(definition);
+  }
+
+  // Indexes that back a PRIMARY KEY or UNIQUE constraint are only dropped with their table
+  dropIndex(name: string): { success: boolean; error?: string } {
+    const found = this.findIndex(name);
+    if (!found) {
+      return { success: false, error: `Index ${name} does not exist` };
+    }
+    if (found.index.constraint) {
+      return { success: false, error: `Cannot drop index ${name}: it belongs to a constraint of table ${found.table.getSchema().name}` };
+    }
+
+    found.table.dropIndex(name);
     return { success: true };
   }
 
+  getSequence(name: string): Sequence | undefined {
+    return this.sequences.get(name);
+  }
+
+  getFunctions(): FunctionRegistry {
+    return this.functions;
+  }
+
+  /** Runs a scalar function, built in or registered. */
+  callFunction(name: string, args: Value[]): Value {
+    return this.functions.call(name, args);
+  }
+
+  // Runs one of the sequence functions nextval, currval and setval
+  private callSequenceFunction(name: string, args: Value[]): Value {
+    const [sequenceName, value, called] = args;
+    if (typeof sequenceName !== 'string') {
+      throw new Error(`${name} expects a sequence name`);
+    }
+    const sequence = this.sequences.get(sequenceName);
+    if (!sequence) {
+      throw new Error(`Sequence ${sequenceName} does not exist`);
+    }
+
+    switch (name) {
+      case 'nextval':
+        this.changedSequences.add(sequenceName);
+        return sequence.next();
+      case 'currval':
+        return sequence.current();
+      case 'setval':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          throw new Error('setval expects an integer value');
+        }
+        if (called !== undefined && typeof called !== 'boolean') {
+          throw new Error('setval expects a boolean as its third argument');
+        }
+        this.changedSequences.add(sequenceName);
+        return sequence.set(value, called ?? true);
+      default:
+        throw new Error(`Unknown sequence function ${name}`);
+    }
+  }
+
   getTable(tableName: string): Table | undefined {
     return this.tables.get(tableName);
   }
@@ -46,4 +272,457 @@ export class Database {
   hasTable(tableName: string): boolean {
     return this.tables.has(tableName);
   }
+
+  /** Returns the foreign key columns, in any table, that reference the given table. */
+  getReferences(tableName: string): { table: Table; column: ColumnDefinition }[] {
+    const references: { table: Table; column: ColumnDefinition }[] = [];
+    for (const table of this.tables.values()) {
+      for (const column of table.getSchema().columns) {
+        if (column.references?.table === tableName) {
+          references.push({ table, column });
+        }
+      }
+    }
+    return references;
+  }
+
+  // Tables come after the tables they reference, so that loading them in order satisfies their foreign keys
+  getState(): DatabaseState {
+    const ordered = new Set<Table>();
+    const visit = (table: Table) => {
+      if (ordered.has(table)) return;
+      ordered.add(table);
+      for (const column of table.getSchema().columns) {
+        const parent = column.references && this.tables.get(column.references.table);
+        if (parent && parent !== table && !ordered.has(parent)) {
+          ordered.delete(table);
+          visit(parent);
+          ordered.add(table);
+        }
+      }
+    };
+    this.tables.forEach(visit);
+
+    return {
+      tables: Array.from(ordered).map(table => ({
+        schema: table.getSchema(),
+        rows: table.snapshot().rows,
+      })),
+      sequences: Array.from(this.sequences.values(), sequence => sequence.getState()),
+    };
+  }
+
+  /** Replaces every table with the given ones. Not allowed inside a transaction. */
+  loadState(state: DatabaseState): void {
+    if (this.inTransaction()) {
+      throw new Error('Cannot load a database state inside a transaction');
+    }
+
+    this.tables = new Map();
+    this.sequences = new Map();
+    for (const { schema: saved, rows } of state.tables) {
+      // Checkpoints taken before integer and real were told apart have number columns
+      const columns = saved.columns.map(col => ((col.type as string) === 'number' ? { ...col, type: 'real' as const } : col));
+      const schema = { ...saved, columns };
+      const result = this.createTable(schema);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      this.tables.get(schema.name)!.restore({ rows, schema });
+    }
+    // Replaces the fresh sequences that createTable made for SERIAL columns
+    for (const sequence of state.sequences ?? []) {
+      this.sequences.set(sequence.name, new Sequence(sequence));
+    }
+  }
+
+  /** Registers a callback that receives the statements of every committed change. */
+  onCommit(listener: (statements: string[]) => void): void {
+    this.commitListener = listener;
+  }
+
+  /**
+   * Records statements that changed the database. Outside a transaction they
+   * are committed at once, together; inside one they are held until COMMIT,
+   * and dropped again on rollback. Does nothing when no one listens for commits.
+   *
+   * Sequences change even in statements that fail or are not recorded, such
+   * as SELECT nextval('seq'), so the positions of sequences changed since the
+   * last call are recorded too, as setval() calls.
+   */
+  recordStatements(statements: string[]): void {
+    const formatter = new SQLFormatter();
+    for (const name of this.changedSequences) {
+      const sequence = this.sequences.get(name);
+      if (sequence) {
+        statements = [...statements, formatter.formatSetval(sequence.getState())];
+      }
+    }
+    this.changedSequences.clear();
+
+    if (!this.commitListener || statements.length === 0) return;
+
+    if (this.inTransaction()) {
+      this.statements.push(...statements);
+    } else {
+      this.commitListener(statements);
+    }
+  }
+
+  inTransaction(): boolean {
+    return this.savepoints.length > 0;
+  }
+
+  begin(): { success: boolean; error?: string } {
+    if (this.inTransaction()) {
+      return { success: false, error: 'A transaction is already in progress' };
+    }
+
+    this.pushSavepoint(null);
+    return { success: true };
+  }
+
+  commit(): { success: boolean; error?: string } {
+    if (!this.inTransaction()) {
+      return { success: false, error: 'No transaction in progress' };
+    }
+
+    const statements = this.statements;
+    this.savepoints = [];
+    this.statements = [];
+    if (statements.length > 0) {
+      this.commitListener?.(statements);
+    }
+    return { success: true };
+  }
+
+  rollback(): { success: boolean; error?: string } {
+    if (!this.inTransaction()) {
+      return { success: false, error: 'No transaction in progress' };
+    }
+
+    this.rollbackTo(0);
+    this.savepoints = [];
+    return { success: true };
+  }
+
+  savepoint(name: string): { success: boolean; error?: string } {
+    if (!this.inTransaction()) {
+      return { success: false, error: 'SAVEPOINT can only be used in a transaction' };
+    }
+
+    this.pushSavepoint(name);
+    return { success: true };
+  }
+
+  /** Undoes everything after the savepoint, which stays in place and can be rolled back to again. */
+  rollbackToSavepoint(name: string): { success: boolean; error?: string } {
+    const position = this.findSavepoint(name);
+    if (position === -1) {
+      return { success: false, error: `Savepoint ${name} does not exist` };
+    }
+
+    this.rollbackTo(position);
+    return { success: true };
+  }
+
+  /** Forgets the savepoint and any later ones, keeping their changes in the transaction. */
+  releaseSavepoint(name: string): { success: boolean; error?: string } {
+    const position = this.findSavepoint(name);
+    if (position === -1) {
+      return { success: false, error: `Savepoint ${name} does not exist` };
+    }
+
+    this.savepoints.length = position;
+    return { success: true };
+  }
+
+  /**
+   * Runs fn so that all of its changes are undone if it throws: in a new
+   * transaction, or under an anonymous savepoint when one is already open.
+   */
+  atomic<T>(fn: () => T): T {
+    const position = this.savepoints.length;
+    this.pushSavepoint(null);
+
+    try {
+      const result = fn();
+      // fn may have ended the transaction itself
+      if (this.savepoints.length > position) {
+        if (position === 0) {
+          this.commit();
+        } else {
+          this.savepoints.length = position;
+        }
+      }
+      return result;
+    } catch (error) {
+      if (this.savepoints.length > position) {
+        this.rollbackTo(position);
+        this.savepoints.length = position;
+      }
+      throw error;
+    }
+  }
+
+  /** Called by tables before they change, so that the transaction can undo the change. */
+  beforeWrite(table: Table): void {
+    let snapshot: TableSnapshot | undefined;
+
+    // A table changed for the first time since several savepoints shares one copy between them
+    for (const savepoint of this.savepoints) {
+      if (!savepoint.snapshots.has(table)) {
+        snapshot ??= table.snapshot();
+        savepoint.snapshots.set(table, snapshot);
+      }
+    }
+  }
+
+  private pushSavepoint(name: string | null): void {
+    this.savepoints.push({
+      name,
+      tables: new Map(this.tables),
+      snapshots: new Map(),
+      sequences: new Map(Array.from(this.sequences, ([name, sequence]) => [name, sequence.getState()])),
+      statementCount: this.statements.length,
+    });
+  }
+
+  // The most recent savepoint with the name wins, as in standard SQL
+  private findSavepoint(name: string): number {
+    for (let i = this.savepoints.length - 1; i > 0; i--) {
+      if (this.savepoints[i].name === name) return i;
+    }
+    return -1;
+  }
+
+  // Returns to the state of the savepoint, which stays open
+  private rollbackTo(position: number): void {
+    const savepoint = this.savepoints[position];
+    this.restore(savepoint);
+    savepoint.snapshots.clear();
+    this.savepoints.length = position + 1;
+    this.statements.length = savepoint.statementCount;
+  }
+
+  private restore(savepoint: Savepoint): void {
+    // Dropped tables come back and tables created since disappear
+    this.tables = new Map(savepoint.tables);
+    savepoint.snapshots.forEach((snapshot, table) => table.restore(snapshot));
+    this.sequences = new Map(Array.from(savepoint.sequences, ([name, state]) => [name, new Sequence(state)]));
+  }
+
+  // Returns an error, having made whatever changes it got to, which alterTable then undoes
+  private applyAlteration(table: Table, action: AlterTableAction): string | undefined {
+    const schema = table.getSchema();
+    const tableName = schema.name;
+    const findColumn = (name: string) => schema.columns.find(col => col.name === name);
+    const missingColumn = (name: string) => `Column ${name} does not exist in table ${tableName}`;
+
+    switch (action.type) {
+      case 'ADD_COLUMN': {
+        const column = action.column;
+        if (findColumn(column.name)) {
+          return `Column ${column.name} already exists in table ${tableName}`;
+        }
+        if (column.primaryKey && (schema.primaryKey || schema.uniqueKeys?.some(key => key.primary))) {
+          return `Table ${tableName} already has a primary key`;
+        }
+
+        // The other columns are there for a column that references its own table
+        const error = this.validateForeignKeys({ ...schema, columns: [...schema.columns, column] });
+        if (error) return error;
+        const parent = column.references?.table;
+        if (parent && parent !== tableName && this.dependsOn(parent, tableName)) {
+          return `Column ${column.name} cannot reference ${parent}, which already depends on ${tableName}: tables cannot reference each other in a cycle`;
+        }
+
+        if (column.autoIncrement) {
+          const sequenceName = this.serialSequenceName(tableName, column.name);
+          const result = this.createSequence(sequenceName, { ownedBy: tableName });
+          if (!result.success) {
+            return `Sequence ${sequenceName} for column ${column.name} already exists`;
+          }
+          column.default = this.nextvalCall(sequenceName);
+        }
+        return table.addColumn(column).error;
+      }
+
+      case 'DROP_COLUMN': {
+        const column = findColumn(action.column);
+        if (!column) return missingColumn(action.column);
+        if (schema.columns.length === 1) {
+          return `Cannot drop column ${column.name}: it is the only column of table ${tableName}`;
+        }
+
+        const references = this.getReferences(tableName).filter(
+          reference => reference.column.references!.column === column.name && reference.column !== column
+        );
+        if (references.length > 0 && !action.cascade) {
+          const { table: child, column: childColumn } = references[0];
+          return `Cannot drop column ${tableName}.${column.name}: column ${child.getSchema().name}.${childColumn.name} references it (use DROP COLUMN ... CASCADE)`;
+        }
+        for (const reference of references) {
+          reference.table.dropForeignKeys(tableName, column.name);
+        }
+
+        if (column.autoIncrement) {
+          this.sequences.delete(this.serialSequenceName(tableName, column.name));
+        }
+        table.dropColumn(column.name);
+        return undefined;
+      }
+
+      case 'RENAME_COLUMN': {
+        const column = findColumn(action.column);
+        if (!column) return missingColumn(action.column);
+        if (findColumn(action.newName)) {
+          return `Column ${action.newName} already exists in table ${tableName}`;
+        }
+
+        const serial = column.autoIncrement;
+        table.renameColumn(column.name, action.newName);
+        for (const other of this.tables.values()) {
+          other.renameForeignKeys(tableName, tableName, action.column, action.newName);
+        }
+        return serial ? this.renameSerialSequence(table, action.newName, tableName, action.column) : undefined;
+      }
+
+      case 'RENAME_TABLE': {
+        if (this.tables.has(action.newName)) {
+          return `Table ${action.newName} already exists`;
+        }
+
+        table.rename(action.newName);
+        // Keeps the order of the tables, which dump() follows
+        this.tables = new Map(Array.from(this.tables, ([name, other]) => [name === tableName ? action.newName : name, other]));
+        for (const other of this.tables.values()) {
+          other.renameForeignKeys(tableName, action.newName);
+        }
+        for (const column of table.getSchema().columns.filter(col => col.autoIncrement)) {
+          const error = this.renameSerialSequence(table, column.name, tableName, column.name);
+          if (error) return error;
+        }
+        return undefined;
+      }
+
+      case 'SET_NULLABLE': {
+        const column = findColumn(action.column);
+        if (!column) return missingColumn(action.column);
+        const foreignKey = column.references;
+        if (!action.nullable && foreignKey && (foreignKey.onDelete === 'SET NULL' || foreignKey.onUpdate === 'SET NULL')) {
+          return `Column ${column.name} cannot be NOT NULL because its foreign key uses SET NULL`;
+        }
+        return table.setNullable(column.name, action.nullable).error;
+      }
+
+      case 'ADD_UNIQUE': {
+        for (const [position, name] of action.columns.entries()) {
+          if (!findColumn(name)) return missingColumn(name);
+          if (action.columns.indexOf(name) !== position) {
+            return `Column ${name} appears twice in the key`;
+          }
+        }
+        return table.addUniqueKey(action.columns).error;
+      }
+
+      case 'DROP_CONSTRAINT': {
+        const result = table.dropUniqueKey(action.name);
+        if (!result.success) return result.error;
+
+        // Foreign keys can only reference columns that are still unique
+        for (const { table: child, column } of this.getReferences(tableName)) {
+          const target = table.getSchema().columns.find(col => col.name === column.references!.column);
+          if (target && !target.primaryKey && !target.unique) {
+            return `Cannot drop constraint ${action.name}: column ${child.getSchema().name}.${column.name} references ${tableName}.${target.name}`;
+          }
+        }
+        return undefined;
+      }
+    }
+  }
+
+  // Whether the table references the other one, directly or through other tables
+  private dependsOn(tableName: string, otherName: string, visited = new Set<string>()): boolean {
+    if (visited.has(tableName)) return false;
+    visited.add(tableName);
+
+    return (this.tables.get(tableName)?.getSchema().columns ?? []).some(column => {
+      const parent = column.references?.table;
+      return parent !== undefined && parent !== tableName && (parent === otherName || this.dependsOn(parent, otherName, visited));
+    });
+  }
+
+  // The sequence of a SERIAL column is named after its table and column, so it is renamed along with them
+  private renameSerialSequence(table: Table, columnName: string, oldTableName: string, oldColumnName: string): string | undefined {
+    const oldName = this.serialSequenceName(oldTableName, oldColumnName);
+    const newTableName = table.getSchema().name;
+    const newName = this.serialSequenceName(newTableName, columnName);
+    const sequence = this.sequences.get(oldName);
+    if (!sequence) return undefined;
+    if (this.sequences.has(newName)) {
+      return `Sequence ${newName} for column ${columnName} already exists`;
+    }
+
+    this.sequences.delete(oldName);
+    this.sequences.set(newName, new Sequence({ ...sequence.getState(), name: newName, ownedBy: newTableName }));
+    this.beforeWrite(table);
+    table.getSchema().columns.find(col => col.name === columnName)!.default = this.nextvalCall(newName);
+    return undefined;
+  }
+
+  private serialSequenceName(tableName: string, columnName: string): string {
+    return `${tableName}_${columnName}_seq`;
+  }
+
+  private nextvalCall(sequenceName: string): ColumnDefinition['default'] {
+    return { type: 'FUNCTION', name: 'nextval', arguments: [{ type: 'LITERAL', value: sequenceName }] };
+  }
+
+  // Index names are unique across all tables
+  private findIndex(name: string): { table: Table; index: IndexInfo } | undefined {
+    for (const table of this.tables.values()) {
+      const index = table.getIndexes().find(candidate => candidate.name === name);
+      if (index) return { table, index };
+    }
+    return undefined;
+  }
+
+  private validateForeignKeys(schema: TableSchema): string | undefined {
+    for (const column of schema.columns) {
+      const foreignKey = column.references;
+      if (!foreignKey) continue;
+
+      // A table may reference itself
+      const parent = foreignKey.table === schema.name ? schema : this.tables.get(foreignKey.table)?.getSchema();
+      if (!parent) {
+        return `Referenced table ${foreignKey.table} does not exist`;
+      }
+
+      if (!foreignKey.column) {
+        if (parent.uniqueKeys?.some(key => key.primary)) {
+          return `Table ${parent.name} has a primary key on several columns, which column ${column.name} cannot reference`;
+        }
+        if (!parent.primaryKey) {
+          return `Table ${parent.name} has no primary key for column ${column.name} to reference`;
+        }
+        foreignKey.column = parent.primaryKey;
+      }
+
+      const target = parent.columns.find(col => col.name === foreignKey.column);
+      if (!target) {
+        return `Referenced column ${parent.name}.${foreignKey.column} does not exist`;
+      }
+      if (!target.primaryKey && !target.unique) {
+        return `Referenced column ${parent.name}.${target.name} must be a primary key or unique`;
+      }
+      if (!this.converter.comparable(target.type, column.type)) {
+        return `Column ${column.name} has type ${column.type} but references ${parent.name}.${target.name} of type ${target.type}`;
+      }
+      if ((foreignKey.onDelete === 'SET NULL' || foreignKey.onUpdate === 'SET NULL') && !column.nullable) {
+        return `Column ${column.name} cannot use SET NULL because it is NOT NULL`;
+      }
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,92 @@
+import { MAX_DECIMAL_PRECISION } from './TypeConverter';
+
+/**
+ * An exact decimal number, kept as a whole number of units of 10^-scale.
+ * Decimal columns store their values as numbers, whose shortest text is the
+ * exact value for up to MAX_DECIMAL_PRECISION digits, so arithmetic on
+ * decimals converts them to this form and back rather than working on the
+ * binary doubles, where 0.1 + 0.2 is 0.30000000000000004.
+ */
+export class Decimal {
+  readonly units: bigint;
+  readonly scale: number;
+
+  constructor(units: bigint, scale: number) {
+    this.units = units;
+    this.scale = scale;
+  }
+
+  static from(value: number): Decimal {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid decimal value ${value}`);
+    }
+
+    // Very large and very small numbers are written with an exponent, e.g. 1e+21 or 1.5e-7
+    const [mantissa, exponent = '0'] = String(value).split('e');
+    const [whole, fraction = ''] = mantissa.split('.');
+    const scale = fraction.length - Number(exponent);
+    const units = BigInt(whole + fraction);
+    return scale < 0 ? new Decimal(units * 10n ** BigInt(-scale), 0) : new Decimal(units, scale);
+  }
+
+  plus(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) + other.rescale(scale), scale);
+  }
+
+  minus(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) - other.rescale(scale), scale);
+  }
+
+  times(other: Decimal): Decimal {
+    return new Decimal(this.units * other.units, this.scale + other.scale);
+  }
+
+  /** Divides, rounding half away from zero to MAX_DECIMAL_PRECISION significant digits. */
+  dividedBy(other: Decimal): Decimal {
+    if (other.units === 0n) {
+      throw new Error('Division by zero');
+    }
+    if (this.units === 0n) {
+      return new Decimal(0n, 0);
+    }
+
+    // Digits before the point of the quotient, near enough to tell how many may follow it
+    const magnitude = Math.floor(Math.log10(Math.abs(this.toNumber() / other.toNumber())));
+    const scale = Math.max(MAX_DECIMAL_PRECISION - 1 - magnitude, 0);
+    const shift = scale + other.scale - this.scale;
+    const dividend = shift > 0 ? this.units * 10n ** BigInt(shift) : this.units;
+    const divisor = shift < 0 ? other.units * 10n ** BigInt(-shift) : other.units;
+    return new Decimal(this.divideRounded(dividend, divisor), scale);
+  }
+
+  /** The remainder of dividing with the quotient truncated, which takes the sign of this number. */
+  remainder(other: Decimal): Decimal {
+    if (other.units === 0n) {
+      throw new Error('Division by zero');
+    }
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) % other.rescale(scale), scale);
+  }
+
+  /** The nearest number, which is the decimal itself while it has no more than MAX_DECIMAL_PRECISION digits. */
+  toNumber(): number {
+    return Number(`${this.units}e${-this.scale}`);
+  }
+
+  // The units of the same value at a scale at least as large
+  private rescale(scale: number): bigint {
+    return this.units * 10n ** BigInt(scale - this.scale);
+  }
+
+  private divideRounded(dividend: bigint, divisor: bigint): bigint {
+    const quotient = dividend / divisor;
+    const remainder = dividend % divisor;
+    const abs = (value: bigint) => (value < 0n ? -value : value);
+    if (2n * abs(remainder) < abs(divisor)) {
+      return quotient;
+    }
+    return (dividend < 0n) === (divisor < 0n) ? quotient + 1n : quotient - 1n;
+  }
+}
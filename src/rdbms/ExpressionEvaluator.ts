@@ -0,0 +1,638 @@
+import {
+  AggregateExpression,
+  ArithmeticOperator,
+  CaseExpression,
+  ColumnType,
+  ComparisonOperator,
+  Expression,
+  JsonAccessExpression,
+  Row,
+  Value,
+} from './types';
+import type { SelectQuery } from './QueryParser';
+import { Decimal } from './Decimal';
+import { Scope } from './Scope';
+import { TypeConverter } from './TypeConverter';
+
+export interface EvaluationContext {
+  // Resolves column references; without one, columns are looked up by name
+  scope?: Scope;
+  // Rows of the current group, required to evaluate aggregate functions
+  group?: Row[];
+  // Current rows of the enclosing queries, innermost first, for correlated subqueries
+  outerRows?: Row[];
+}
+
+export interface SubqueryResult {
+  columns: string[];
+  rows: Row[];
+}
+
+// Runs a nested SELECT for the row currently being evaluated
+export type SubqueryRunner = (query: SelectQuery, row: Row, context: EvaluationContext) => SubqueryResult;
+
+// Calls a scalar function with its evaluated arguments
+export type FunctionRunner = (name: string, args: Value[]) => Value;
+
+// Gives the type a scalar function returns for arguments of the given types
+export type FunctionTypeLookup = (name: string, argumentTypes: (ColumnType | undefined)[]) => ColumnType | undefined;
+
+// Types kept as text in a canonical form, which a string compared with them must be put in first
+const CANONICAL_TYPES = new Set<ColumnType>(['date', 'timestamp', 'json']);
+
+/**
+ * Evaluates expression trees against a row using SQL three-valued logic:
+ * predicates yield true, false or null (UNKNOWN), and any comparison with
+ * NULL is UNKNOWN.
+ *
+ * Numbers of every type are plain numbers while a query runs, so arithmetic
+ * goes by the types of the expressions, told from the columns in scope:
+ * integers divide with the quotient truncated, decimals are computed
+ * exactly, and reals, like numbers of unknown type, as doubles.
+ */
+export class ExpressionEvaluator {
+  private likePatterns: Map<string, RegExp>;
+  private runSubquery?: SubqueryRunner;
+  private runFunction?: FunctionRunner;
+  private functionType?: FunctionTypeLookup;
+  private converter: TypeConverter;
+  // Types of the expressions evaluated in each scope, worked out once
+  private types: WeakMap<Scope, Map<Expression, ColumnType | undefined>>;
+
+  constructor(runSubquery?: SubqueryRunner, runFunction?: FunctionRunner, functionType?: FunctionTypeLookup) {
+    this.likePatterns = new Map();
+    this.converter = new TypeConverter();
+    this.runSubquery = runSubquery;
+    this.runFunction = runFunction;
+    this.functionType = functionType;
+    this.types = new WeakMap();
+  }
+
+  evaluate(expression: Expression, row: Row, context: EvaluationContext = {}): Value {
+    switch (expression.type) {
+      case 'LITERAL':
+        return expression.value;
+      case 'COLUMN': {
+        if (!context.scope) {
+          return row[expression.column] ?? null;
+        }
+        const { key, depth } = context.scope.resolve(expression);
+        const source = depth === 0 ? row : context.outerRows?.[depth - 1];
+        return source?.[key] ?? null;
+      }
+      case 'SUBQUERY': {
+        const result = this.subquery(expression.query, row, context);
+        const column = this.singleColumn(result);
+        if (result.rows.length > 1) {
+          throw new Error('More than one row returned by a subquery used as an expression');
+        }
+        return result.rows.length === 0 ? null : result.rows[0][column] ?? null;
+      }
+      case 'AGGREGATE':
+        return this.evaluateAggregate(expression, context);
+      case 'FUNCTION': {
+        if (!this.runFunction) {
+          throw new Error(`Function ${expression.name} is not allowed here`);
+        }
+        const args = expression.arguments.map(argument => this.evaluate(argument, row, context));
+        return this.runFunction(expression.name, args);
+      }
+      case 'ARITHMETIC':
+        return this.calculate(
+          expression.operator,
+          this.evaluate(expression.left, row, context),
+          this.evaluate(expression.right, row, context),
+          this.typeOf(expression, context.scope)
+        );
+      case 'NEGATE':
+        return this.calculate('-', 0, this.evaluate(expression.operand, row, context), this.typeOf(expression, context.scope));
+      case 'CONCAT': {
+        const left = this.evaluate(expression.left, row, context);
+        const right = this.evaluate(expression.right, row, context);
+        if (left === null || right === null) return null;
+        return `${this.converter.cast(left, { type: 'string' })}${this.converter.cast(right, { type: 'string' })}`;
+      }
+      case 'CASE':
+        return this.evaluateCase(expression, row, context);
+      case 'CAST':
+        return this.converter.cast(this.evaluate(expression.operand, row, context), expression.target);
+      case 'JSON_ACCESS':
+        return this.accessJson(
+          expression,
+          this.evaluate(expression.operand, row, context),
+          this.evaluate(expression.key, row, context)
+        );
+      case 'PARAMETER':
+        // Prepared statements replace their parameters before running
+        throw new Error(`No value given for parameter $${expression.index + 1}`);
+      default:
+        return this.test(expression, row, context);
+    }
+  }
+
+  /** Evaluates a predicate, returning null when the result is UNKNOWN. */
+  test(expression: Expression, row: Row, context: EvaluationContext = {}): boolean | null {
+    switch (expression.type) {
+      case 'AND': {
+        const left = this.test(expression.left, row, context);
+        if (left === false) return false;
+        const right = this.test(expression.right, row, context);
+        if (right === false) return false;
+        return left === null || right === null ? null : true;
+      }
+      case 'OR': {
+        const left = this.test(expression.left, row, context);
+        if (left === true) return true;
+        const right = this.test(expression.right, row, context);
+        if (right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+      case 'NOT':
+        return this.negate(this.test(expression.operand, row, context));
+      case 'COMPARISON':
+        return this.compareWith(
+          expression.operator,
+          this.comparand(expression.left, expression.right, row, context),
+          this.comparand(expression.right, expression.left, row, context)
+        );
+      case 'IS_NULL': {
+        const isNull = this.evaluate(expression.operand, row, context) === null;
+        return expression.negated ? !isNull : isNull;
+      }
+      case 'LIKE': {
+        const value = this.evaluate(expression.operand, row, context);
+        const pattern = this.evaluate(expression.pattern, row, context);
+        if (value === null || pattern === null) return null;
+
+        const matches = this.likeToRegExp(String(pattern), expression.caseInsensitive).test(String(value));
+        return expression.negated ? !matches : matches;
+      }
+      case 'IN': {
+        const value = this.evaluate(expression.operand, row, context);
+        const candidates = expression.values.map(item => this.comparand(item, expression.operand, row, context));
+        return this.evaluateIn(value, candidates, expression.negated);
+      }
+      case 'IN_SUBQUERY': {
+        const value = this.evaluate(expression.operand, row, context);
+        const result = this.subquery(expression.query, row, context);
+        const column = this.singleColumn(result);
+        const candidates = result.rows.map(candidate => candidate[column] ?? null);
+        return this.evaluateIn(value, candidates, expression.negated);
+      }
+      case 'EXISTS':
+        return this.subquery(expression.query, row, context).rows.length > 0;
+      case 'BETWEEN': {
+        const value = this.evaluate(expression.operand, row, context);
+        const lower = this.compareWith('>=', value, this.comparand(expression.lower, expression.operand, row, context));
+        const upper = this.compareWith('<=', value, this.comparand(expression.upper, expression.operand, row, context));
+
+        let result: boolean | null;
+        if (lower === false || upper === false) {
+          result = false;
+        } else if (lower === null || upper === null) {
+          result = null;
+        } else {
+          result = true;
+        }
+
+        return expression.negated ? this.negate(result) : result;
+      }
+      default: {
+        const value = this.evaluate(expression, row, context);
+        return value === null ? null : value === true;
+      }
+    }
+  }
+
+  /**
+   * Reads a string compared with a value of a date, timestamp or json type
+   * as a value of that type, as CAST does, so that '2024-01-01 10:00' finds
+   * the stored 2024-01-01 10:00:00. Other values are returned as they are.
+   */
+  coerceLiteral(value: Value, type: ColumnType | undefined): Value {
+    return typeof value === 'string' && type && CANONICAL_TYPES.has(type) ? this.converter.cast(value, { type }) : value;
+  }
+
+  /**
+   * Returns the type of the values the expression gives, or undefined when
+   * it cannot be told before they are computed, as for subqueries and JSON
+   * members. Columns have a type only when the scope knows it.
+   */
+  typeOf(expression: Expression, scope?: Scope): ColumnType | undefined {
+    let cache = scope && this.types.get(scope);
+    if (scope && !cache) {
+      cache = new Map();
+      this.types.set(scope, cache);
+    }
+    if (cache?.has(expression)) {
+      return cache.get(expression);
+    }
+
+    const type = this.inferType(expression, scope);
+    cache?.set(expression, type);
+    return type;
+  }
+
+  /** Returns true when the expression contains an aggregate function call. */
+  containsAggregate(expression: Expression): boolean {
+    return expression.type === 'AGGREGATE' || this.children(expression).some(child => this.containsAggregate(child));
+  }
+
+  /** Returns the direct sub-expressions of an expression. */
+  children(expression: Expression): Expression[] {
+    switch (expression.type) {
+      case 'LITERAL':
+      case 'COLUMN':
+      case 'PARAMETER':
+      case 'SUBQUERY':
+      case 'EXISTS':
+        // Subqueries are evaluated in their own scope
+        return [];
+      case 'AND':
+      case 'OR':
+      case 'COMPARISON':
+      case 'ARITHMETIC':
+      case 'CONCAT':
+        return [expression.left, expression.right];
+      case 'CASE':
+        return [
+          ...(expression.operand ? [expression.operand] : []),
+          ...expression.branches.flatMap(branch => [branch.when, branch.then]),
+          ...(expression.else ? [expression.else] : []),
+        ];
+      case 'NOT':
+      case 'NEGATE':
+      case 'IS_NULL':
+      case 'IN_SUBQUERY':
+      case 'CAST':
+        return [expression.operand];
+      case 'JSON_ACCESS':
+        return [expression.operand, expression.key];
+      case 'LIKE':
+        return [expression.operand, expression.pattern];
+      case 'IN':
+        return [expression.operand, ...expression.values];
+      case 'BETWEEN':
+        return [expression.operand, expression.lower, expression.upper];
+      case 'AGGREGATE':
+        return expression.argument ? [expression.argument] : [];
+      case 'FUNCTION':
+        return expression.arguments;
+    }
+  }
+
+  /** Returns true only when the predicate is definitely true, as WHERE requires. */
+  matches(expression: Expression, row: Row, context: EvaluationContext = {}): boolean {
+    return this.test(expression, row, context) === true;
+  }
+
+  /**
+   * Orders two values. Values of the same type compare naturally (false
+   * before true); values of different types order by type as
+   * boolean < number < string, and NULL sorts before everything.
+   */
+  compare(a: Value, b: Value): number {
+    if (a === b) return 0;
+    if (a === null) return -1;
+    if (b === null) return 1;
+
+    if (typeof a !== typeof b) {
+      return this.typeRank(a) - this.typeRank(b);
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private subquery(query: SelectQuery, row: Row, context: EvaluationContext): SubqueryResult {
+    if (!this.runSubquery) {
+      throw new Error('Subqueries are not allowed here');
+    }
+
+    return this.runSubquery(query, row, context);
+  }
+
+  // Scalar and IN subqueries must produce a single column
+  private singleColumn(result: SubqueryResult): string {
+    if (result.columns.length !== 1) {
+      throw new Error('Subquery must return exactly one column');
+    }
+    return result.columns[0];
+  }
+
+  private inferType(expression: Expression, scope?: Scope): ColumnType | undefined {
+    switch (expression.type) {
+      case 'LITERAL':
+        if (typeof expression.value === 'number') {
+          // As in SQL, a number written with a point or an exponent is a decimal
+          return Number.isSafeInteger(expression.value) && !expression.decimal ? 'integer' : 'decimal';
+        }
+        return expression.value === null ? undefined : typeof expression.value === 'string' ? 'string' : 'boolean';
+      case 'COLUMN':
+        return scope?.resolve(expression).type;
+      case 'ARITHMETIC':
+        return this.numericType([this.typeOf(expression.left, scope), this.typeOf(expression.right, scope)]);
+      case 'NEGATE':
+        return this.numericType([this.typeOf(expression.operand, scope)]);
+      case 'CAST':
+        return expression.target.type;
+      case 'CONCAT':
+        return 'string';
+      case 'CASE': {
+        // NULL fits any type, so branches that are NULL do not decide it
+        const results = [...expression.branches.map(branch => branch.then), ...(expression.else ? [expression.else] : [])];
+        const types = results.filter(result => result.type !== 'LITERAL' || result.value !== null).map(result => this.typeOf(result, scope));
+        return types.every(type => type === types[0]) ? types[0] : this.numericType(types);
+      }
+      case 'AGGREGATE': {
+        if (expression.function === 'COUNT') return 'integer';
+        const type = expression.argument ? this.typeOf(expression.argument, scope) : undefined;
+        // The average of integers has a fraction, and is computed as a double
+        return expression.function === 'AVG' && type === 'integer' ? 'real' : type;
+      }
+      case 'FUNCTION':
+        return this.functionType?.(expression.name, expression.arguments.map(argument => this.typeOf(argument, scope)));
+      case 'JSON_ACCESS':
+        return expression.asValue ? undefined : 'json';
+      case 'SUBQUERY':
+      case 'PARAMETER':
+        return undefined;
+      default:
+        return 'boolean';
+    }
+  }
+
+  // The type of arithmetic on the types: real if any is real, else decimal if any is, else integer if all are
+  private numericType(types: (ColumnType | undefined)[]): ColumnType | undefined {
+    if (types.includes('real')) return 'real';
+    if (types.includes('decimal')) return 'decimal';
+    return types.length > 0 && types.every(type => type === 'integer') ? 'integer' : undefined;
+  }
+
+  // Arithmetic on numbers of the given type, where NULL gives NULL
+  private calculate(operator: ArithmeticOperator, left: Value, right: Value, type: ColumnType | undefined): Value {
+    if (left === null || right === null) return null;
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      throw new Error(`Operator ${operator} requires numbers`);
+    }
+    if ((operator === '/' || operator === '%') && right === 0) {
+      throw new Error('Division by zero');
+    }
+    if (type === 'decimal') {
+      return this.calculateDecimal(operator, Decimal.from(left), Decimal.from(right));
+    }
+
+    let result: number;
+    switch (operator) {
+      case '+':
+        result = left + right;
+        break;
+      case '-':
+        result = left - right;
+        break;
+      case '*':
+        result = left * right;
+        break;
+      case '/':
+        // The quotient of integers is truncated toward zero, so that % gives what is left over
+        result = type === 'integer' ? Math.trunc(left / right) : left / right;
+        break;
+      case '%':
+        result = left % right;
+        break;
+    }
+    if (!Number.isFinite(result) || (type === 'integer' && !Number.isSafeInteger(result))) {
+      throw new Error('Numeric value out of range');
+    }
+    // Integers have no negative zero, which -1 / 2 would otherwise give
+    return type === 'integer' ? result || 0 : result;
+  }
+
+  private calculateDecimal(operator: ArithmeticOperator, left: Decimal, right: Decimal): number {
+    let result: Decimal;
+    switch (operator) {
+      case '+':
+        result = left.plus(right);
+        break;
+      case '-':
+        result = left.minus(right);
+        break;
+      case '*':
+        result = left.times(right);
+        break;
+      case '/':
+        result = left.dividedBy(right);
+        break;
+      case '%':
+        result = left.remainder(right);
+        break;
+    }
+    const number = result.toNumber();
+    if (!Number.isFinite(number)) {
+      throw new Error('Numeric value out of range');
+    }
+    return number;
+  }
+
+  // The result of the first branch whose condition holds, or whose value equals the operand
+  private evaluateCase(expression: CaseExpression, row: Row, context: EvaluationContext): Value {
+    const operand = expression.operand ? this.evaluate(expression.operand, row, context) : undefined;
+    for (const branch of expression.branches) {
+      const matches =
+        operand === undefined
+          ? this.test(branch.when, row, context)
+          : this.compareWith('=', operand, this.evaluate(branch.when, row, context));
+      if (matches === true) {
+        return this.evaluate(branch.then, row, context);
+      }
+    }
+    return expression.else ? this.evaluate(expression.else, row, context) : null;
+  }
+
+  /**
+   * Looks up an object member by name or an array element by position,
+   * counting from the end when negative. -> gives the member as JSON text,
+   * ->> gives strings, numbers and booleans as values. A missing member is
+   * NULL.
+   */
+  private accessJson(expression: JsonAccessExpression, document: Value, key: Value): Value {
+    if (document === null || key === null) return null;
+
+    let parsed: unknown;
+    try {
+      parsed = typeof document === 'string' ? JSON.parse(document) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+    if (parsed === undefined) {
+      throw new Error(`Operator ${expression.asValue ? '->>' : '->'} requires a json value`);
+    }
+
+    let member: unknown;
+    if (Array.isArray(parsed)) {
+      if (typeof key === 'number' && Number.isInteger(key)) {
+        member = parsed[key < 0 ? parsed.length + key : key];
+      }
+    } else if (parsed !== null && typeof parsed === 'object' && typeof key === 'string') {
+      if (Object.prototype.hasOwnProperty.call(parsed, key)) {
+        member = (parsed as Record<string, unknown>)[key];
+      }
+    }
+
+    if (member === undefined) return null;
+    if (expression.asValue && (member === null || typeof member !== 'object')) {
+      return member as Value;
+    }
+    return JSON.stringify(member);
+  }
+
+  private evaluateIn(value: Value, candidates: Value[], negated: boolean): boolean | null {
+    let result: boolean | null = false;
+
+    if (value === null) {
+      result = candidates.length === 0 ? false : null;
+    } else {
+      for (const candidate of candidates) {
+        const matches = this.compareWith('=', value, candidate);
+        if (matches === true) {
+          result = true;
+          break;
+        }
+        if (matches === null) {
+          result = null;
+        }
+      }
+    }
+
+    return negated ? this.negate(result) : result;
+  }
+
+  private evaluateAggregate(expression: AggregateExpression, context: EvaluationContext): Value {
+    const group = context.group;
+    if (!group) {
+      throw new Error(`Aggregate function ${expression.function} is not allowed here`);
+    }
+
+    if (!expression.argument) {
+      return group.length;
+    }
+
+    const argument = expression.argument;
+    if (this.containsAggregate(argument)) {
+      throw new Error('Aggregate function calls cannot be nested');
+    }
+
+    let values = group
+      .map(row => this.evaluate(argument, row, context))
+      .filter((value): value is Exclude<Value, null> => value !== null);
+
+    if (expression.distinct) {
+      const seen = new Set<string>();
+      values = values.filter(value => {
+        const key = JSON.stringify(value);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    switch (expression.function) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+      case 'AVG': {
+        if (values.length === 0) return null;
+        if (values.some(value => typeof value !== 'number')) {
+          throw new Error(`${expression.function} requires numeric values`);
+        }
+        const numbers = values as number[];
+        if (this.typeOf(argument, context.scope) === 'decimal') {
+          const sum = numbers.reduce((total, value) => total.plus(Decimal.from(value)), new Decimal(0n, 0));
+          const result = expression.function === 'SUM' ? sum : sum.dividedBy(new Decimal(BigInt(values.length), 0));
+          return result.toNumber();
+        }
+        const sum = numbers.reduce((total, value) => total + value, 0);
+        return expression.function === 'SUM' ? sum : sum / values.length;
+      }
+      case 'MIN':
+      case 'MAX': {
+        if (values.length === 0) return null;
+        const direction = expression.function === 'MIN' ? -1 : 1;
+        return values.reduce((best, value) => (this.compare(value, best) * direction > 0 ? value : best));
+      }
+    }
+  }
+
+  // Evaluates one side of a comparison, reading a literal by the type of the other side
+  private comparand(expression: Expression, other: Expression, row: Row, context: EvaluationContext): Value {
+    const value = this.evaluate(expression, row, context);
+    return expression.type === 'LITERAL' ? this.coerceLiteral(value, this.typeOf(other, context.scope)) : value;
+  }
+
+  private compareWith(operator: ComparisonOperator, left: Value, right: Value): boolean | null {
+    if (left === null || right === null) return null;
+
+    switch (operator) {
+      case '=':
+        return left === right;
+      case '!=':
+        return left !== right;
+      case '>':
+        return this.compare(left, right) > 0;
+      case '<':
+        return this.compare(left, right) < 0;
+      case '>=':
+        return this.compare(left, right) >= 0;
+      case '<=':
+        return this.compare(left, right) <= 0;
+      default:
+        return null;
+    }
+  }
+
+  private negate(value: boolean | null): boolean | null {
+    return value === null ? null : !value;
+  }
+
+  private typeRank(value: Value): number {
+    switch (typeof value) {
+      case 'boolean':
+        return 0;
+      case 'number':
+        return 1;
+      default:
+        return 2;
+    }
+  }
+
+  // % matches any run of characters and _ a single one; a backslash escapes either
+  private likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+    const key = `${caseInsensitive ? 'i' : 's'}:${pattern}`;
+    const cached = this.likePatterns.get(key);
+    if (cached) return cached;
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const ch = pattern[i];
+      if (ch === '\\' && i + 1 < pattern.length) {
+        source += this.escapeRegExp(pattern[++i]);
+      } else if (ch === '%') {
+        source += '.*';
+      } else if (ch === '_') {
+        source += '.';
+      } else {
+        source += this.escapeRegExp(ch);
+      }
+    }
+
+    const regExp = new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+    if (this.likePatterns.size >= 256) {
+      this.likePatterns.clear();
+    }
+    this.likePatterns.set(key, regExp);
+    return regExp;
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
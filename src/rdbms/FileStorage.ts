@@ -0,0 +1,48 @@
+import { closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Stores database files in a directory on disk; relative names are resolved
+ * against it. Node only: import it from this module directly, as the browser
+ * build has no file system.
+ */
+export class FileStorage implements StorageAdapter {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  read(name: string): string | null {
+    try {
+      return readFileSync(resolve(this.directory, name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  write(name: string, data: string): void {
+    // Write a temporary file and rename it over the old one, so a crash leaves one or the other
+    const path = resolve(this.directory, name);
+    const temporary = `${path}.tmp`;
+    this.writeFile(temporary, data, 'w');
+    renameSync(temporary, path);
+  }
+
+  append(name: string, data: string): void {
+    this.writeFile(resolve(this.directory, name), data, 'a');
+  }
+
+  private writeFile(path: string, data: string, flags: string): void {
+    const fd = openSync(path, flags);
+    try {
+      writeSync(fd, data);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import { ColumnType, FunctionSignature, ScalarFunction, Value } from './types';
+import { TypeConverter } from './TypeConverter';
+import { SQLFormatter } from './SQLFormatter';
+
+// Runs nextval, currval and setval, whose sequences belong to the database
+export type SequenceFunctionRunner = (name: string, args: Value[]) => Value;
+
+interface RegisteredFunction {
+  impl: ScalarFunction;
+  signature: FunctionSignature;
+  // Built-in functions cannot be replaced
+  builtIn: boolean;
+  // Set on built-in functions such as abs whose result has the type of their first argument
+  returnsArgumentType?: boolean;
+}
+
+// Calls of these names are always aggregates, so no scalar function can take them
+const AGGREGATE_NAMES = new Set(['count', 'sum', 'avg', 'min', 'max']);
+
+const PARAMETER_TYPES = new Set<string>(['string', 'integer', 'real', 'decimal', 'boolean', 'date', 'timestamp', 'json', 'any']);
+
+// Canonical timestamps, as TypeConverter stores them
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)$/;
+
+// Fields of date_trunc, from the largest to the smallest, with the value each has at the start of the one above
+const TRUNCATED_FIELDS: [string, number][] = [
+  ['year', 0],
+  ['month', 1],
+  ['day', 1],
+  ['hour', 0],
+  ['minute', 0],
+  ['second', 0],
+];
+
+interface TimestampParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // With its fraction
+  second: number;
+}
+
+/**
+ * The scalar functions that SQL statements can call: the built-in string,
+ * numeric, NULL-handling, date and sequence functions, and those an
+ * application registers. Arguments are checked against the function's
+ * signature before it runs, and so is the value it returns.
+ *
+ * Statements are replayed from the write-ahead log, so apart from the
+ * sequence functions, whose positions are logged, a function must always
+ * give the same result for the same arguments.
+ */
+export class FunctionRegistry {
+  private functions: Map<string, RegisteredFunction>;
+  private converter: TypeConverter;
+  private formatter: SQLFormatter;
+
+  constructor(runSequenceFunction: SequenceFunctionRunner) {
+    this.functions = new Map();
+    this.converter = new TypeConverter();
+    this.formatter = new SQLFormatter();
+    this.defineBuiltIns(runSequenceFunction);
+  }
+
+  /**
+   * Adds a function, or replaces one added before. Names are not case
+   * sensitive. Throws when the name belongs to a built-in or aggregate
+   * function or the signature is invalid.
+   */
+  register(name: string, impl: ScalarFunction, signature: FunctionSignature): void {
+    const key = name.toLowerCase();
+    if (!/^[a-z_][a-z0-9_]*$/.test(key)) {
+      throw new Error(`Invalid function name '${name}'`);
+    }
+    if (AGGREGATE_NAMES.has(key) || this.functions.get(key)?.builtIn) {
+      throw new Error(`Function ${key} is built in and cannot be replaced`);
+    }
+    if (typeof impl !== 'function') {
+      throw new Error(`Function ${key} needs an implementation`);
+    }
+
+    const error = this.validateSignature(signature);
+    if (error) {
+      throw new Error(`Invalid signature for function ${key}: ${error}`);
+    }
+    this.functions.set(key, { impl, signature: structuredClone(signature), builtIn: false });
+  }
+
+  has(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  getSignature(name: string): FunctionSignature | undefined {
+    return this.functions.get(name)?.signature;
+  }
+
+  /** The type of the values the function returns for arguments of the given types, where it can be told. */
+  returnType(name: string, argumentTypes: (ColumnType | undefined)[]): ColumnType | undefined {
+    const fn = this.functions.get(name);
+    if (!fn) return undefined;
+    if (fn.returnsArgumentType) return argumentTypes[0];
+    return fn.signature.returns === 'any' ? undefined : fn.signature.returns;
+  }
+
+  /** Returns an error when the function does not take that many arguments. */
+  checkArgumentCount(name: string, count: number): string | undefined {
+    const { parameters, optional = 0, variadic } = this.functions.get(name)!.signature;
+    const min = parameters.length - optional;
+    if (count >= min && (variadic || count <= parameters.length)) {
+      return undefined;
+    }
+
+    const expected = variadic ? `at least ${min}` : optional > 0 ? `${min} to ${parameters.length}` : `${min}`;
+    return `Function ${name} expects ${expected} argument(s) but got ${count}`;
+  }
+
+  call(name: string, args: Value[]): Value {
+    const fn = this.functions.get(name);
+    if (!fn) {
+      throw new Error(`Unknown function '${name}'`);
+    }
+    const countError = this.checkArgumentCount(name, args.length);
+    if (countError) {
+      throw new Error(countError);
+    }
+
+    const { parameters, returns, strict = true } = fn.signature;
+    if (strict && args.includes(null)) {
+      return null;
+    }
+
+    // Variadic functions take the type of their last parameter for the extra arguments
+    const values = args.map((arg, index) => {
+      const type = parameters[Math.min(index, parameters.length - 1)];
+      const value = arg === null || type === 'any' ? arg : this.converter.assign(arg, { type });
+      if (value === undefined) {
+        throw new Error(`Function ${name} expects ${type} for argument ${index + 1} but got ${this.formatter.formatValue(arg)}`);
+      }
+      return value;
+    });
+
+    const result: unknown = fn.impl(...values);
+    const checked = this.checkResult(result, returns);
+    if (checked === undefined) {
+      const text = this.isValue(result) ? this.formatter.formatValue(result) : typeof result === 'object' ? 'an object' : String(result);
+      throw new Error(`Function ${name} returned ${text}, which is not ${returns === 'any' ? 'a SQL value' : `of type ${returns}`}`);
+    }
+    return checked;
+  }
+
+  private checkResult(result: unknown, returns: ColumnType | 'any'): Value | undefined {
+    if (!this.isValue(result)) return undefined;
+    if (result === null || returns === 'any') return result;
+    return this.converter.assign(result, { type: returns });
+  }
+
+  private isValue(value: unknown): value is Value {
+    return (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value))
+    );
+  }
+
+  private validateSignature(signature: FunctionSignature): string | undefined {
+    const { parameters, optional = 0, returns } = signature;
+    if (!Array.isArray(parameters)) {
+      return 'parameters must be a list of types';
+    }
+    const unknown = [...parameters, returns].find(type => !PARAMETER_TYPES.has(type));
+    if (unknown !== undefined) {
+      return `unknown type ${unknown}`;
+    }
+    if (!Number.isInteger(optional) || optional < 0 || optional > parameters.length) {
+      return `optional must be between 0 and the number of parameters, ${parameters.length}`;
+    }
+    if (signature.variadic && parameters.length === 0) {
+      return 'a variadic function needs a parameter to repeat';
+    }
+    return undefined;
+  }
+
+  // Built-in implementations take the argument types their signatures guarantee
+  private define(name: string, signature: FunctionSignature, impl: (...args: never[]) => Value, returnsArgumentType = false): void {
+    this.functions.set(name, { impl: impl as ScalarFunction, signature, builtIn: true, returnsArgumentType });
+  }
+
+  private defineBuiltIns(runSequenceFunction: SequenceFunctionRunner): void {
+    this.define('nextval', { parameters: ['string'], returns: 'integer' }, (sequence: string) =>
+      runSequenceFunction('nextval', [sequence])
+    );
+    this.define('currval', { parameters: ['string'], returns: 'integer' }, (sequence: string) =>
+      runSequenceFunction('currval', [sequence])
+    );
+    this.define('setval', { parameters: ['string', 'integer', 'boolean'], optional: 1, returns: 'integer' }, (...args: Value[]) =>
+      runSequenceFunction('setval', args)
+    );
+
+    // Lengths and positions count characters, not UTF-16 code units
+    this.define('upper', { parameters: ['string'], returns: 'string' }, (text: string) => text.toUpperCase());
+    this.define('lower', { parameters: ['string'], returns: 'string' }, (text: string) => text.toLowerCase());
+    this.define('length', { parameters: ['string'], returns: 'integer' }, (text: string) => Array.from(text).length);
+    this.define(
+      'substr',
+      { parameters: ['string', 'integer', 'integer'], optional: 1, returns: 'string' },
+      (text: string, start: number, count?: number) => this.substr(text, start, count)
+    );
+    this.define('trim', { parameters: ['string', 'string'], optional: 1, returns: 'string' }, (text: string, characters?: string) =>
+      this.trim(text, characters, true, true)
+    );
+    this.define('ltrim', { parameters: ['string', 'string'], optional: 1, returns: 'string' }, (text: string, characters?: string) =>
+      this.trim(text, characters, true, false)
+    );
+    this.define('rtrim', { parameters: ['string', 'string'], optional: 1, returns: 'string' }, (text: string, characters?: string) =>
+      this.trim(text, characters, false, true)
+    );
+    this.define('replace', { parameters: ['string', 'string', 'string'], returns: 'string' }, (text: string, from: string, to: string) =>
+      from === '' ? text : text.split(from).join(to)
+    );
+    // Unlike ||, leaves NULLs out
+    this.define('concat', { parameters: ['any'], variadic: true, strict: false, returns: 'string' }, (...values: Value[]) =>
+      values.map(value => (value === null ? '' : String(this.converter.cast(value, { type: 'string' })))).join('')
+    );
+
+    // The absolute value of an integer is an integer, so abs(n) / 2 divides as n / 2 does
+    this.define('abs', { parameters: ['real'], returns: 'real' }, (value: number) => Math.abs(value), true);
+    this.define('round', { parameters: ['real', 'integer'], optional: 1, returns: 'real' }, (value: number, digits?: number) =>
+      this.converter.round(value, digits ?? 0)
+    );
+    this.define('floor', { parameters: ['real'], returns: 'real' }, (value: number) => Math.floor(value));
+    this.define('ceil', { parameters: ['real'], returns: 'real' }, (value: number) => Math.ceil(value));
+
+    this.define('coalesce', { parameters: ['any'], variadic: true, strict: false, returns: 'any' }, (...values: Value[]) =>
+      values.find(value => value !== null) ?? null
+    );
+    this.define('nullif', { parameters: ['any', 'any'], strict: false, returns: 'any' }, (value: Value, other: Value) =>
+      value === other ? null : value
+    );
+
+    this.define('date_part', { parameters: ['string', 'timestamp'], returns: 'real' }, (field: string, timestamp: string) =>
+      this.datePart(field, timestamp)
+    );
+    this.define('date_trunc', { parameters: ['string', 'timestamp'], returns: 'timestamp' }, (field: string, timestamp: string) =>
+      this.dateTrunc(field, timestamp)
+    );
+    this.define('make_date', { parameters: ['integer', 'integer', 'integer'], returns: 'date' }, (year: number, month: number, day: number) =>
+      this.converter.cast(`${this.pad(year, 4)}-${this.pad(month, 2)}-${this.pad(day, 2)}`, { type: 'date' })
+    );
+  }
+
+  // As in PostgreSQL, positions before the first character count towards the length but select nothing
+  private substr(text: string, start: number, count?: number): string {
+    if (count !== undefined && count < 0) {
+      throw new Error('Function substr expects a length that is not negative');
+    }
+    const characters = Array.from(text);
+    const end = count === undefined ? characters.length + 1 : start + count;
+    return characters.slice(Math.max(start, 1) - 1, Math.max(end - 1, 0)).join('');
+  }
+
+  private trim(text: string, characters = ' ', leading: boolean, trailing: boolean): string {
+    const remove = new Set(Array.from(characters));
+    const chars = Array.from(text);
+    let start = 0;
+    let end = chars.length;
+    while (leading && start < end && remove.has(chars[start])) start++;
+    while (trailing && end > start && remove.has(chars[end - 1])) end--;
+    return chars.slice(start, end).join('');
+  }
+
+  private datePart(field: string, timestamp: string): number {
+    const { year, month, day, hour, minute, second } = this.timestampParts(timestamp);
+    const midnight = this.utcTime(year, month, day);
+
+    switch (field.toLowerCase()) {
+      case 'year':
+        return year;
+      case 'quarter':
+        return Math.ceil(month / 3);
+      case 'month':
+        return month;
+      case 'day':
+        return day;
+      case 'hour':
+        return hour;
+      case 'minute':
+        return minute;
+      case 'second':
+        return second;
+      case 'dow':
+        // 0 for Sunday
+        return new Date(midnight).getUTCDay();
+      case 'doy':
+        return Math.round((midnight - this.utcTime(year, 1, 1)) / 86_400_000) + 1;
+      case 'epoch':
+        return midnight / 1000 + hour * 3600 + minute * 60 + second;
+      default:
+        throw new Error(`Function date_part does not know the field '${field}'`);
+    }
+  }
+
+  private dateTrunc(field: string, timestamp: string): string {
+    const parts = this.timestampParts(timestamp);
+    const name = field.toLowerCase();
+    // A quarter keeps the year and starts at the first month of the quarter
+    const kept = name === 'quarter' ? 1 : TRUNCATED_FIELDS.findIndex(([unit]) => unit === name) + 1;
+    if (kept === 0) {
+      throw new Error(`Function date_trunc does not know the field '${field}'`);
+    }
+
+    const values = [parts.year, parts.month, parts.day, parts.hour, parts.minute, Math.floor(parts.second)];
+    const [year, month, day, hour, minute, second] = values.map((value, index) =>
+      index < kept ? value : TRUNCATED_FIELDS[index][1]
+    );
+    const truncatedMonth = name === 'quarter' ? Math.floor((parts.month - 1) / 3) * 3 + 1 : month;
+    return `${this.pad(year, 4)}-${this.pad(truncatedMonth, 2)}-${this.pad(day, 2)} ${this.pad(hour, 2)}:${this.pad(minute, 2)}:${this.pad(second, 2)}`;
+  }
+
+  private timestampParts(timestamp: string): TimestampParts {
+    const [, year, month, day, hour, minute, second] = TIMESTAMP_PATTERN.exec(timestamp)!;
+    return {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+    };
+  }
+
+  // Date.UTC() would read years before 100 as 1900 and later
+  private utcTime(year: number, month: number, day: number): number {
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    return date.getTime();
+  }
+
+  private pad(value: number, digits: number): string {
+    return String(value).padStart(digits, '0');
+  }
+}
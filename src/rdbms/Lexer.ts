@@ -0,0 +1,271 @@
+import { SQLSyntaxError } from './errors';
+
+export type TokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'null'
+  | 'parameter'
+  | 'symbol'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+  offset: number;
+  quoted?: boolean;
+}
+
+// Reserved words are never treated as identifiers unless they are quoted.
+// Words that only have meaning in one position (TABLES, KEY, NULLS, type names)
+// stay identifiers and are matched by the parser case-insensitively.
+const KEYWORDS = new Set([
+  'AND',
+  'AS',
+  'ASC',
+  'BETWEEN',
+  'BY',
+  'CASE',
+  'CREATE',
+  'CROSS',
+  'DEFAULT',
+  'DELETE',
+  'DESC',
+  'DESCRIBE',
+  'DISTINCT',
+  'DROP',
+  'ELSE',
+  'END',
+  'EXISTS',
+  'FROM',
+  'FULL',
+  'GROUP',
+  'HAVING',
+  'ILIKE',
+  'IN',
+  'INNER',
+  'INSERT',
+  'INTO',
+  'IS',
+  'JOIN',
+  'LEFT',
+  'LIKE',
+  'LIMIT',
+  'NOT',
+  'OFFSET',
+  'ON',
+  'OR',
+  'ORDER',
+  'OUTER',
+  'PRIMARY',
+  'RIGHT',
+  'SELECT',
+  'SET',
+  'SHOW',
+  'TABLE',
+  'THEN',
+  'UNIQUE',
+  'UPDATE',
+  'VALUES',
+  'WHEN',
+  'WHERE',
+]);
+
+const SYMBOLS = ['->>', '->', '<>', '!=', '<=', '>=', '||', '=', '<', '>', '(', ')', ',', ';', '.', '*', '+', '-', '/', '%'];
+
+export class Lexer {
+  private input: string;
+  private offset: number;
+  private line: number;
+  private column: number;
+
+  constructor(input: string) {
+    this.input = input;
+    this.offset = 0;
+    this.line = 1;
+    this.column = 1;
+  }
+
+  static isKeyword(word: string): boolean {
+    const upper = word.toUpperCase();
+    return KEYWORDS.has(upper) || upper === 'TRUE' || upper === 'FALSE' || upper === 'NULL';
+  }
+
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+
+    for (;;) {
+      this.skipWhitespaceAndComments();
+
+      if (this.offset >= this.input.length) {
+        tokens.push({ type: 'eof', value: '', line: this.line, column: this.column, offset: this.offset });
+        return tokens;
+      }
+
+      tokens.push(this.readToken());
+    }
+  }
+
+  private readToken(): Token {
+    const start = { line: this.line, column: this.column, offset: this.offset };
+    const ch = this.input[this.offset];
+
+    if (ch === "'") {
+      return { type: 'string', value: this.readQuoted("'", 'string literal'), ...start };
+    }
+
+    if (ch === '"' || ch === '`') {
+      return { type: 'identifier', value: this.readQuoted(ch, 'quoted identifier'), quoted: true, ...start };
+    }
+
+    if (this.isDigit(ch) || (ch === '.' && this.isDigit(this.input[this.offset + 1]))) {
+      return { type: 'number', value: this.readNumber(), ...start };
+    }
+
+    // Placeholders of prepared statements: ? or $1, $2, ...
+    if (ch === '?') {
+      this.advance(1);
+      return { type: 'parameter', value: '?', ...start };
+    }
+    if (ch === '$' && this.isDigit(this.input[this.offset + 1])) {
+      this.advance(1);
+      while (this.isDigit(this.input[this.offset])) this.advance(1);
+      return { type: 'parameter', value: this.input.slice(start.offset, this.offset), ...start };
+    }
+
+    if (this.isIdentifierStart(ch)) {
+      const word = this.readWord();
+      const upper = word.toUpperCase();
+
+      if (upper === 'TRUE' || upper === 'FALSE') {
+        return { type: 'boolean', value: upper, ...start };
+      }
+      if (upper === 'NULL') {
+        return { type: 'null', value: upper, ...start };
+      }
+      if (KEYWORDS.has(upper)) {
+        return { type: 'keyword', value: upper, ...start };
+      }
+      return { type: 'identifier', value: word, ...start };
+    }
+
+    const symbol = SYMBOLS.find(s => this.input.startsWith(s, this.offset));
+    if (symbol) {
+      this.advance(symbol.length);
+      return { type: 'symbol', value: symbol, ...start };
+    }
+
+    throw new SQLSyntaxError(`Unexpected character '${ch}'`, start.line, start.column);
+  }
+
+  private readQuoted(quote: string, description: string): string {
+    const startLine = this.line;
+    const startColumn = this.column;
+    let value = '';
+
+    this.advance(1);
+
+    while (this.offset < this.input.length) {
+      const ch = this.input[this.offset];
+
+      if (ch === quote) {
+        // A doubled quote is an escaped quote character
+        if (this.input[this.offset + 1] === quote) {
+          value += quote;
+          this.advance(2);
+          continue;
+        }
+        this.advance(1);
+        return value;
+      }
+
+      value += ch;
+      this.advance(1);
+    }
+
+    throw new SQLSyntaxError(`Unterminated ${description}`, startLine, startColumn);
+  }
+
+  private readNumber(): string {
+    const start = this.offset;
+
+    while (this.isDigit(this.input[this.offset])) this.advance(1);
+
+    if (this.input[this.offset] === '.') {
+      this.advance(1);
+      while (this.isDigit(this.input[this.offset])) this.advance(1);
+    }
+
+    const next = this.input[this.offset];
+    if (next === 'e' || next === 'E') {
+      const sign = this.input[this.offset + 1];
+      const digitAt = sign === '+' || sign === '-' ? this.offset + 2 : this.offset + 1;
+      if (this.isDigit(this.input[digitAt])) {
+        this.advance(digitAt - this.offset);
+        while (this.isDigit(this.input[this.offset])) this.advance(1);
+      }
+    }
+
+    return this.input.slice(start, this.offset);
+  }
+
+  private readWord(): string {
+    const start = this.offset;
+    while (this.offset < this.input.length && this.isIdentifierPart(this.input[this.offset])) {
+      this.advance(1);
+    }
+    return this.input.slice(start, this.offset);
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.offset < this.input.length) {
+      const ch = this.input[this.offset];
+
+      if (/\s/.test(ch)) {
+        this.advance(1);
+      } else if (this.input.startsWith('--', this.offset)) {
+        while (this.offset < this.input.length && this.input[this.offset] !== '\n') {
+          this.advance(1);
+        }
+      } else if (this.input.startsWith('/*', this.offset)) {
+        const startLine = this.line;
+        const startColumn = this.column;
+        const end = this.input.indexOf('*/', this.offset + 2);
+        if (end === -1) {
+          throw new SQLSyntaxError('Unterminated block comment', startLine, startColumn);
+        }
+        this.advance(end + 2 - this.offset);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private advance(count: number): void {
+    for (let i = 0; i < count; i++) {
+      if (this.input[this.offset] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.offset++;
+    }
+  }
+
+  private isDigit(ch: string | undefined): boolean {
+    return ch !== undefined && ch >= '0' && ch <= '9';
+  }
+
+  private isIdentifierStart(ch: string): boolean {
+    return /[A-Za-z_]/.test(ch);
+  }
+
+  private isIdentifierPart(ch: string): boolean {
+    return /[A-Za-z0-9_$]/.test(ch);
+  }
+}
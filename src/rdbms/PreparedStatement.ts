@@ -0,0 +1,271 @@
+import { Database } from './Database';
+import { ColumnType, DataType, Expression, ParameterExpression, QueryResult, Value } from './types';
+import type { ParsedQuery, PreparedQuery, SelectQuery } from './QueryParser';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { SQLFormatter } from './SQLFormatter';
+import { TypeConverter } from './TypeConverter';
+
+// Runs a statement whose parameters are bound; sql is its text with the values written in
+export type BoundStatementRunner = (query: ParsedQuery, sql: string) => QueryResult;
+
+// A table a statement reads, by the name the statement gives it, with the types of its columns
+interface TypedSource {
+  name: string;
+  // Unknown for derived tables
+  types?: Map<string, DataType>;
+}
+
+/**
+ * A statement parsed once by RDBMS.prepare() and run any number of times
+ * with different values for its ? or $1-style parameters. The values are
+ * put into a copy of the parsed statement, never into its text, so a value
+ * cannot change what the statement does.
+ *
+ * A parameter assigned to or compared with a column takes the column's
+ * type, as far as it can be told when the statement is prepared. Values
+ * the column could not hold are rejected before the statement runs, and
+ * the others are bound as the column stores them; NULL is always accepted.
+ */
+export class PreparedStatement {
+  private sql: string;
+  private prepared: PreparedQuery;
+  private parameterTypes: (DataType | undefined)[];
+  private database: Database;
+  private run: BoundStatementRunner;
+  private evaluator: ExpressionEvaluator;
+  private formatter: SQLFormatter;
+  private converter: TypeConverter;
+
+  constructor(sql: string, prepared: PreparedQuery, database: Database, run: BoundStatementRunner) {
+    this.sql = sql;
+    this.prepared = prepared;
+    this.parameterTypes = new Array(prepared.parameterCount).fill(undefined);
+    this.database = database;
+    this.run = run;
+    this.evaluator = new ExpressionEvaluator();
+    this.formatter = new SQLFormatter();
+    this.converter = new TypeConverter();
+
+    this.inferTypes(prepared.query);
+  }
+
+  getSql(): string {
+    return this.sql;
+  }
+
+  getParameterCount(): number {
+    return this.prepared.parameterCount;
+  }
+
+  /** The type each parameter takes, or undefined where any value is accepted. */
+  getParameterTypes(): (ColumnType | undefined)[] {
+    return this.parameterTypes.map(type => type?.type);
+  }
+
+  execute(parameters: Value[] = []): QueryResult {
+    const { values, error } = this.convert(parameters);
+    if (!values) {
+      return { success: false, error };
+    }
+    return this.run(this.bind(this.prepared.query, values), this.inlineValues(values));
+  }
+
+  // Checks the values and converts them to the types of their parameters
+  private convert(parameters: Value[]): { values?: Value[]; error?: string } {
+    if (parameters.length !== this.prepared.parameterCount) {
+      return { error: `Statement expects ${this.prepared.parameterCount} parameter(s) but got ${parameters.length}` };
+    }
+
+    const values: Value[] = [];
+    for (const [index, value] of parameters.entries()) {
+      if (value === null) {
+        values.push(null);
+        continue;
+      }
+
+      const name = `$${index + 1}`;
+      const type = typeof value;
+      if (type !== 'string' && type !== 'number' && type !== 'boolean') {
+        return { error: `Parameter ${name} must be a string, number, boolean or null` };
+      }
+      // Their text could not be logged and read back
+      if (type === 'number' && !Number.isFinite(value)) {
+        return { error: `Parameter ${name} must be a finite number` };
+      }
+
+      const expected = this.parameterTypes[index];
+      const converted = expected ? this.converter.assign(value, expected) : value;
+      if (converted === undefined) {
+        return { error: `Parameter ${name} must be of type ${this.formatter.formatDataType(expected!)} but got ${this.formatter.formatValue(value)}` };
+      }
+      values.push(converted);
+    }
+    return { values };
+  }
+
+  // Copies the parsed statement with each parameter replaced by a literal of its value
+  private bind<T>(node: T, parameters: Value[]): T {
+    if (Array.isArray(node)) {
+      return node.map(item => this.bind(item, parameters)) as T;
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+    if ((node as { type?: unknown }).type === 'PARAMETER') {
+      const { index } = node as unknown as ParameterExpression;
+      return { type: 'LITERAL', value: parameters[index] } as T;
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      copy[key] = this.bind(value, parameters);
+    }
+    return copy as T;
+  }
+
+  // The text of the statement with the values in place of the placeholders, as the log records it.
+  // Negative numbers are parenthesized, since after a minus, as in n -?, they would start a -- comment
+  private inlineValues(parameters: Value[]): string {
+    let sql = '';
+    let end = 0;
+    for (const placeholder of this.prepared.placeholders) {
+      const text = this.formatter.formatValue(parameters[placeholder.index]);
+      sql += this.sql.slice(end, placeholder.offset) + (text.startsWith('-') ? `(${text})` : text);
+      end = placeholder.offset + placeholder.length;
+    }
+    return sql + this.sql.slice(end);
+  }
+
+  private inferTypes(query: ParsedQuery): void {
+    switch (query.type) {
+      case 'INSERT': {
+        const source = this.tableSource(query.tableName, query.tableName);
+        const columns = query.columns ?? this.database.getTable(query.tableName)?.getSchema().columns.map(col => col.name);
+        query.values.forEach((value, index) => {
+          this.assignType(value, columns && source?.types?.get(columns[index]));
+          this.inferFromExpression(value, []);
+        });
+        break;
+      }
+      case 'UPDATE': {
+        const source = this.tableSource(query.tableName, query.tableName);
+        for (const [column, value] of Object.entries(query.set)) {
+          this.assignType(value, source?.types?.get(column));
+          this.inferFromExpression(value, source ? [[source]] : []);
+        }
+        if (query.where && source) {
+          this.inferFromExpression(query.where, [[source]]);
+        }
+        break;
+      }
+      case 'DELETE': {
+        const source = this.tableSource(query.from, query.from);
+        if (query.where && source) {
+          this.inferFromExpression(query.where, [[source]]);
+        }
+        break;
+      }
+      case 'SELECT':
+        this.inferFromSelect(query, []);
+        break;
+      case 'EXPLAIN':
+        this.inferTypes(query.query);
+        break;
+    }
+  }
+
+  // outer holds the tables of the enclosing queries, innermost first
+  private inferFromSelect(query: SelectQuery, outer: TypedSource[][]): void {
+    const sources: TypedSource[] = [];
+    for (const reference of [...(query.from ? [query.from] : []), ...query.joins.map(join => join.table)]) {
+      if (reference.type === 'SUBQUERY') {
+        this.inferFromSelect(reference.query, outer);
+        sources.push({ name: reference.alias });
+      } else {
+        sources.push(this.tableSource(reference.name, reference.alias ?? reference.name) ?? { name: reference.alias ?? reference.name });
+      }
+    }
+
+    const expressions: Expression[] = [
+      ...query.columns.flatMap(item => (item.type === 'EXPRESSION' ? [item.expression] : [])),
+      ...query.joins.flatMap(join => (join.on ? [join.on] : [])),
+      ...(query.where ? [query.where] : []),
+      ...(query.groupBy ?? []),
+      ...(query.having ? [query.having] : []),
+      ...(query.orderBy ?? []).map(item => item.expression),
+    ];
+    expressions.forEach(expression => this.inferFromExpression(expression, [sources, ...outer]));
+  }
+
+  private inferFromExpression(expression: Expression, scopes: TypedSource[][]): void {
+    switch (expression.type) {
+      case 'COMPARISON':
+        this.inferFromPair(expression.left, expression.right, scopes);
+        break;
+      case 'BETWEEN':
+        this.inferFromPair(expression.operand, expression.lower, scopes);
+        this.inferFromPair(expression.operand, expression.upper, scopes);
+        break;
+      case 'IN':
+        expression.values.forEach(value => this.inferFromPair(expression.operand, value, scopes));
+        break;
+      case 'LIKE':
+        this.assignType(expression.operand, { type: 'string' });
+        this.assignType(expression.pattern, { type: 'string' });
+        break;
+      case 'FUNCTION': {
+        const parameters = this.database.getFunctions().getSignature(expression.name)?.parameters ?? [];
+        expression.arguments.forEach((argument, index) => {
+          const type = parameters[Math.min(index, parameters.length - 1)];
+          this.assignType(argument, type && type !== 'any' ? { type } : undefined);
+        });
+        break;
+      }
+      case 'SUBQUERY':
+      case 'EXISTS':
+      case 'IN_SUBQUERY':
+        this.inferFromSelect(expression.query, scopes);
+        break;
+    }
+    this.evaluator.children(expression).forEach(child => this.inferFromExpression(child, scopes));
+  }
+
+  private inferFromPair(left: Expression, right: Expression, scopes: TypedSource[][]): void {
+    if (left.type === 'PARAMETER' && right.type === 'COLUMN') {
+      this.assignType(left, this.columnType(right, scopes));
+    } else if (right.type === 'PARAMETER' && left.type === 'COLUMN') {
+      this.assignType(right, this.columnType(left, scopes));
+    }
+  }
+
+  // Resolves a column as Scope does, giving up where a derived table or an ambiguity leaves it unclear
+  private columnType(column: Expression & { type: 'COLUMN' }, scopes: TypedSource[][]): DataType | undefined {
+    for (const sources of scopes) {
+      if (column.table !== undefined) {
+        const source = sources.find(candidate => candidate.name === column.table);
+        if (source) return source.types?.get(column.column);
+        continue;
+      }
+
+      if (sources.some(source => !source.types)) return undefined;
+      const matches = sources.filter(source => source.types!.has(column.column));
+      if (matches.length > 0) {
+        return matches.length === 1 ? matches[0].types!.get(column.column) : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  // The first column a parameter meets decides its type
+  private assignType(expression: Expression, type: DataType | undefined): void {
+    if (expression.type === 'PARAMETER' && type && this.parameterTypes[expression.index] === undefined) {
+      this.parameterTypes[expression.index] = type;
+    }
+  }
+
+  private tableSource(tableName: string, name: string): TypedSource | undefined {
+    const table = this.database.getTable(tableName);
+    if (!table) return undefined;
+    return { name, types: new Map(table.getSchema().columns.map(col => [col.name, col])) };
+  }
+}
@@ -1,28 +1,138 @@
 import { Database } from './Database';
-import { QueryResult, Row, WhereClause } from './types';
+import {
+  ColumnDefinition,
+  ColumnType,
+  CopyOptions,
+  Expression,
+  IndexAccess,
+  JoinClause,
+  JoinMethod,
+  OrderByClause,
+  QueryResult,
+  RejectedRecord,
+  Row,
+  SelectItem,
+  Value,
+} from './types';
+import { Table } from './Table';
+import { EvaluationContext, ExpressionEvaluator, SubqueryResult } from './ExpressionEvaluator';
+import { SQLFormatter } from './SQLFormatter';
+import { Scope, ScopeSource } from './Scope';
+import { CopyFormat } from './CopyFormat';
+import { TypeConverter } from './TypeConverter';
+import { StorageAdapter } from './StorageAdapter';
+import {
+  QueryPlanner,
+  PlanNode,
+  SeqScanNode,
+  IndexScanNode,
+  JoinNode,
+  HashJoinNode,
+  MergeJoinNode,
+  ModifyNode,
+} from './QueryPlanner';
 import {
   ParsedQuery,
+  CopyQuery,
   CreateTableQuery,
+  DropTableQuery,
+  AlterTableQuery,
+  CreateSequenceQuery,
+  DropSequenceQuery,
+  CreateIndexQuery,
+  DropIndexQuery,
+  ShowIndexesQuery,
   InsertQuery,
   SelectQuery,
   UpdateQuery,
   DeleteQuery,
+  ExplainQuery,
 } from './QueryParser';
 
+// An intermediate result row; rows produced by grouping also carry their group
+interface ResultEntry {
+  row: Row;
+  group?: Row[];
+  // The selected values, once SELECT DISTINCT has computed them
+  projected?: Row;
+}
+
+interface QueryContext extends EvaluationContext {
+  scope: Scope;
+}
+
+// The enclosing query of a subquery and its current rows, innermost first
+interface OuterQuery {
+  scope?: Scope;
+  rows: Row[];
+}
+
+interface SelectResult extends SubqueryResult {
+  // Types of the columns, where they can be told
+  types: (ColumnType | undefined)[];
+  // Whether the result depends on the rows of an enclosing query
+  correlated: boolean;
+}
+
+// The rows and tables of a SELECT as the steps of its plan run
+interface SelectState {
+  query: SelectQuery;
+  outer?: OuterQuery;
+  sources: ScopeSource[];
+  // Whether row keys carry the name of their table, as they do once tables are joined
+  qualified: boolean;
+  correlated: boolean;
+  context?: QueryContext;
+}
+
 export class QueryExecutor {
   private database: Database;
+  private evaluator: ExpressionEvaluator;
+  private formatter: SQLFormatter;
+  private planner: QueryPlanner;
+  private plans: Map<SelectQuery, PlanNode>;
+  private subqueryResults: Map<SelectQuery, SelectResult>;
+  private copyFormat: CopyFormat;
+  private converter: TypeConverter;
+  // Where COPY statements read and write files
+  private files?: StorageAdapter;
 
-  constructor(database: Database) {
+  constructor(database: Database, files?: StorageAdapter, joinMethods?: JoinMethod[]) {
     this.database = database;
+    this.evaluator = new ExpressionEvaluator(
+      (query, row, context) => this.runSubquery(query, row, context),
+      (name, args) => this.database.callFunction(name, args),
+      (name, types) => this.database.getFunctions().returnType(name, types)
+    );
+    this.formatter = new SQLFormatter();
+    this.planner = new QueryPlanner(database, joinMethods);
+    this.plans = new Map();
+    this.subqueryResults = new Map();
+    this.copyFormat = new CopyFormat();
+    this.converter = new TypeConverter();
+    this.files = files;
   }
 
   execute(query: ParsedQuery): QueryResult {
+    this.plans.clear();
+    this.subqueryResults.clear();
+
     try {
       switch (query.type) {
         case 'CREATE_TABLE':
           return this.executeCreateTable(query);
         case 'DROP_TABLE':
           return this.executeDropTable(query);
+        case 'ALTER_TABLE':
+          return this.executeAlterTable(query);
+        case 'CREATE_SEQUENCE':
+          return this.executeCreateSequence(query);
+        case 'DROP_SEQUENCE':
+          return this.executeDropSequence(query);
+        case 'CREATE_INDEX':
+          return this.executeCreateIndex(query);
+        case 'DROP_INDEX':
+          return this.executeDropIndex(query);
         case 'INSERT':
           return this.executeInsert(query);
         case 'SELECT':
@@ -33,8 +143,32 @@ export class QueryExecutor {
           return this.executeDelete(query);
         case 'SHOW_TABLES':
           return this.executeShowTables();
+        case 'SHOW_INDEXES':
+          return this.executeShowIndexes(query);
         case 'DESCRIBE':
           return this.executeDescribe(query);
+        case 'EXPLAIN':
+          return this.executeExplain(query);
+        case 'COPY':
+          return this.executeCopy(query);
+        case 'BEGIN':
+          return this.transactionResult(this.database.begin(), 'Transaction started');
+        case 'COMMIT':
+          return this.transactionResult(this.database.commit(), 'Transaction committed');
+        case 'ROLLBACK':
+          return query.savepoint === undefined
+            ? this.transactionResult(this.database.rollback(), 'Transaction rolled back')
+            : this.transactionResult(
+                this.database.rollbackToSavepoint(query.savepoint),
+                `Rolled back to savepoint ${query.savepoint}`
+              );
+        case 'SAVEPOINT':
+          return this.transactionResult(this.database.savepoint(query.name), `Savepoint ${query.name} created`);
+        case 'RELEASE_SAVEPOINT':
+          return this.transactionResult(
+            this.database.releaseSavepoint(query.name),
+            `Savepoint ${query.name} released`
+          );
         default:
           return { success: false, error: 'Unknown query type' };
       }
@@ -46,10 +180,21 @@ export class QueryExecutor {
     }
   }
 
+  private transactionResult(result: { success: boolean; error?: string }, message: string): QueryResult {
+    if (result.success) {
+      return { success: true, message };
+    }
+    return { success: false, error: result.error };
+  }
+
   private executeCreateTable(query: CreateTableQuery): QueryResult {
+    this.validateConstraints(query.tableName, query.columns, query.checks);
+
     const result = this.database.createTable({
       name: query.tableName,
       columns: query.columns,
+      uniqueKeys: query.uniqueKeys.length > 0 ? query.uniqueKeys : undefined,
+      checks: query.checks.length > 0 ? query.checks : undefined,
     });
 
     if (result.success) {
@@ -58,8 +203,8 @@ export class QueryExecutor {
     return { success: false, error: result.error };
   }
 
-  private executeDropTable(query: { tableName: string }): QueryResult {
-    const result = this.database.dropTable(query.tableName);
+  private executeDropTable(query: DropTableQuery): QueryResult {
+    const result = this.database.dropTable(query.tableName, query.cascade);
 
     if (result.success) {
       return { success: true, message: `Table ${query.tableName} dropped` };
@@ -67,6 +212,63 @@ export class QueryExecutor {
     return { success: false, error: result.error };
   }
 
+  private executeAlterTable(query: AlterTableQuery): QueryResult {
+    const { action } = query;
+    if (action.type === 'ADD_COLUMN') {
+      const table = this.getTable(query.tableName);
+      // A CHECK on the new column may refer to the columns already there
+      this.validateConstraints(query.tableName, [...table.getSchema().columns, action.column], [], [action.column]);
+    }
+
+    const result = this.database.alterTable(query.tableName, action);
+
+    if (result.success) {
+      return { success: true, message: `Table ${query.tableName} altered` };
+    }
+    return { success: false, error: result.error };
+  }
+
+  private executeCreateSequence(query: CreateSequenceQuery): QueryResult {
+    const result = this.database.createSequence(query.name, { start: query.start, increment: query.increment });
+
+    if (result.success) {
+      return { success: true, message: `Sequence ${query.name} created` };
+    }
+    return { success: false, error: result.error };
+  }
+
+  private executeDropSequence(query: DropSequenceQuery): QueryResult {
+    const result = this.database.dropSequence(query.name);
+
+    if (result.success) {
+      return { success: true, message: `Sequence ${query.name} dropped` };
+    }
+    return { success: false, error: result.error };
+  }
+
+  private executeCreateIndex(query: CreateIndexQuery): QueryResult {
+    const result = this.database.createIndex(query.tableName, {
+      name: query.name,
+      columns: query.columns,
+      unique: query.unique,
+      method: query.method,
+    });
+
+    if (result.success) {
+      return { success: true, message: `Index ${query.name} created` };
+    }
+    return { success: false, error: result.error };
+  }
+
+  private executeDropIndex(query: DropIndexQuery): QueryResult {
+    const result = this.database.dropIndex(query.name);
+
+    if (result.success) {
+      return { success: true, message: `Index ${query.name} dropped` };
+    }
+    return { success: false, error: result.error };
+  }
+
   private executeInsert(query: InsertQuery): QueryResult {
     const table = this.database.getTable(query.tableName);
     if (!table) {
@@ -74,78 +276,579 @@ export class QueryExecutor {
     }
 
     const schema = table.getSchema();
-    const row: Record<string, string | number | boolean> = {};
-
-    if (query.columns) {
-      query.columns.forEach((col, idx) => {
-        row[col] = query.values[idx];
-      });
-    } else {
-      schema.columns.forEach((col, idx) => {
-        row[col.name] = query.values[idx];
-      });
+    const columns = query.columns ?? schema.columns.map(col => col.name);
+    const unknown = columns.find(name => !schema.columns.some(col => col.name === name));
+    if (unknown !== undefined) {
+      return { success: false, error: `Column ${unknown} does not exist in table ${query.tableName}` };
     }
+    if (query.values.length > columns.length) {
+      return { success: false, error: `INSERT has ${query.values.length} value(s) but table ${query.tableName} has ${columns.length} column(s)` };
+    }
+
+    // The values are computed before there is a row, so they cannot reference columns
+    const scope = new Scope([]);
+    query.values.forEach(value => this.validateValue(value, scope));
+    const row: Row = {};
+    query.values.forEach((value, idx) => {
+      row[columns[idx]] = this.evaluator.evaluate(value, {}, { scope });
+    });
 
     const result = table.insert(row);
 
     if (result.success) {
-      return { success: true, message: '1 row inserted', rowCount: 1 };
+      // Only a value the SERIAL column generated is reported, not one given explicitly
+      const inserted: QueryResult = { success: true, message: '1 row inserted', rowCount: 1 };
+      const serial = schema.columns.find(col => col.autoIncrement && row[col.name] === undefined);
+      if (serial) {
+        inserted.lastInsertId = result.row![serial.name] as number;
+      }
+      return inserted;
     }
     return { success: false, error: result.error };
   }
 
   private executeSelect(query: SelectQuery): QueryResult {
-    const table = this.database.getTable(query.from);
-    if (!table) {
-      return { success: false, error: `Table ${query.from} does not exist` };
+    const { rows } = this.runSelect(query);
+    return { success: true, rows, rowCount: rows.length };
+  }
+
+  private runSelect(query: SelectQuery, outer?: OuterQuery, plan = this.planFor(query)): SelectResult {
+    const state: SelectState = { query, outer, sources: [], qualified: query.joins.length > 0, correlated: false };
+    const entries = this.runNode(plan, state);
+    const context = this.selectContext(state);
+
+    return {
+      columns: this.resultColumns(query.columns, context.scope),
+      types: this.resultTypes(query.columns, context.scope),
+      rows: entries.map(entry => entry.projected ?? this.projectEntry(entry, query.columns, context)),
+      correlated: state.correlated || context.scope.isCorrelated(),
+    };
+  }
+
+  private runSubquery(query: SelectQuery, row: Row, context: EvaluationContext): SubqueryResult {
+    // Uncorrelated subqueries give the same result for every outer row, so run them once per statement
+    const cached = this.subqueryResults.get(query);
+    if (cached) return cached;
+
+    const result = this.runSelect(query, {
+      scope: context.scope,
+      rows: [row, ...(context.outerRows ?? [])],
+    });
+
+    if (!result.correlated) {
+      this.subqueryResults.set(query, result);
+    }
+    return result;
+  }
+
+  // A correlated subquery runs once per outer row, but is planned once per statement
+  private planFor(query: SelectQuery): PlanNode {
+    let plan = this.plans.get(query);
+    if (!plan) {
+      plan = this.planner.planSelect(query);
+      this.plans.set(query, plan);
     }
+    return plan;
+  }
 
-    let rows = table.select(query.columns);
+  private runNode(node: PlanNode, state: SelectState): ResultEntry[] {
+    const start = performance.now();
+    const entries = this.evaluateNode(node, state);
+    this.recordStats(node, entries.length, performance.now() - start);
+    return entries;
+  }
 
-    if (query.where) {
-      rows = this.filterRows(rows, query.where);
+  private evaluateNode(node: PlanNode, state: SelectState): ResultEntry[] {
+    switch (node.type) {
+      case 'RESULT':
+        // Without FROM there is a single row with no columns
+        this.addSource(state, { name: '', columns: [] });
+        return [{ row: {} }];
+      case 'SEQ_SCAN':
+      case 'INDEX_SCAN':
+        return this.scanTable(node, state);
+      case 'SUBQUERY_SCAN': {
+        const result = this.runSelect(node.query, state.outer, node.plan);
+        this.addSource(state, { name: node.alias, columns: result.columns, types: result.types });
+        state.correlated = state.correlated || result.correlated;
+        return this.sourceEntries(result.rows, node.alias, state);
+      }
+      case 'NESTED_LOOP':
+      case 'HASH_JOIN':
+      case 'MERGE_JOIN':
+        return this.runJoin(node, state);
+      case 'FILTER': {
+        const input = this.runNode(node.input, state);
+        const context = this.selectContext(state);
+        return input.filter(entry => this.evaluator.matches(node.condition, entry.row, context));
+      }
+      case 'AGGREGATE': {
+        const input = this.runNode(node.input, state);
+        return this.groupRows(
+          input.map(entry => entry.row),
+          state.query,
+          this.selectContext(state)
+        );
+      }
+      case 'SORT': {
+        // Sort before projecting so ORDER BY can use columns that are not selected
+        const input = this.runNode(node.input, state);
+        return this.sortEntries(input, node.orderBy, this.selectContext(state));
+      }
+      case 'UNIQUE': {
+        const input = this.runNode(node.input, state);
+        const context = this.selectContext(state);
+        const seen = new Set<string>();
+        return input.filter(entry => {
+          entry.projected = this.projectEntry(entry, state.query.columns, context);
+          const key = JSON.stringify(Object.values(entry.projected));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      case 'LIMIT': {
+        const input = this.runNode(node.input, state);
+        const start = node.offset ?? 0;
+        return input.slice(start, node.limit !== undefined ? start + node.limit : undefined);
+      }
+      case 'MODIFY':
+        throw new Error('UPDATE and DELETE plans cannot be part of a query');
     }
+  }
+
+  private scanTable(node: SeqScanNode | IndexScanNode, state: SelectState): ResultEntry[] {
+    const table = this.getTable(node.table);
+    this.addSource(state, this.sourceFor(node.alias, table));
+    if (node.type === 'SEQ_SCAN') {
+      return this.sourceEntries(table.select(), node.alias, state);
+    }
+
+    let rows = table.readIndex({ index: node.index, key: node.key, range: node.range });
+    if (node.nulls) {
+      // Only a scan of an index on one column adds the rows it leaves out
+      const column = table.getIndexes().find(index => index.name === node.index)!.columns[0];
+      const nulls = table.select().filter(row => row[column] === null);
+      rows = node.nulls === 'FIRST' ? [...nulls, ...rows] : [...rows, ...nulls];
+    }
+    return this.sourceEntries(rows, node.alias, state);
+  }
+
+  private runJoin(node: JoinNode, state: SelectState): ResultEntry[] {
+    const leftRows = this.runNode(node.left, state).map(entry => entry.row);
+    const leftColumns = state.sources.flatMap(source => source.columns.map(col => `${source.name}.${col}`));
+
+    // An index scan on the right looks up the matches of each left row, so it runs once per left row
+    const right = node.right;
+    const lookup = node.type === 'NESTED_LOOP' && right.type === 'INDEX_SCAN' && right.outerColumn ? right : undefined;
+    let rightRows: Row[] = [];
+    if (lookup) {
+      this.addSource(state, this.sourceFor(lookup.alias, this.getTable(lookup.table)));
+    } else {
+      rightRows = this.runNode(right, state).map(entry => entry.row);
+    }
+    const rightSource = state.sources[state.sources.length - 1];
+    const rightColumns = rightSource.columns.map(col => `${rightSource.name}.${col}`);
+
+    // ON conditions can only refer to the tables joined so far
+    const context: QueryContext = { scope: new Scope([...state.sources], state.outer?.scope), outerRows: state.outer?.rows };
+    if (node.join.on) {
+      this.validateColumns(node.join.on, context.scope);
+    }
+
+    let rows: Row[];
+    if (lookup) {
+      rows = this.executeIndexJoin(leftRows, lookup, rightColumns, node.join, context);
+    } else {
+      const candidates =
+        node.type === 'HASH_JOIN'
+          ? this.hashMatches(node, rightRows, context)
+          : node.type === 'MERGE_JOIN'
+            ? this.mergeMatches(node, rightRows, context)
+            : undefined;
+      rows = this.executeJoin(leftRows, leftColumns, rightRows, rightColumns, node.join, context, candidates);
+    }
+    state.correlated = state.correlated || context.scope.isCorrelated();
+    return rows.map(row => ({ row }));
+  }
 
-    if (query.join) {
-      const joinTable = this.database.getTable(query.join.table);
-      if (!joinTable) {
-        return { success: false, error: `Join table ${query.join.table} does not exist` };
+  // Right rows with a NULL in a key match nothing, so they are left out of the hash table
+  private hashMatches(node: HashJoinNode, rightRows: Row[], context: QueryContext): (leftRow: Row) => number[] {
+    const hashKey = (row: Row, keys: Expression[]): Value | undefined => {
+      const values = keys.map(key => this.evaluator.evaluate(key, row, context));
+      if (values.includes(null)) return undefined;
+      return values.length === 1 ? values[0] : JSON.stringify(values);
+    };
+
+    const buckets = new Map<Value, number[]>();
+    rightRows.forEach((row, position) => {
+      const key = hashKey(row, node.rightKeys);
+      if (key === undefined) return;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(position);
+      } else {
+        buckets.set(key, [position]);
+      }
+    });
+
+    return leftRow => {
+      const key = hashKey(leftRow, node.leftKeys);
+      return key === undefined ? [] : (buckets.get(key) ?? []);
+    };
+  }
+
+  /**
+   * Left rows arrive sorted on the join key in the direction the right rows
+   * were read in, so the right rows they match never lie before those of
+   * the previous left row. Left rows with a NULL key may come first or last
+   * and match nothing.
+   */
+  private mergeMatches(node: MergeJoinNode, rightRows: Row[], context: QueryContext): (leftRow: Row) => number[] {
+    const direction = node.right.range?.descending ? -1 : 1;
+    const rightKeys = rightRows.map(row => this.evaluator.evaluate(node.rightKey, row, context));
+    let next = 0;
+
+    return leftRow => {
+      const key = this.evaluator.evaluate(node.leftKey, leftRow, context);
+      if (key === null) return [];
+
+      while (next < rightKeys.length && this.evaluator.compare(rightKeys[next], key) * direction < 0) {
+        next++;
       }
+      const matches: number[] = [];
+      for (let position = next; position < rightKeys.length && rightKeys[position] === key; position++) {
+        matches.push(position);
+      }
+      return matches;
+    };
+  }
 
-      rows = this.executeJoin(rows, joinTable.select(), query.join, query.from, query.join.table);
+  // Only INNER and LEFT joins are planned this way, so right rows without a match are never needed
+  private executeIndexJoin(
+    leftRows: Row[],
+    lookup: IndexScanNode,
+    rightColumns: string[],
+    join: JoinClause,
+    context: QueryContext
+  ): Row[] {
+    const table = this.getTable(lookup.table);
+    const result: Row[] = [];
+
+    for (const leftRow of leftRows) {
+      const start = performance.now();
+      const value = this.evaluator.evaluate(lookup.outerColumn!, leftRow, context);
+      // NULL matches nothing
+      const matches = value === null ? [] : this.qualifyRows(table.readIndex({ index: lookup.index, key: [value] }), lookup.alias);
+      this.recordStats(lookup, matches.length, performance.now() - start);
+
+      let matched = false;
+      for (const rightRow of matches) {
+        const joinedRow = { ...leftRow, ...rightRow };
+        if (this.evaluator.matches(join.on!, joinedRow, context)) {
+          result.push(joinedRow);
+          matched = true;
+        }
+      }
+      if (!matched && join.type === 'LEFT') {
+        result.push({ ...leftRow, ...this.nullRow(rightColumns) });
+      }
     }
 
-    return { success: true, rows, rowCount: rows.length };
+    return result;
+  }
+
+  private addSource(state: SelectState, source: ScopeSource): void {
+    if (state.sources.some(existing => existing.name === source.name)) {
+      throw new Error(`Table name ${source.name} specified more than once`);
+    }
+    state.sources.push(source);
+  }
+
+  // Once tables are joined, row keys carry the name of their table
+  private sourceEntries(rows: Row[], sourceName: string, state: SelectState): ResultEntry[] {
+    return (state.qualified ? this.qualifyRows(rows, sourceName) : rows).map(row => ({ row }));
   }
 
-  private executeUpdate(query: UpdateQuery): QueryResult {
+  // The scope of WHERE and the later clauses, created and checked once every table is joined
+  private selectContext(state: SelectState): QueryContext {
+    if (!state.context) {
+      state.context = { scope: new Scope(state.sources, state.outer?.scope), outerRows: state.outer?.rows };
+      this.validateSelect(state.query, state.context.scope);
+    }
+    return state.context;
+  }
+
+  // Times are left out for steps that run inside the step above them
+  private recordStats(node: PlanNode, rows: number, time?: number): void {
+    const stats = (node.actual ??= { rows: 0, loops: 0 });
+    stats.rows += rows;
+    stats.loops++;
+    if (time !== undefined) {
+      stats.time = (stats.time ?? 0) + time;
+    }
+  }
+
+  private executeUpdate(query: UpdateQuery, plan?: ModifyNode): QueryResult {
     const table = this.database.getTable(query.tableName);
     if (!table) {
       return { success: false, error: `Table ${query.tableName} does not exist` };
     }
 
-    const predicate = query.where
-      ? (row: Row) => this.evaluateWhere(row, query.where!)
-      : () => true;
+    const scope = new Scope([this.sourceFor(query.tableName, table)]);
+    if (query.where) {
+      this.validateColumns(query.where, scope);
+    }
+
+    const unknown = Object.keys(query.set).find(name => !table.getSchema().columns.some(col => col.name === name));
+    if (unknown !== undefined) {
+      return { success: false, error: `Column ${unknown} does not exist in table ${query.tableName}` };
+    }
+    Object.values(query.set).forEach(value => this.validateValue(value, scope));
+    // Each row's new values are computed from its current ones
+    const changes = (row: Row) => {
+      const updates: Partial<Row> = {};
+      for (const [column, value] of Object.entries(query.set)) {
+        updates[column] = this.evaluator.evaluate(value, row, { scope });
+      }
+      return updates;
+    };
 
-    const count = table.update(query.set, predicate);
+    plan ??= this.planner.planModification('UPDATE', query.tableName, query.where);
+    const result = this.runModification(plan, scope, (predicate, access) =>
+      table.update(changes, predicate, access)
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
 
-    return { success: true, message: `${count} row(s) updated`, rowCount: count };
+    return { success: true, message: `${result.count} row(s) updated`, rowCount: result.count };
   }
 
-  private executeDelete(query: DeleteQuery): QueryResult {
+  private executeDelete(query: DeleteQuery, plan?: ModifyNode): QueryResult {
     const table = this.database.getTable(query.from);
     if (!table) {
       return { success: false, error: `Table ${query.from} does not exist` };
     }
 
-    const predicate = query.where
-      ? (row: Row) => this.evaluateWhere(row, query.where!)
-      : () => true;
+    const scope = new Scope([this.sourceFor(query.from, table)]);
+    if (query.where) {
+      this.validateColumns(query.where, scope);
+    }
+
+    plan ??= this.planner.planModification('DELETE', query.from, query.where);
+    const result = this.runModification(plan, scope, (predicate, access) =>
+      table.delete(predicate, access)
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, message: `${result.count} row(s) deleted`, rowCount: result.count };
+  }
+
+  /**
+   * Applies an UPDATE or DELETE to the rows its plan finds. The table reads
+   * and changes the rows in one pass, so the scan has no time of its own.
+   */
+  private runModification(
+    plan: ModifyNode,
+    scope: Scope,
+    change: (predicate: (row: Row) => boolean, access?: IndexAccess) => { success: boolean; error?: string; count: number }
+  ): { success: boolean; error?: string; count: number } {
+    const scan = plan.input;
+    const access = scan.type === 'INDEX_SCAN' ? { index: scan.index, key: scan.key, range: scan.range } : undefined;
+    let found = 0;
+    const predicate = (row: Row) => {
+      const matches = !scan.filter || this.evaluator.matches(scan.filter, row, { scope });
+      if (matches) found++;
+      return matches;
+    };
+
+    const start = performance.now();
+    const result = change(predicate, access);
+    this.recordStats(scan, found);
+    this.recordStats(plan, result.count, performance.now() - start);
+    return result;
+  }
+
+  // EXPLAIN ANALYZE runs the statement, so an UPDATE or DELETE changes rows as usual
+  private executeExplain(query: ExplainQuery): QueryResult {
+    const statement = query.query;
+    const start = performance.now();
+    let plan: PlanNode;
 
-    const count = table.delete(predicate);
+    if (statement.type === 'SELECT') {
+      plan = this.planFor(statement);
+      if (query.analyze) {
+        this.runSelect(statement, undefined, plan);
+      }
+    } else {
+      const tableName = statement.type === 'UPDATE' ? statement.tableName : statement.from;
+      const modification = this.planner.planModification(statement.type, tableName, statement.where);
+      plan = modification;
+      if (query.analyze) {
+        const result =
+          statement.type === 'UPDATE'
+            ? this.executeUpdate(statement, modification)
+            : this.executeDelete(statement, modification);
+        if (!result.success) return result;
+      }
+    }
 
-    return { success: true, message: `${count} row(s) deleted`, rowCount: count };
+    const lines = this.planner.formatPlan(plan, query.analyze);
+    if (query.analyze) {
+      lines.push(`Execution Time: ${(performance.now() - start).toFixed(3)} ms`);
+    }
+    const rows = lines.map(line => ({ 'QUERY PLAN': line }));
+    return { success: true, rows, rowCount: rows.length };
+  }
+
+  /**
+   * Inserts the records of CSV or JSON input into a table. Records that
+   * cannot be converted or inserted are skipped and reported with their
+   * line number; the others are kept.
+   */
+  copyFrom(tableName: string, columns: string[] | undefined, input: Iterable<string>, options: CopyOptions): QueryResult {
+    const table = this.database.getTable(tableName);
+    if (!table) {
+      return { success: false, error: `Table ${tableName} does not exist` };
+    }
+
+    const schema = table.getSchema();
+    const definitions = new Map(schema.columns.map(col => [col.name, col]));
+    const checkColumns = (names: string[]) => {
+      const unknown = names.find(name => !definitions.has(name));
+      if (unknown !== undefined) {
+        throw new Error(`Column ${unknown} does not exist in table ${tableName}`);
+      }
+    };
+    if (columns) {
+      checkColumns(columns);
+    }
+
+    const records =
+      options.format === 'json'
+        ? this.copyFormat.parseJSON(input)
+        : this.copyFormat.parseCSV(input, options.delimiter, options.null);
+
+    const rejected: RejectedRecord[] = [];
+    // Logged as INSERTs, since the file may no longer be there when the log is replayed
+    const inserts: string[] = [];
+    let expectHeader = options.format !== 'json' && options.header;
+
+    for (const record of records) {
+      if (expectHeader) {
+        expectHeader = false;
+        // Without a column list, the header names the columns of the file
+        if (!columns && record.fields) {
+          columns = record.fields.map(field => field ?? '');
+          checkColumns(columns);
+        }
+        continue;
+      }
+
+      try {
+        if (record.error) {
+          throw new Error(record.error);
+        }
+
+        const row = this.copyRow(record.fields ?? record.object!, columns, definitions);
+        const result = table.insert(row);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+
+        // The stored row, so that values taken from sequences are not generated again
+        inserts.push(this.formatter.formatInsert(tableName, result.row!));
+      } catch (error) {
+        rejected.push({ line: record.line, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    this.database.recordStatements(inserts);
+
+    const message = `${inserts.length} row(s) copied${rejected.length > 0 ? `, ${rejected.length} rejected` : ''}`;
+    return { success: true, message, rowCount: inserts.length, rejected };
+  }
+
+  /** Formats the rows of a table, or the result of a query, as CSV or JSON. */
+  copyTo(source: string | SelectQuery, columns: string[] | undefined, options: CopyOptions): { data: string; rowCount: number } {
+    this.subqueryResults.clear();
+
+    const query: SelectQuery =
+      typeof source === 'string'
+        ? {
+            type: 'SELECT',
+            columns: columns
+              ? columns.map(column => ({ type: 'EXPRESSION', expression: { type: 'COLUMN', column }, name: column }))
+              : [{ type: 'ALL' }],
+            from: { type: 'TABLE', name: source },
+            joins: [],
+            distinct: false,
+          }
+        : source;
+
+    const result = this.runSelect(query);
+    const data =
+      options.format === 'json'
+        ? this.copyFormat.formatJSON(result.columns, result.rows)
+        : this.copyFormat.formatCSV(result.columns, result.rows, options.header, options.delimiter, options.null);
+
+    return { data, rowCount: result.rows.length };
+  }
+
+  private executeCopy(query: CopyQuery): QueryResult {
+    if (!this.files) {
+      throw new Error('COPY with a file name requires file storage');
+    }
+
+    const options: CopyOptions = {
+      format: query.file.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+      ...query.options,
+    };
+
+    if (query.direction === 'FROM') {
+      const data = this.files.read(query.file);
+      if (data === null) {
+        throw new Error(`File ${query.file} does not exist`);
+      }
+      return this.copyFrom(query.tableName!, query.columns, [data], options);
+    }
+
+    const { data, rowCount } = this.copyTo(query.query ?? query.tableName!, query.columns, options);
+    this.files.write(query.file, data);
+    return { success: true, message: `${rowCount} row(s) copied`, rowCount };
+  }
+
+  // Builds the row to insert from a CSV record, matched to columns by position, or a JSON object
+  private copyRow(
+    data: (string | null)[] | Record<string, unknown>,
+    columns: string[] | undefined,
+    definitions: Map<string, ColumnDefinition>
+  ): Row {
+    const row: Row = {};
+
+    if (Array.isArray(data)) {
+      const names = columns ?? Array.from(definitions.keys());
+      if (data.length !== names.length) {
+        throw new Error(`Expected ${names.length} field(s) but found ${data.length}`);
+      }
+      names.forEach((name, idx) => {
+        row[name] = this.copyFormat.coerce(data[idx], definitions.get(name)!);
+      });
+      return row;
+    }
+
+    for (const [name, value] of Object.entries(data)) {
+      if (columns && !columns.includes(name)) continue;
+      const definition = definitions.get(name);
+      if (!definition) {
+        throw new Error(`Column ${name} does not exist`);
+      }
+      row[name] = this.copyFormat.coerce(value, definition);
+    }
+    return row;
   }
 
   private executeShowTables(): QueryResult {
@@ -155,6 +858,27 @@ export class QueryExecutor {
     return { success: true, rows, rowCount: rows.length };
   }
 
+  // Includes the indexes that back PRIMARY KEY and UNIQUE constraints
+  private executeShowIndexes(query: ShowIndexesQuery): QueryResult {
+    if (query.tableName && !this.database.hasTable(query.tableName)) {
+      return { success: false, error: `Table ${query.tableName} does not exist` };
+    }
+
+    const tables = query.tableName ? [query.tableName] : this.database.getTables();
+    const rows = tables.flatMap(tableName =>
+      this.database.getTable(tableName)!.getIndexes().map(index => ({
+        table_name: tableName,
+        index_name: index.name,
+        columns: index.columns.join(', '),
+        unique: index.unique ? 'YES' : 'NO',
+        method: index.method,
+        constraint: index.constraint ? 'YES' : 'NO',
+      }))
+    );
+
+    return { success: true, rows, rowCount: rows.length };
+  }
+
   private executeDescribe(query: { tableName: string }): QueryResult {
     const table = this.database.getTable(query.tableName);
     if (!table) {
@@ -162,87 +886,365 @@ export class QueryExecutor {
     }
 
     const schema = table.getSchema();
-    const rows = schema.columns.map(col => ({
+    const primaryKey = schema.uniqueKeys?.find(key => key.primary);
+    const rows: Row[] = schema.columns.map(col => ({
       column: col.name,
-      type: col.type,
+      type: this.formatter.formatDataType(col),
       nullable: col.nullable ? 'YES' : 'NO',
-      key: col.primaryKey ? 'PRI' : col.unique ? 'UNI' : '',
+      key: col.primaryKey || primaryKey?.columns.includes(col.name) ? 'PRI' : col.unique ? 'UNI' : '',
+      default: col.default ? this.formatter.formatExpression(col.default) : '',
+      references: col.references ? this.formatter.formatReferences(col.references) : '',
+      check: col.check ? this.formatter.formatExpression(col.check) : '',
     }));
 
+    // Multi-column keys, table-level checks and indexes are listed after the columns
+    const constraint = { column: '', type: '', nullable: '', key: '', default: '', references: '', check: '' };
+    for (const key of schema.uniqueKeys ?? []) {
+      rows.push({ ...constraint, key: this.formatter.formatUniqueKey(key) });
+    }
+    for (const check of schema.checks ?? []) {
+      rows.push({ ...constraint, check: this.formatter.formatExpression(check) });
+    }
+    for (const index of schema.indexes ?? []) {
+      const columns = index.columns.map(column => this.formatter.formatIdentifier(column)).join(', ');
+      rows.push({
+        ...constraint,
+        key: `${index.unique ? 'UNIQUE ' : ''}INDEX ${this.formatter.formatIdentifier(index.name)}${index.method === 'btree' ? ' USING btree' : ''} (${columns})`,
+      });
+    }
+
     return { success: true, rows, rowCount: rows.length };
   }
 
-  private filterRows(rows: Row[], where: WhereClause[]): Row[] {
-    return rows.filter(row => this.evaluateWhere(row, where));
-  }
-
-  private evaluateWhere(row: Row, conditions: WhereClause[]): boolean {
-    return conditions.every(condition => {
-      const rowValue = row[condition.column];
-      const condValue = condition.value;
-
-      switch (condition.operator) {
-        case '=':
-          return rowValue === condValue;
-        case '!=':
-          return rowValue !== condValue;
-        case '>':
-          return (rowValue as number) > (condValue as number);
-        case '<':
-          return (rowValue as number) < (condValue as number);
-        case '>=':
-          return (rowValue as number) >= (condValue as number);
-        case '<=':
-          return (rowValue as number) <= (condValue as number);
-        default:
-          return false;
+  private projectEntry(entry: ResultEntry, columns: SelectItem[], context: QueryContext): Row {
+    const projected: Row = {};
+
+    for (const item of columns) {
+      if (item.type === 'ALL') {
+        for (const source of context.scope.getSources()) {
+          if (item.table && source.name !== item.table) continue;
+          for (const column of source.columns) {
+            const key = context.scope.keyFor(source, column);
+            projected[key] = entry.row[key] ?? null;
+          }
+        }
+      } else {
+        projected[item.name] = this.evaluator.evaluate(item.expression, entry.row, {
+          ...context,
+          group: entry.group,
+        });
+      }
+    }
+
+    return projected;
+  }
+
+  private resultColumns(columns: SelectItem[], scope: Scope): string[] {
+    return columns.flatMap(item => {
+      if (item.type === 'EXPRESSION') {
+        return [item.name];
+      }
+      return scope
+        .getSources()
+        .filter(source => !item.table || source.name === item.table)
+        .flatMap(source => source.columns.map(column => scope.keyFor(source, column)));
+    });
+  }
+
+  // Lets a query that selects from this one compute with its columns as with a table's
+  private resultTypes(columns: SelectItem[], scope: Scope): (ColumnType | undefined)[] {
+    return columns.flatMap(item => {
+      if (item.type === 'EXPRESSION') {
+        return [this.evaluator.typeOf(item.expression, scope)];
+      }
+      return scope
+        .getSources()
+        .filter(source => !item.table || source.name === item.table)
+        .flatMap(source => source.columns.map((_, idx) => source.types?.[idx]));
+    });
+  }
+
+  private sourceFor(name: string, table: Table): ScopeSource {
+    return {
+      name,
+      columns: table.getSchema().columns.map(col => col.name),
+      types: table.getSchema().columns.map(col => col.type),
+    };
+  }
+
+  // Resolves every column reference up front so that unknown and ambiguous
+  // columns are reported even when there are no rows to evaluate
+  private validateSelect(query: SelectQuery, scope: Scope): void {
+    if (query.where && this.evaluator.containsAggregate(query.where)) {
+      throw new Error('Aggregate functions are not allowed in WHERE');
+    }
+
+    for (const item of query.columns) {
+      if (item.type === 'ALL') {
+        if (item.table && !scope.getSources().some(source => source.name === item.table)) {
+          throw new Error(`Unknown table or alias ${item.table} in ${item.table}.*`);
+        }
+      } else {
+        this.validateColumns(item.expression, scope);
+      }
+    }
+
+    const expressions = [
+      query.where,
+      ...(query.groupBy ?? []),
+      query.having,
+      ...(query.orderBy ?? []).map(item => item.expression),
+    ];
+    for (const expression of expressions) {
+      if (expression) {
+        this.validateColumns(expression, scope);
+      }
+    }
+
+    // Rows that differ only in a value that is not selected would be merged, leaving no order to sort them in
+    if (query.distinct) {
+      const selected = query.columns.map(item => (item.type === 'EXPRESSION' ? this.formatter.formatExpression(item.expression) : undefined));
+      const selectsAll = query.columns.some(item => item.type === 'ALL');
+      for (const { expression } of query.orderBy ?? []) {
+        if (selected.includes(this.formatter.formatExpression(expression)) || (selectsAll && expression.type === 'COLUMN')) continue;
+        throw new Error(`ORDER BY ${this.formatter.formatExpression(expression)} must be in the select list of SELECT DISTINCT`);
       }
+    }
+  }
+
+  // Checks the DEFAULT and CHECK expressions of the given columns, by default all of them. DEFAULT
+  // is evaluated without a row and CHECK against the row being written, so neither may look beyond it
+  private validateConstraints(tableName: string, columns: ColumnDefinition[], checks: Expression[], defined = columns): void {
+    const scope = new Scope([{ name: tableName, columns: columns.map(col => col.name) }]);
+
+    for (const col of defined) {
+      if (col.default) {
+        this.validateConstraintExpression(col.default, 'DEFAULT');
+        // Function calls such as nextval() are only run on insert
+        const value = col.default.type === 'LITERAL' ? col.default.value : null;
+        if (value !== null && this.converter.assign(value, col) === undefined) {
+          throw new Error(`DEFAULT for column ${col.name} must be of type ${this.formatter.formatDataType(col)}`);
+        }
+      }
+      if (col.check) {
+        this.validateConstraintExpression(col.check, 'CHECK constraints', scope);
+      }
+    }
+    for (const check of checks) {
+      this.validateConstraintExpression(check, 'CHECK constraints', scope);
+    }
+  }
+
+  // Without a scope, column references are not allowed at all
+  private validateConstraintExpression(expression: Expression, clause: string, scope?: Scope): void {
+    switch (expression.type) {
+      case 'COLUMN':
+        if (!scope) {
+          throw new Error(`Column references are not allowed in ${clause}`);
+        }
+        scope.resolve(expression);
+        return;
+      case 'SUBQUERY':
+      case 'EXISTS':
+      case 'IN_SUBQUERY':
+        throw new Error(`Subqueries are not allowed in ${clause}`);
+      case 'AGGREGATE':
+        throw new Error(`Aggregate functions are not allowed in ${clause}`);
+    }
+    this.evaluator
+      .children(expression)
+      .forEach(child => this.validateConstraintExpression(child, clause, scope));
+  }
+
+  // Values of INSERT and UPDATE are computed for a single row
+  private validateValue(expression: Expression, scope: Scope): void {
+    if (this.evaluator.containsAggregate(expression)) {
+      throw new Error('Aggregate functions are not allowed in INSERT or UPDATE values');
+    }
+    this.validateColumns(expression, scope);
+  }
+
+  private validateColumns(expression: Expression, scope: Scope): void {
+    if (expression.type === 'COLUMN') {
+      scope.resolve(expression);
+      return;
+    }
+    this.evaluator.children(expression).forEach(child => this.validateColumns(child, scope));
+  }
+
+  private groupRows(rows: Row[], query: SelectQuery, context: QueryContext): ResultEntry[] {
+    const scope = context.scope;
+    const groupBy = query.groupBy ?? [];
+
+    for (const expression of groupBy) {
+      if (this.evaluator.containsAggregate(expression)) {
+        throw new Error('Aggregate functions are not allowed in GROUP BY');
+      }
+    }
+    for (const item of query.columns) {
+      if (item.type === 'ALL') {
+        throw new Error('SELECT * cannot be used with GROUP BY or aggregate functions');
+      }
+      this.validateGroupedExpression(item.expression, groupBy, scope);
+    }
+    if (query.having) {
+      this.validateGroupedExpression(query.having, groupBy, scope);
+    }
+    query.orderBy?.forEach(item => this.validateGroupedExpression(item.expression, groupBy, scope));
+
+    let groups: Row[][];
+    if (groupBy.length === 0) {
+      // Aggregates without GROUP BY summarise all rows, even when there are none
+      groups = [rows];
+    } else {
+      const byKey = new Map<string, Row[]>();
+      for (const row of rows) {
+        const key = JSON.stringify(groupBy.map(expression => this.evaluator.evaluate(expression, row, context)));
+        const group = byKey.get(key);
+        if (group) {
+          group.push(row);
+        } else {
+          byKey.set(key, [row]);
+        }
+      }
+      groups = Array.from(byKey.values());
+    }
+
+    let entries: ResultEntry[] = groups.map(group => ({ row: group[0] ?? {}, group }));
+
+    if (query.having) {
+      const having = query.having;
+      entries = entries.filter(entry =>
+        this.evaluator.matches(having, entry.row, { ...context, group: entry.group })
+      );
+    }
+
+    return entries;
+  }
+
+  // Outside aggregate functions, a grouped query may only use the grouping expressions
+  private validateGroupedExpression(expression: Expression, groupBy: Expression[], scope: Scope): void {
+    if (expression.type === 'AGGREGATE') {
+      return;
+    }
+
+    const text = this.formatter.formatExpression(expression);
+    if (groupBy.some(grouping => this.formatter.formatExpression(grouping) === text)) {
+      return;
+    }
+
+    if (expression.type === 'COLUMN') {
+      const key = scope.resolve(expression);
+      const grouped = groupBy.some(grouping => grouping.type === 'COLUMN' && scope.resolve(grouping) === key);
+      if (!grouped) {
+        throw new Error(
+          `Column ${text} must appear in the GROUP BY clause or be used in an aggregate function`
+        );
+      }
+      return;
+    }
+
+    this.evaluator
+      .children(expression)
+      .forEach(child => this.validateGroupedExpression(child, groupBy, scope));
+  }
+
+  private sortEntries(entries: ResultEntry[], orderBy: OrderByClause[], context: QueryContext): ResultEntry[] {
+    const keyed = entries.map(entry => ({
+      entry,
+      keys: orderBy.map(item =>
+        this.evaluator.evaluate(item.expression, entry.row, { ...context, group: entry.group })
+      ),
+    }));
+
+    // Array.prototype.sort is stable, so rows with equal keys keep insertion order
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orderBy.length; i++) {
+        const { direction, nulls } = orderBy[i];
+        const left = a.keys[i];
+        const right = b.keys[i];
+
+        if (left === null || right === null) {
+          if (left === right) continue;
+          return (left === null) === (nulls === 'FIRST') ? -1 : 1;
+        }
+
+        const result = this.evaluator.compare(left, right);
+        if (result !== 0) {
+          return direction === 'ASC' ? result : -result;
+        }
+      }
+      return 0;
+    });
+
+    return keyed.map(item => item.entry);
+  }
+
+  private qualifyRows(rows: Row[], tableName: string): Row[] {
+    return rows.map(row => {
+      const qualified: Row = {};
+      Object.entries(row).forEach(([key, value]) => {
+        qualified[`${tableName}.${key}`] = value;
+      });
+      return qualified;
     });
   }
 
   private executeJoin(
     leftRows: Row[],
+    leftColumns: string[],
     rightRows: Row[],
-    join: { type: 'INNER' | 'LEFT'; on: { leftColumn: string; rightColumn: string } },
-    leftTableName: string,
-    rightTableName: string
+    rightColumns: string[],
+    join: JoinClause,
+    context: QueryContext,
+    // The positions of the right rows that may match a left row, in order; every right row by default
+    candidates?: (leftRow: Row) => Iterable<number>
   ): Row[] {
     const result: Row[] = [];
-
-    const [, leftCol] = join.on.leftColumn.split('.');
-    const [, rightCol] = join.on.rightColumn.split('.');
+    const rightMatched = new Array<boolean>(rightRows.length).fill(false);
 
     for (const leftRow of leftRows) {
       let matched = false;
 
-      for (const rightRow of rightRows) {
-        if (leftRow[leftCol] === rightRow[rightCol]) {
-          matched = true;
-          const joinedRow: Row = {};
-
-          Object.entries(leftRow).forEach(([key, value]) => {
-            joinedRow[`${leftTableName}.${key}`] = value;
-          });
-
-          Object.entries(rightRow).forEach(([key, value]) => {
-            joinedRow[`${rightTableName}.${key}`] = value;
-          });
+      for (const rightIndex of candidates ? candidates(leftRow) : rightRows.keys()) {
+        const joinedRow: Row = { ...leftRow, ...rightRows[rightIndex] };
 
+        if (!join.on || this.evaluator.matches(join.on, joinedRow, context)) {
+          matched = true;
+          rightMatched[rightIndex] = true;
           result.push(joinedRow);
         }
       }
 
-      if (!matched && join.type === 'LEFT') {
-        const joinedRow: Row = {};
-
-        Object.entries(leftRow).forEach(([key, value]) => {
-          joinedRow[`${leftTableName}.${key}`] = value;
-        });
-
-        result.push(joinedRow);
+      if (!matched && (join.type === 'LEFT' || join.type === 'FULL')) {
+        result.push({ ...leftRow, ...this.nullRow(rightColumns) });
       }
     }
 
+    if (join.type === 'RIGHT' || join.type === 'FULL') {
+      rightRows.forEach((rightRow, rightIndex) => {
+        if (!rightMatched[rightIndex]) {
+          result.push({ ...this.nullRow(leftColumns), ...rightRow });
+        }
+      });
+    }
+
     return result;
   }
+
+  private getTable(tableName: string): Table {
+    const table = this.database.getTable(tableName);
+    if (!table) {
+      throw new Error(`Table ${tableName} does not exist`);
+    }
+    return table;
+  }
+
+  private nullRow(columns: string[]): Row {
+    const row: Row = {};
+    columns.forEach(col => {
+      row[col] = null;
+    });
+    return row;
+  }
 }
@@ -1,269 +1,1541 @@
-import { ColumnDefinition, ColumnType, WhereClause, JoinClause } from './types';
+import {
+  AggregateFunction,
+  ArithmeticOperator,
+  AlterTableAction,
+  ColumnDefinition,
+  ColumnType,
+  ComparisonOperator,
+  CopyOptions,
+  DataType,
+  Expression,
+  ForeignKey,
+  IndexMethod,
+  JoinClause,
+  JoinType,
+  OrderByClause,
+  ReferentialAction,
+  SelectItem,
+  TableReference,
+  UniqueKey,
+  Value,
+} from './types';
+import { Lexer, Token } from './Lexer';
+import { SQLSyntaxError } from './errors';
+import { SQLFormatter } from './SQLFormatter';
+import { MAX_DECIMAL_PRECISION, TypeConverter } from './TypeConverter';
+import { FunctionRegistry } from './FunctionRegistry';
 
 export interface CreateTableQuery {
   type: 'CREATE_TABLE';
   tableName: string;
   columns: ColumnDefinition[];
+  uniqueKeys: UniqueKey[];
+  checks: Expression[];
+}
+
+export interface CreateSequenceQuery {
+  type: 'CREATE_SEQUENCE';
+  name: string;
+  start?: number;
+  increment?: number;
+}
+
+export interface DropSequenceQuery {
+  type: 'DROP_SEQUENCE';
+  name: string;
+}
+
+export interface CreateIndexQuery {
+  type: 'CREATE_INDEX';
+  name: string;
+  tableName: string;
+  columns: string[];
+  unique: boolean;
+  method?: IndexMethod;
+}
+
+export interface DropIndexQuery {
+  type: 'DROP_INDEX';
+  name: string;
 }
 
 export interface DropTableQuery {
   type: 'DROP_TABLE';
   tableName: string;
+  // Also drops foreign keys in other tables that reference this one
+  cascade: boolean;
+}
+
+export interface AlterTableQuery {
+  type: 'ALTER_TABLE';
+  tableName: string;
+  action: AlterTableAction;
 }
 
 export interface InsertQuery {
   type: 'INSERT';
   tableName: string;
   columns?: string[];
-  values: (string | number | boolean)[];
+  // Computed before the row exists, so they cannot reference its columns
+  values: Expression[];
 }
 
 export interface SelectQuery {
   type: 'SELECT';
-  columns: string[];
-  from: string;
-  where?: WhereClause[];
-  join?: JoinClause;
+  columns: SelectItem[];
+  // Without FROM, the select list is evaluated once, as in SELECT nextval('seq')
+  from?: TableReference;
+  joins: JoinClause[];
+  where?: Expression;
+  groupBy?: Expression[];
+  having?: Expression;
+  orderBy?: OrderByClause[];
+  limit?: number;
+  offset?: number;
+  distinct: boolean;
 }
 
 export interface UpdateQuery {
   type: 'UPDATE';
   tableName: string;
-  set: Record<string, string | number | boolean>;
-  where?: WhereClause[];
+  // Computed from the current values of each row
+  set: Record<string, Expression>;
+  where?: Expression;
 }
 
 export interface DeleteQuery {
   type: 'DELETE';
   from: string;
-  where?: WhereClause[];
+  where?: Expression;
 }
 
 export interface ShowTablesQuery {
   type: 'SHOW_TABLES';
 }
 
+export interface ShowIndexesQuery {
+  type: 'SHOW_INDEXES';
+  // Shows the indexes of every table when absent
+  tableName?: string;
+}
+
 export interface DescribeTableQuery {
   type: 'DESCRIBE';
   tableName: string;
 }
 
+export interface BeginQuery {
+  type: 'BEGIN';
+}
+
+export interface CommitQuery {
+  type: 'COMMIT';
+}
+
+export interface RollbackQuery {
+  type: 'ROLLBACK';
+  // Set for ROLLBACK TO SAVEPOINT
+  savepoint?: string;
+}
+
+export interface SavepointQuery {
+  type: 'SAVEPOINT';
+  name: string;
+}
+
+export interface ReleaseSavepointQuery {
+  type: 'RELEASE_SAVEPOINT';
+  name: string;
+}
+
+export interface CopyQuery {
+  type: 'COPY';
+  direction: 'FROM' | 'TO';
+  // The table to copy, or for COPY (SELECT ...) TO, the query whose result is copied
+  tableName?: string;
+  columns?: string[];
+  query?: SelectQuery;
+  file: string;
+  options: CopyOptions;
+}
+
+export interface ExplainQuery {
+  type: 'EXPLAIN';
+  // Also runs the statement and reports what each step of the plan did
+  analyze: boolean;
+  query: SelectQuery | UpdateQuery | DeleteQuery;
+}
+
 export type ParsedQuery =
   | CreateTableQuery
   | DropTableQuery
+  | AlterTableQuery
+  | CreateSequenceQuery
+  | DropSequenceQuery
+  | CreateIndexQuery
+  | DropIndexQuery
   | InsertQuery
   | SelectQuery
   | UpdateQuery
   | DeleteQuery
   | ShowTablesQuery
-  | DescribeTableQuery;
+  | ShowIndexesQuery
+  | DescribeTableQuery
+  | BeginQuery
+  | CommitQuery
+  | RollbackQuery
+  | SavepointQuery
+  | ReleaseSavepointQuery
+  | CopyQuery
+  | ExplainQuery;
+
+// A statement of a script, together with its source text
+export interface ScriptStatement {
+  query: ParsedQuery;
+  sql: string;
+}
+
+// Where a placeholder appears in the text of a prepared statement
+export interface Placeholder {
+  offset: number;
+  length: number;
+  // The parameter it stands for, from 0
+  index: number;
+}
+
+export interface PreparedQuery {
+  query: ParsedQuery;
+  // One more than the highest parameter index
+  parameterCount: number;
+  placeholders: Placeholder[];
+}
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  '=': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '>': '>',
+  '<': '<',
+  '>=': '>=',
+  '<=': '<=',
+};
+
+const AGGREGATE_FUNCTIONS = new Set<AggregateFunction>(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+
+// Type names, including the names other databases use for the same types
+const TYPE_NAMES = new Map<string, ColumnType>([
+  ['string', 'string'],
+  ['text', 'string'],
+  ['varchar', 'string'],
+  ['char', 'string'],
+  ['integer', 'integer'],
+  ['int', 'integer'],
+  ['smallint', 'integer'],
+  ['bigint', 'integer'],
+  ['serial', 'integer'],
+  ['real', 'real'],
+  ['float', 'real'],
+  ['double', 'real'],
+  // The name of the one numeric type before integer and real were told apart
+  ['number', 'real'],
+  ['decimal', 'decimal'],
+  ['numeric', 'decimal'],
+  ['boolean', 'boolean'],
+  ['bool', 'boolean'],
+  ['date', 'date'],
+  ['timestamp', 'timestamp'],
+  ['json', 'json'],
+  ['jsonb', 'json'],
+]);
+
+// Types whose values can be written as the type name followed by a string, as in DATE '2024-01-31'
+const TYPED_LITERALS = new Set<ColumnType>(['date', 'timestamp']);
 
 export class QueryParser {
+  private tokens: Token[] = [];
+  private position = 0;
+  private formatter = new SQLFormatter();
+  private converter = new TypeConverter();
+  // Collects the placeholders of a statement being prepared; other statements cannot have any
+  private placeholders?: Placeholder[];
+  private parameterStyle?: '?' | '$';
+  // The scalar functions statements can call
+  private functions: FunctionRegistry;
+
+  constructor(functions: FunctionRegistry) {
+    this.functions = functions;
+  }
+
   parse(sql: string): ParsedQuery {
-    const trimmed = sql.trim().replace(/;$/, '');
-    const upperSQL = trimmed.toUpperCase();
-
-    if (upperSQL.startsWith('CREATE TABLE')) {
-      return this.parseCreateTable(trimmed);
-    } else if (upperSQL.startsWith('DROP TABLE')) {
-      return this.parseDropTable(trimmed);
-    } else if (upperSQL.startsWith('INSERT INTO')) {
-      return this.parseInsert(trimmed);
-    } else if (upperSQL.startsWith('SELECT')) {
-      return this.parseSelect(trimmed);
-    } else if (upperSQL.startsWith('UPDATE')) {
-      return this.parseUpdate(trimmed);
-    } else if (upperSQL.startsWith('DELETE FROM')) {
-      return this.parseDelete(trimmed);
-    } else if (upperSQL === 'SHOW TABLES') {
+    this.start(sql);
+    return this.parseOnly();
+  }
+
+  /** Parses a statement that may hold ? or $1-style placeholders for values. */
+  prepare(sql: string): PreparedQuery {
+    const placeholders: Placeholder[] = [];
+    this.start(sql, placeholders);
+    const query = this.parseOnly();
+
+    const parameterCount = Math.max(0, ...placeholders.map(placeholder => placeholder.index + 1));
+    return { query, parameterCount, placeholders };
+  }
+
+  /** Parses a script of statements separated by semicolons. */
+  parseScript(sql: string): ScriptStatement[] {
+    this.start(sql);
+
+    const statements: ScriptStatement[] = [];
+    for (;;) {
+      while (this.matchSymbol(';'));
+      if (this.peek().type === 'eof') {
+        return statements;
+      }
+
+      const start = this.peek().offset;
+      const query = this.parseStatement();
+      const end = this.peek().offset;
+
+      if (!this.matchSymbol(';') && this.peek().type !== 'eof') {
+        throw this.error(`Expected ; but found ${this.describe(this.peek())}`);
+      }
+
+      statements.push({ query, sql: sql.slice(start, end).trimEnd() });
+    }
+  }
+
+  private start(sql: string, placeholders?: Placeholder[]): void {
+    this.tokens = new Lexer(sql).tokenize();
+    this.position = 0;
+    this.placeholders = placeholders;
+    this.parameterStyle = undefined;
+  }
+
+  // The single statement of the input
+  private parseOnly(): ParsedQuery {
+    const query = this.parseStatement();
+
+    this.matchSymbol(';');
+    if (this.peek().type !== 'eof') {
+      throw this.error(`Unexpected ${this.describe(this.peek())} after end of statement`);
+    }
+
+    return query;
+  }
+
+  private parseStatement(): ParsedQuery {
+    const token = this.peek();
+
+    if (this.matchKeyword('CREATE')) {
+      if (this.matchWord('SEQUENCE')) {
+        return this.parseCreateSequence();
+      }
+      if (this.matchKeyword('UNIQUE')) {
+        this.expectWord('INDEX');
+        return this.parseCreateIndex(true);
+      }
+      if (this.matchWord('INDEX')) {
+        return this.parseCreateIndex(false);
+      }
+      this.expectKeyword('TABLE');
+      return this.parseCreateTable();
+    }
+    if (this.matchKeyword('DROP')) {
+      if (this.matchWord('SEQUENCE')) {
+        return { type: 'DROP_SEQUENCE', name: this.expectIdentifier('sequence name') };
+      }
+      if (this.matchWord('INDEX')) {
+        return { type: 'DROP_INDEX', name: this.expectIdentifier('index name') };
+      }
+      this.expectKeyword('TABLE');
+      return this.parseDropTable();
+    }
+    if (this.matchWord('ALTER')) {
+      this.expectKeyword('TABLE');
+      return this.parseAlterTable();
+    }
+    if (this.matchKeyword('INSERT')) {
+      this.expectKeyword('INTO');
+      return this.parseInsert();
+    }
+    if (this.matchKeyword('SELECT')) {
+      return this.parseSelect();
+    }
+    if (this.matchKeyword('UPDATE')) {
+      return this.parseUpdate();
+    }
+    if (this.matchKeyword('DELETE')) {
+      this.expectKeyword('FROM');
+      return this.parseDelete();
+    }
+    if (this.matchKeyword('SHOW')) {
+      if (this.matchWord('INDEXES')) {
+        const tableName = this.matchKeyword('FROM') ? this.expectIdentifier('table name') : undefined;
+        return { type: 'SHOW_INDEXES', tableName };
+      }
+      this.expectWord('TABLES');
       return { type: 'SHOW_TABLES' };
-    } else if (upperSQL.startsWith('DESCRIBE') || upperSQL.startsWith('DESC')) {
-      return this.parseDescribe(trimmed);
-    }
-
-    throw new Error(`Unsupported query: ${sql}`);
-  }
-
-  private parseCreateTable(sql: string): CreateTableQuery {
-    // Accept multi-line column lists by using [\s\S]* to match across newlines
-    const match = sql.match(/CREATE TABLE\s+(\w+)\s*\(([\s\S]*)\)/i);
-    if (!match) throw new Error('Invalid CREATE TABLE syntax');
-
-    const tableName = match[1];
-    // split on commas but tolerate newlines and extra spaces
-    const columnDefs = match[2]
-      .split(',')
-      .map(def => def.trim())
-      .filter(Boolean);
-
-    const columns: ColumnDefinition[] = columnDefs.map(def => {
-      // Basic tokenization; ignore inline DEFAULT clauses and constraints we don't fully support
-      const parts = def.split(/\s+/);
-      const name = parts[0];
-      const rawType = parts[1] ? parts[1].toLowerCase() : 'string';
-
-      // Map common SQL types to the simplified ColumnType used by the RDBMS
-      let type: ColumnType;
-      if (/^varchar\(/i.test(rawType) || /^char\(/i.test(rawType) || rawType === 'text' || /^timestamp/i.test(rawType)) {
-        type = 'string';
-      } else if (/^serial/i.test(rawType) || /^int(er)?$/i.test(rawType) || /^number$/i.test(rawType) || /^bigint/i.test(rawType)) {
-        type = 'number';
-      } else if (/^bool(ean)?$/i.test(rawType)) {
-        type = 'boolean';
+    }
+    if (this.matchKeyword('DESCRIBE') || this.matchKeyword('DESC')) {
+      return { type: 'DESCRIBE', tableName: this.expectIdentifier('table name') };
+    }
+    if (this.matchWord('COPY')) {
+      return this.parseCopy();
+    }
+    if (this.matchWord('EXPLAIN')) {
+      const analyze = this.matchWord('ANALYZE');
+      const start = this.peek();
+      const query = this.parseStatement();
+      if (query.type !== 'SELECT' && query.type !== 'UPDATE' && query.type !== 'DELETE') {
+        throw this.error('EXPLAIN supports only SELECT, UPDATE and DELETE', start);
+      }
+      return { type: 'EXPLAIN', analyze, query };
+    }
+    if (this.matchWord('BEGIN')) {
+      this.matchTransactionWord();
+      return { type: 'BEGIN' };
+    }
+    if (this.matchWord('START')) {
+      this.expectWord('TRANSACTION');
+      return { type: 'BEGIN' };
+    }
+    if (this.matchWord('COMMIT') || this.matchKeyword('END')) {
+      this.matchTransactionWord();
+      return { type: 'COMMIT' };
+    }
+    if (this.matchWord('ROLLBACK')) {
+      this.matchTransactionWord();
+      if (this.matchWord('TO')) {
+        this.matchWord('SAVEPOINT');
+        return { type: 'ROLLBACK', savepoint: this.expectIdentifier('savepoint name') };
+      }
+      return { type: 'ROLLBACK' };
+    }
+    if (this.matchWord('SAVEPOINT')) {
+      return { type: 'SAVEPOINT', name: this.expectIdentifier('savepoint name') };
+    }
+    if (this.matchWord('RELEASE')) {
+      this.matchWord('SAVEPOINT');
+      return { type: 'RELEASE_SAVEPOINT', name: this.expectIdentifier('savepoint name') };
+    }
+
+    throw this.error(`Unsupported statement starting with ${this.describe(token)}`, token);
+  }
+
+  // BEGIN, COMMIT and ROLLBACK may be followed by a noise word
+  private matchTransactionWord(): void {
+    if (!this.matchWord('TRANSACTION')) {
+      this.matchWord('WORK');
+    }
+  }
+
+  private parseCreateTable(): CreateTableQuery {
+    const tableName = this.expectIdentifier('table name');
+    this.expectSymbol('(');
+
+    const columns: ColumnDefinition[] = [];
+    const uniqueKeys: UniqueKey[] = [];
+    const checks: Expression[] = [];
+    do {
+      if (this.matchWord('FOREIGN')) {
+        this.parseTableForeignKey(columns);
+      } else if (this.matchKeyword('PRIMARY')) {
+        this.expectWord('KEY');
+        this.parseTableKey(columns, uniqueKeys, true);
+      } else if (this.matchKeyword('UNIQUE')) {
+        this.parseTableKey(columns, uniqueKeys, false);
+      } else if (this.isCheckStart()) {
+        this.advance();
+        checks.push(this.parseCheck());
       } else {
-        // default fallback
-        type = 'string';
+        columns.push(this.parseColumnDefinition());
       }
+    } while (this.matchSymbol(','));
+
+    this.expectSymbol(')');
+
+    return { type: 'CREATE_TABLE', tableName, columns, uniqueKeys, checks };
+  }
 
-      const column: ColumnDefinition = {
-        name,
-        type,
-        nullable: true,
-      };
+  private parseColumnDefinition(): ColumnDefinition {
+    const name = this.expectIdentifier('column name');
+    const typeToken = this.peek();
+    // Columns declared without a type hold strings
+    const type: DataType = typeToken.type === 'identifier' ? this.parseDataType() : { type: 'string' };
+    const column: ColumnDefinition = { name, ...type, nullable: true };
+    if (typeToken.type === 'identifier' && typeToken.value.toLowerCase() === 'serial') {
+      column.autoIncrement = true;
+      column.nullable = false;
+    }
 
-      const upperDef = def.toUpperCase();
-      if (upperDef.includes('PRIMARY KEY')) {
+    for (;;) {
+      if (this.matchKeyword('PRIMARY')) {
+        this.expectWord('KEY');
         column.primaryKey = true;
         column.nullable = false;
-      }
-      if (upperDef.includes('UNIQUE')) {
+      } else if (this.matchKeyword('UNIQUE')) {
         column.unique = true;
-      }
-      if (upperDef.includes('NOT NULL')) {
+      } else if (this.matchKeyword('NOT')) {
+        this.expectNull();
         column.nullable = false;
+      } else if (this.peek().type === 'null') {
+        this.advance();
+      } else if (this.matchWord('REFERENCES')) {
+        column.references = this.parseReferences();
+      } else if (this.matchKeyword('DEFAULT')) {
+        if (column.autoIncrement) {
+          throw this.error(`SERIAL column ${name} cannot have a DEFAULT`, this.tokens[this.position - 1]);
+        }
+        column.default = this.parseOperand();
+      } else if (this.isCheckStart()) {
+        this.advance();
+        const check = this.parseCheck();
+        column.check = column.check ? { type: 'AND', left: column.check, right: check } : check;
+      } else {
+        return column;
+      }
+    }
+  }
+
+  // A type name with its arguments: DECIMAL(precision, scale), or a length such as VARCHAR(255)
+  private parseDataType(): DataType {
+    const token = this.peek();
+    const name = this.expectIdentifier('type name').toLowerCase();
+    const type = TYPE_NAMES.get(name);
+    if (!type) {
+      throw this.error(`Unknown type ${name}`, token);
+    }
+    if (name === 'double') {
+      this.matchWord('PRECISION');
+    }
+
+    if (type === 'decimal') {
+      const decimal = { type, precision: MAX_DECIMAL_PRECISION, scale: 0 };
+      if (this.matchSymbol('(')) {
+        const precisionToken = this.peek();
+        decimal.precision = this.parseInteger('Precision');
+        if (decimal.precision < 1 || decimal.precision > MAX_DECIMAL_PRECISION) {
+          throw this.error(`Precision must be between 1 and ${MAX_DECIMAL_PRECISION}`, precisionToken);
+        }
+        if (this.matchSymbol(',')) {
+          const scaleToken = this.peek();
+          decimal.scale = this.parseInteger('Scale');
+          if (decimal.scale < 0 || decimal.scale > decimal.precision) {
+            throw this.error(`Scale must be between 0 and the precision, ${decimal.precision}`, scaleToken);
+          }
+        }
+        this.expectSymbol(')');
+      }
+      return decimal;
+    }
+
+    // The length of strings and the precision of timestamps are accepted but not enforced
+    if (this.matchSymbol('(')) {
+      if (type !== 'string' && type !== 'timestamp') {
+        throw this.error(`Type ${name} takes no arguments`, token);
+      }
+      this.expectNumber();
+      this.expectSymbol(')');
+    }
+    return { type };
+  }
+
+  // CHECK is not reserved, so a column may still be named check
+  private isCheckStart(): boolean {
+    const token = this.peek();
+    const next = this.peekAhead(1);
+    return (
+      token.type === 'identifier' &&
+      !token.quoted &&
+      token.value.toUpperCase() === 'CHECK' &&
+      next.type === 'symbol' &&
+      next.value === '('
+    );
+  }
+
+  private parseCheck(): Expression {
+    this.expectSymbol('(');
+    const check = this.parseExpression();
+    this.expectSymbol(')');
+    return check;
+  }
+
+  // A key on a single column is recorded on the column, like a column constraint
+  private parseTableKey(columns: ColumnDefinition[], uniqueKeys: UniqueKey[], primary: boolean): void {
+    this.expectSymbol('(');
+    const keyColumns: ColumnDefinition[] = [];
+    do {
+      const token = this.peek();
+      const name = this.expectIdentifier('column name');
+      const column = columns.find(col => col.name === name);
+      if (!column) {
+        throw this.error(`Column ${name} is not defined`, token);
+      }
+      if (keyColumns.includes(column)) {
+        throw this.error(`Column ${name} appears twice in the key`, token);
+      }
+      keyColumns.push(column);
+    } while (this.matchSymbol(','));
+    this.expectSymbol(')');
+
+    if (keyColumns.length === 1) {
+      if (primary) {
+        keyColumns[0].primaryKey = true;
+      } else {
+        keyColumns[0].unique = true;
+      }
+    } else {
+      uniqueKeys.push({ columns: keyColumns.map(col => col.name), primary });
+    }
+    if (primary) {
+      keyColumns.forEach(col => (col.nullable = false));
+    }
+  }
+
+  // FOREIGN KEY (column) REFERENCES table [(column)], after the column has been defined
+  private parseTableForeignKey(columns: ColumnDefinition[]): void {
+    this.expectWord('KEY');
+    this.expectSymbol('(');
+    const token = this.peek();
+    const name = this.expectIdentifier('column name');
+    if (this.matchSymbol(',')) {
+      throw this.error('Foreign keys on more than one column are not supported', token);
+    }
+    this.expectSymbol(')');
+
+    const column = columns.find(col => col.name === name);
+    if (!column) {
+      throw this.error(`Column ${name} is not defined`, token);
+    }
+    this.expectWord('REFERENCES');
+    column.references = this.parseReferences();
+  }
+
+  // table [(column)] [ON DELETE action] [ON UPDATE action]; the column defaults to the primary key
+  private parseReferences(): ForeignKey {
+    const table = this.expectIdentifier('table name');
+    let column = '';
+    if (this.matchSymbol('(')) {
+      column = this.expectIdentifier('column name');
+      this.expectSymbol(')');
+    }
+
+    const foreignKey: ForeignKey = { table, column, onDelete: 'RESTRICT', onUpdate: 'RESTRICT' };
+    while (this.matchKeyword('ON')) {
+      if (this.matchKeyword('DELETE')) {
+        foreignKey.onDelete = this.parseReferentialAction();
+      } else if (this.matchKeyword('UPDATE')) {
+        foreignKey.onUpdate = this.parseReferentialAction();
+      } else {
+        throw this.error(`Expected DELETE or UPDATE but found ${this.describe(this.peek())}`);
+      }
+    }
+    return foreignKey;
+  }
+
+  private parseReferentialAction(): ReferentialAction {
+    if (this.matchWord('RESTRICT')) return 'RESTRICT';
+    if (this.matchWord('CASCADE')) return 'CASCADE';
+    // Without deferred constraints, NO ACTION behaves like RESTRICT
+    if (this.matchWord('NO')) {
+      this.expectWord('ACTION');
+      return 'RESTRICT';
+    }
+    if (this.matchKeyword('SET')) {
+      this.expectNull();
+      return 'SET NULL';
+    }
+    throw this.error(`Expected RESTRICT, CASCADE, SET NULL or NO ACTION but found ${this.describe(this.peek())}`);
+  }
+
+  private parseCreateSequence(): CreateSequenceQuery {
+    const query: CreateSequenceQuery = { type: 'CREATE_SEQUENCE', name: this.expectIdentifier('sequence name') };
+
+    for (;;) {
+      if (this.matchWord('START')) {
+        this.matchWord('WITH');
+        query.start = this.parseInteger('START');
+      } else if (this.matchWord('INCREMENT')) {
+        this.matchKeyword('BY');
+        const token = this.peek();
+        query.increment = this.parseInteger('INCREMENT');
+        if (query.increment === 0) {
+          throw this.error('INCREMENT cannot be zero', token);
+        }
+      } else {
+        return query;
+      }
+    }
+  }
+
+  // CREATE [UNIQUE] INDEX name ON table [USING hash | btree] (column, ...)
+  private parseCreateIndex(unique: boolean): CreateIndexQuery {
+    const name = this.expectIdentifier('index name');
+    this.expectKeyword('ON');
+    const tableName = this.expectIdentifier('table name');
+
+    const query: CreateIndexQuery = { type: 'CREATE_INDEX', name, tableName, columns: [], unique };
+    if (this.matchWord('USING')) {
+      const token = this.peek();
+      const method = this.expectIdentifier('index method').toLowerCase();
+      if (method !== 'hash' && method !== 'btree') {
+        throw this.error(`Unknown index method ${method} (expected hash or btree)`, token);
       }
+      query.method = method;
+    }
+
+    this.expectSymbol('(');
+    query.columns = this.parseIdentifierList('column name');
+    this.expectSymbol(')');
+    return query;
+  }
 
-      return column;
-    });
+  private parseDropTable(): DropTableQuery {
+    const tableName = this.expectIdentifier('table name');
+    const cascade = this.matchWord('CASCADE');
+    if (!cascade) {
+      this.matchWord('RESTRICT');
+    }
+    return { type: 'DROP_TABLE', tableName, cascade };
+  }
 
-    return { type: 'CREATE_TABLE', tableName, columns };
+  // ALTER TABLE name followed by one of
+  //   ADD [COLUMN] definition | ADD UNIQUE (column, ...)
+  //   DROP [COLUMN] column [CASCADE | RESTRICT] | DROP CONSTRAINT name
+  //   RENAME [COLUMN] column TO new_name | RENAME TO new_name
+  //   ALTER [COLUMN] column SET NOT NULL | DROP NOT NULL
+  private parseAlterTable(): AlterTableQuery {
+    const tableName = this.expectIdentifier('table name');
+    return { type: 'ALTER_TABLE', tableName, action: this.parseAlterAction() };
   }
 
-  private parseDropTable(sql: string): DropTableQuery {
-    const match = sql.match(/DROP TABLE\s+(\w+)/i);
-    if (!match) throw new Error('Invalid DROP TABLE syntax');
+  private parseAlterAction(): AlterTableAction {
+    if (this.matchWord('ADD')) {
+      if (this.matchKeyword('UNIQUE')) {
+        this.expectSymbol('(');
+        const columns = this.parseIdentifierList('column name');
+        this.expectSymbol(')');
+        return { type: 'ADD_UNIQUE', columns };
+      }
+      this.matchWord('COLUMN');
+      return { type: 'ADD_COLUMN', column: this.parseColumnDefinition() };
+    }
+
+    if (this.matchKeyword('DROP')) {
+      if (this.matchWord('CONSTRAINT')) {
+        return { type: 'DROP_CONSTRAINT', name: this.expectIdentifier('constraint name') };
+      }
+      this.matchWord('COLUMN');
+      const column = this.expectIdentifier('column name');
+      const cascade = this.matchWord('CASCADE');
+      if (!cascade) {
+        this.matchWord('RESTRICT');
+      }
+      return { type: 'DROP_COLUMN', column, cascade };
+    }
+
+    if (this.matchWord('RENAME')) {
+      if (this.matchWord('TO')) {
+        return { type: 'RENAME_TABLE', newName: this.expectIdentifier('table name') };
+      }
+      this.matchWord('COLUMN');
+      const column = this.expectIdentifier('column name');
+      this.expectWord('TO');
+      return { type: 'RENAME_COLUMN', column, newName: this.expectIdentifier('column name') };
+    }
+
+    if (this.matchWord('ALTER')) {
+      this.matchWord('COLUMN');
+      const column = this.expectIdentifier('column name');
+      let nullable: boolean;
+      if (this.matchKeyword('SET')) {
+        nullable = false;
+      } else if (this.matchKeyword('DROP')) {
+        nullable = true;
+      } else {
+        throw this.error(`Expected SET NOT NULL or DROP NOT NULL but found ${this.describe(this.peek())}`);
+      }
+      this.expectKeyword('NOT');
+      this.expectNull();
+      return { type: 'SET_NULLABLE', column, nullable };
+    }
 
-    return { type: 'DROP_TABLE', tableName: match[1] };
+    throw this.error(`Expected ADD, DROP, RENAME or ALTER but found ${this.describe(this.peek())}`);
   }
 
-  private parseInsert(sql: string): InsertQuery {
-    const match = sql.match(/INSERT INTO\s+(\w+)\s*(?:\((.*?)\))?\s*VALUES\s*\((.*?)\)/i);
-    if (!match) throw new Error('Invalid INSERT syntax');
+  private parseInsert(): InsertQuery {
+    const tableName = this.expectIdentifier('table name');
 
-    const tableName = match[1];
-    const columns = match[2] ? match[2].split(',').map(c => c.trim()) : undefined;
-    const valuesStr = match[3];
+    let columns: string[] | undefined;
+    if (this.matchSymbol('(')) {
+      columns = this.parseIdentifierList('column name');
+      this.expectSymbol(')');
+    }
+
+    this.expectKeyword('VALUES');
+    this.expectSymbol('(');
+    const values: Expression[] = [];
+    do {
+      values.push(this.parseExpression());
+    } while (this.matchSymbol(','));
+    this.expectSymbol(')');
 
-    const values = this.parseValues(valuesStr);
+    if (columns && columns.length !== values.length) {
+      throw this.error(`INSERT has ${columns.length} column(s) but ${values.length} value(s)`);
+    }
 
     return { type: 'INSERT', tableName, columns, values };
   }
 
-  private parseSelect(sql: string): SelectQuery {
-    const selectMatch = sql.match(/SELECT\s+(.*?)\s+FROM\s+(\w+)(.*)/i);
-    if (!selectMatch) throw new Error('Invalid SELECT syntax');
+  private parseSelect(): SelectQuery {
+    const distinct = this.matchKeyword('DISTINCT');
+    const columns: SelectItem[] = [];
+    do {
+      if (this.matchSymbol('*')) {
+        columns.push({ type: 'ALL' });
+      } else if (this.isQualifiedStar()) {
+        const table = this.expectIdentifier('table name');
+        this.expectSymbol('.');
+        this.expectSymbol('*');
+        columns.push({ type: 'ALL', table });
+      } else {
+        const expression = this.parseExpression();
+        const alias = this.matchKeyword('AS') || this.peek().type === 'identifier' ? this.expectIdentifier('column alias') : undefined;
+        columns.push({ type: 'EXPRESSION', expression, name: alias ?? this.formatter.formatExpression(expression) });
+      }
+    } while (this.matchSymbol(','));
+
+    const from = this.matchKeyword('FROM') ? this.parseTableReference() : undefined;
 
-    const columnsStr = selectMatch[1].trim();
-    const columns = columnsStr === '*' ? ['*'] : columnsStr.split(',').map(c => c.trim());
-    const from = selectMatch[2];
-    const rest = selectMatch[3].trim();
+    const joins: JoinClause[] = [];
+    while (from) {
+      // A comma-separated FROM list is shorthand for CROSS JOIN
+      if (this.matchSymbol(',')) {
+        joins.push({ type: 'CROSS', table: this.parseTableReference() });
+        continue;
+      }
+
+      const type = this.parseJoinType();
+      if (!type) break;
+
+      const table = this.parseTableReference();
+      if (type === 'CROSS') {
+        joins.push({ type, table });
+      } else {
+        this.expectKeyword('ON');
+        joins.push({ type, table, on: this.parseExpression() });
+      }
+    }
 
-    let join: JoinClause | undefined;
-    let where: WhereClause[] | undefined;
+    const where = this.matchKeyword('WHERE') ? this.parseExpression() : undefined;
 
-    const joinMatch = rest.match(/(?:INNER|LEFT)\s+JOIN\s+(\w+)\s+ON\s+(\w+)\.(\w+)\s*=\s*(\w+)\.(\w+)/i);
-    if (joinMatch) {
-      const joinType = rest.toUpperCase().includes('LEFT') ? 'LEFT' : 'INNER';
-      join = {
-        type: joinType,
-        table: joinMatch[1],
-        on: {
-          leftColumn: `${joinMatch[2]}.${joinMatch[3]}`,
-          rightColumn: `${joinMatch[4]}.${joinMatch[5]}`,
-        },
-      };
+    let groupBy: Expression[] | undefined;
+    if (this.matchKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      groupBy = [];
+      do {
+        groupBy.push(this.parseExpression());
+      } while (this.matchSymbol(','));
     }
 
-    const whereMatch = rest.match(/WHERE\s+(.+?)(?:ORDER BY|GROUP BY|$)/i);
-    if (whereMatch) {
-      where = this.parseWhere(whereMatch[1]);
+    const having = this.matchKeyword('HAVING') ? this.parseExpression() : undefined;
+
+    let orderBy: OrderByClause[] | undefined;
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      orderBy = [];
+      do {
+        orderBy.push(this.parseOrderByItem(columns));
+      } while (this.matchSymbol(','));
+    }
+
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.matchKeyword('LIMIT')) {
+      limit = this.expectRowCount('LIMIT');
+    }
+    if (this.matchKeyword('OFFSET')) {
+      offset = this.expectRowCount('OFFSET');
     }
 
-    return { type: 'SELECT', columns, from, where, join };
+    return { type: 'SELECT', columns, from, joins, where, groupBy, having, orderBy, limit, offset, distinct };
   }
 
-  private parseUpdate(sql: string): UpdateQuery {
-    const match = sql.match(/UPDATE\s+(\w+)\s+SET\s+(.*?)(?:\s+WHERE\s+(.+))?$/i);
-    if (!match) throw new Error('Invalid UPDATE syntax');
+  private parseOrderByItem(columns: SelectItem[]): OrderByClause {
+    let expression = this.parseExpression();
+    // A bare name of a result column, such as an alias, stands for the column's expression
+    if (expression.type === 'COLUMN' && expression.table === undefined) {
+      const name = expression.column;
+      const item = columns.find(column => column.type === 'EXPRESSION' && column.name === name);
+      if (item?.type === 'EXPRESSION') {
+        expression = item.expression;
+      }
+    }
 
-    const tableName = match[1];
-    const setClause = match[2];
-    const whereClause = match[3];
+    let direction: OrderByClause['direction'] = 'ASC';
+    if (this.matchKeyword('DESC')) {
+      direction = 'DESC';
+    } else {
+      this.matchKeyword('ASC');
+    }
 
-    const set: Record<string, string | number | boolean> = {};
-    setClause.split(',').forEach(pair => {
-      const [key, value] = pair.split('=').map(s => s.trim());
-      set[key] = this.parseValue(value);
-    });
+    // NULLs compare as larger than any value unless NULLS FIRST/LAST says otherwise
+    let nulls: OrderByClause['nulls'] = direction === 'ASC' ? 'LAST' : 'FIRST';
+    if (this.matchWord('NULLS')) {
+      if (this.matchWord('FIRST')) {
+        nulls = 'FIRST';
+      } else {
+        this.expectWord('LAST');
+        nulls = 'LAST';
+      }
+    }
 
-    const where = whereClause ? this.parseWhere(whereClause) : undefined;
+    return { expression, direction, nulls };
+  }
 
-    return { type: 'UPDATE', tableName, set, where };
+  private expectRowCount(clause: string): number {
+    const token = this.peek();
+    const value = this.expectNumber();
+    if (!Number.isInteger(value)) {
+      throw this.error(`${clause} must be a non-negative integer`, token);
+    }
+    return value;
+  }
+
+  private isQualifiedStar(): boolean {
+    const dot = this.peekAhead(1);
+    const star = this.peekAhead(2);
+    return (
+      this.peek().type === 'identifier' &&
+      dot.type === 'symbol' &&
+      dot.value === '.' &&
+      star.type === 'symbol' &&
+      star.value === '*'
+    );
+  }
+
+  private parseTableReference(): TableReference {
+    if (this.matchSymbol('(')) {
+      const query = this.parseSubquery();
+      this.matchKeyword('AS');
+      return { type: 'SUBQUERY', query, alias: this.expectIdentifier('alias for the derived table') };
+    }
+
+    const name = this.expectIdentifier('table name');
+
+    if (this.matchKeyword('AS')) {
+      return { type: 'TABLE', name, alias: this.expectIdentifier('table alias') };
+    }
+    if (this.peek().type === 'identifier') {
+      return { type: 'TABLE', name, alias: this.expectIdentifier('table alias') };
+    }
+    return { type: 'TABLE', name };
+  }
+
+  // Parses the rest of "(SELECT ...)" once the opening parenthesis is consumed
+  private parseSubquery(): SelectQuery {
+    this.expectKeyword('SELECT');
+    const query = this.parseSelect();
+    this.expectSymbol(')');
+    return query;
+  }
+
+  private isSubqueryStart(): boolean {
+    const next = this.peekAhead(1);
+    return this.peek().type === 'symbol' && this.peek().value === '(' && next.type === 'keyword' && next.value === 'SELECT';
+  }
+
+  private parseJoinType(): JoinType | undefined {
+    if (this.matchKeyword('JOIN')) {
+      return 'INNER';
+    }
+    if (this.matchKeyword('INNER')) {
+      this.expectKeyword('JOIN');
+      return 'INNER';
+    }
+    if (this.matchKeyword('CROSS')) {
+      this.expectKeyword('JOIN');
+      return 'CROSS';
+    }
+
+    let type: JoinType | undefined;
+    if (this.matchKeyword('LEFT')) {
+      type = 'LEFT';
+    } else if (this.matchKeyword('RIGHT')) {
+      type = 'RIGHT';
+    } else if (this.matchKeyword('FULL')) {
+      type = 'FULL';
+    }
+
+    if (type) {
+      this.matchKeyword('OUTER');
+      this.expectKeyword('JOIN');
+    }
+    return type;
+  }
+
+  private parseCopy(): CopyQuery {
+    let tableName: string | undefined;
+    let columns: string[] | undefined;
+    let query: SelectQuery | undefined;
+
+    if (this.matchSymbol('(')) {
+      this.expectKeyword('SELECT');
+      query = this.parseSelect();
+      this.expectSymbol(')');
+    } else {
+      tableName = this.expectIdentifier('table name');
+      if (this.matchSymbol('(')) {
+        columns = this.parseIdentifierList('column name');
+        this.expectSymbol(')');
+      }
+    }
+
+    let direction: 'FROM' | 'TO';
+    if (this.matchKeyword('FROM')) {
+      if (query) {
+        throw this.error('COPY FROM requires a table, not a query', this.tokens[this.position - 1]);
+      }
+      direction = 'FROM';
+    } else {
+      this.expectWord('TO');
+      direction = 'TO';
+    }
+
+    const file = this.expectString('file name');
+    const options = this.parseCopyOptions();
+
+    return { type: 'COPY', direction, tableName, columns, query, file, options };
+  }
+
+  // [WITH] (FORMAT csv | json, HEADER [TRUE | FALSE], DELIMITER 'c', NULL 'text')
+  private parseCopyOptions(): CopyOptions {
+    const options: CopyOptions = {};
+    const hasWith = this.matchWord('WITH');
+    if (!this.matchSymbol('(')) {
+      if (hasWith) {
+        throw this.error(`Expected ( but found ${this.describe(this.peek())}`);
+      }
+      return options;
+    }
+
+    do {
+      const token = this.peek();
+      if (this.matchWord('FORMAT')) {
+        const format = this.expectIdentifier('format').toLowerCase();
+        if (format !== 'csv' && format !== 'json') {
+          throw this.error(`Unknown COPY format ${format}`, token);
+        }
+        options.format = format;
+      } else if (this.matchWord('HEADER')) {
+        const value = this.peek();
+        options.header = value.type === 'boolean' ? this.advance().value === 'TRUE' : true;
+      } else if (this.matchWord('DELIMITER')) {
+        options.delimiter = this.expectString('delimiter');
+        if (options.delimiter.length !== 1) {
+          throw this.error('COPY delimiter must be a single character', token);
+        }
+      } else if (token.type === 'null') {
+        this.advance();
+        options.null = this.expectString('NULL text');
+      } else {
+        throw this.error(`Unknown COPY option ${this.describe(token)}`);
+      }
+    } while (this.matchSymbol(','));
+
+    this.expectSymbol(')');
+    return options;
   }
 
-  private parseDelete(sql: string): DeleteQuery {
-    const match = sql.match(/DELETE FROM\s+(\w+)(?:\s+WHERE\s+(.+))?$/i);
-    if (!match) throw new Error('Invalid DELETE syntax');
+  private parseUpdate(): UpdateQuery {
+    const tableName = this.expectIdentifier('table name');
+    this.expectKeyword('SET');
 
-    const from = match[1];
-    const whereClause = match[2];
+    const set: Record<string, Expression> = {};
+    do {
+      const column = this.expectIdentifier('column name');
+      this.expectSymbol('=');
+      set[column] = this.parseExpression();
+    } while (this.matchSymbol(','));
 
-    const where = whereClause ? this.parseWhere(whereClause) : undefined;
+    const where = this.matchKeyword('WHERE') ? this.parseExpression() : undefined;
+
+    return { type: 'UPDATE', tableName, set, where };
+  }
+
+  private parseDelete(): DeleteQuery {
+    const from = this.expectIdentifier('table name');
+    const where = this.matchKeyword('WHERE') ? this.parseExpression() : undefined;
 
     return { type: 'DELETE', from, where };
   }
 
-  private parseDescribe(sql: string): DescribeTableQuery {
-    const match = sql.match(/(?:DESCRIBE|DESC)\s+(\w+)/i);
-    if (!match) throw new Error('Invalid DESCRIBE syntax');
+  // Precedence from lowest to highest: OR, AND, NOT, comparison and the
+  // LIKE / IN / BETWEEN / IS NULL predicates, ||, + and -, * / and %,
+  // unary minus, -> and ->>
+  private parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.matchKeyword('OR')) {
+      left = { type: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND')) {
+      left = { type: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.matchKeyword('NOT')) {
+      return { type: 'NOT', operand: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    if (this.matchKeyword('EXISTS')) {
+      this.expectSymbol('(');
+      return { type: 'EXISTS', query: this.parseSubquery() };
+    }
+
+    const left = this.parseOperand();
+
+    if (this.matchKeyword('IS')) {
+      const negated = this.matchKeyword('NOT');
+      this.expectNull();
+      return { type: 'IS_NULL', operand: left, negated };
+    }
+
+    const negated = this.matchKeyword('NOT');
+
+    if (this.matchKeyword('LIKE')) {
+      return { type: 'LIKE', operand: left, pattern: this.parseOperand(), caseInsensitive: false, negated };
+    }
+    if (this.matchKeyword('ILIKE')) {
+      return { type: 'LIKE', operand: left, pattern: this.parseOperand(), caseInsensitive: true, negated };
+    }
+    if (this.matchKeyword('IN')) {
+      this.expectSymbol('(');
+      if (this.peek().type === 'keyword' && this.peek().value === 'SELECT') {
+        return { type: 'IN_SUBQUERY', operand: left, query: this.parseSubquery(), negated };
+      }
+      const values: Expression[] = [];
+      do {
+        values.push(this.parseOperand());
+      } while (this.matchSymbol(','));
+      this.expectSymbol(')');
+      return { type: 'IN', operand: left, values, negated };
+    }
+    if (this.matchKeyword('BETWEEN')) {
+      const lower = this.parseOperand();
+      this.expectKeyword('AND');
+      const upper = this.parseOperand();
+      return { type: 'BETWEEN', operand: left, lower, upper, negated };
+    }
+    if (negated) {
+      throw this.error(`Expected LIKE, ILIKE, IN or BETWEEN after NOT but found ${this.describe(this.peek())}`);
+    }
+
+    const token = this.peek();
+    const operator = token.type === 'symbol' ? COMPARISON_OPERATORS[token.value] : undefined;
+    if (!operator) {
+      // A bare operand such as a boolean column is a predicate on its own
+      return left;
+    }
+    this.advance();
+
+    return { type: 'COMPARISON', operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Expression {
+    let left = this.parseAdditive();
+    while (this.matchSymbol('||')) {
+      left = { type: 'CONCAT', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
 
-    return { type: 'DESCRIBE', tableName: match[1] };
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const operator = this.matchArithmeticOperator('+', '-');
+      if (!operator) return left;
+      left = { type: 'ARITHMETIC', operator, left, right: this.parseMultiplicative() };
+    }
   }
 
-  private parseWhere(whereClause: string): WhereClause[] {
-    const conditions = whereClause.split(/\s+AND\s+/i);
-    return conditions.map(condition => {
-      const match = condition.match(/(\w+)\s*(=|!=|>|<|>=|<=)\s*(.+)/);
-      if (!match) throw new Error(`Invalid WHERE condition: ${condition}`);
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.matchArithmeticOperator('*', '/', '%');
+      if (!operator) return left;
+      left = { type: 'ARITHMETIC', operator, left, right: this.parseUnary() };
+    }
+  }
 
-      return {
-        column: match[1],
-        operator: match[2] as WhereClause['operator'],
-        value: this.parseValue(match[3]),
-      };
-    });
+  // A minus sign before a number is part of the literal
+  private parseUnary(): Expression {
+    if (this.peek().type === 'symbol' && this.peek().value === '-' && this.peekAhead(1).type !== 'number') {
+      this.advance();
+      return { type: 'NEGATE', operand: this.parseUnary() };
+    }
+    return this.parseJsonAccess();
   }
 
-  private parseValues(valuesStr: string): (string | number | boolean)[] {
-    return valuesStr.split(',').map(v => this.parseValue(v.trim()));
+  // An operand followed by any number of -> and ->> operators
+  private parseJsonAccess(): Expression {
+    let operand = this.parsePrimary();
+    for (;;) {
+      const asValue = this.matchSymbol('->>');
+      if (!asValue && !this.matchSymbol('->')) {
+        return operand;
+      }
+      operand = { type: 'JSON_ACCESS', operand, key: this.parsePrimary(), asValue };
+    }
   }
 
-  private parseValue(value: string): string | number | boolean {
-    value = value.trim();
+  private parsePrimary(): Expression {
+    if (this.peek().type === 'parameter') {
+      return this.parseParameter();
+    }
+
+    if (this.isSubqueryStart()) {
+      this.expectSymbol('(');
+      return { type: 'SUBQUERY', query: this.parseSubquery() };
+    }
 
-    if (value.toLowerCase() === 'true') return true;
-    if (value.toLowerCase() === 'false') return false;
+    if (this.matchSymbol('(')) {
+      const expression = this.parseExpression();
+      this.expectSymbol(')');
+      return expression;
+    }
 
-    if (value.startsWith("'") && value.endsWith("'")) {
-      return value.slice(1, -1);
+    if (this.matchKeyword('CASE')) {
+      return this.parseCase();
     }
-    if (value.startsWith('"') && value.endsWith('"')) {
-      return value.slice(1, -1);
+
+    const typedLiteral = this.parseTypedLiteral();
+    if (typedLiteral) {
+      return typedLiteral;
     }
 
-    const num = Number(value);
-    if (!isNaN(num)) return num;
+    if (this.peek().type === 'identifier') {
+      if (this.peekAhead(1).type === 'symbol' && this.peekAhead(1).value === '(') {
+        const token = this.peek();
+        return !token.quoted && token.value.toUpperCase() === 'CAST' ? this.parseCast() : this.parseFunctionCall();
+      }
 
+      const column = this.expectIdentifier('column name');
+      if (this.matchSymbol('.')) {
+        return { type: 'COLUMN', table: column, column: this.expectIdentifier('column name') };
+      }
+      return { type: 'COLUMN', column };
+    }
+
+    const token = this.peek().type === 'symbol' ? this.peekAhead(1) : this.peek();
+    const value = this.parseLiteral();
+    if (typeof value === 'number' && Number.isInteger(value) && /[.e]/i.test(token.value)) {
+      return { type: 'LITERAL', value, decimal: true };
+    }
+    return { type: 'LITERAL', value };
+  }
+
+  private parseFunctionCall(): Expression {
+    const token = this.peek();
+    if (!token.quoted && this.functions.has(token.value.toLowerCase())) {
+      return this.parseScalarFunctionCall();
+    }
+
+    const name = this.expectIdentifier('function name').toUpperCase() as AggregateFunction;
+    if (token.quoted || !AGGREGATE_FUNCTIONS.has(name)) {
+      throw this.error(`Unknown function '${token.value}'`, token);
+    }
+
+    this.expectSymbol('(');
+
+    if (name === 'COUNT' && this.matchSymbol('*')) {
+      this.expectSymbol(')');
+      return { type: 'AGGREGATE', function: name, distinct: false };
+    }
+
+    const distinct = this.matchKeyword('DISTINCT');
+    const argument = this.parseOperand();
+    this.expectSymbol(')');
+
+    return { type: 'AGGREGATE', function: name, argument, distinct };
+  }
+
+  private parseScalarFunctionCall(): Expression {
+    const token = this.peek();
+    const name = this.expectIdentifier('function name').toLowerCase();
+    this.expectSymbol('(');
+
+    const args: Expression[] = [];
+    if (!this.matchSymbol(')')) {
+      do {
+        args.push(this.parseOperand());
+      } while (this.matchSymbol(','));
+      this.expectSymbol(')');
+    }
+
+    const error = this.functions.checkArgumentCount(name, args.length);
+    if (error) {
+      throw this.error(error, token);
+    }
+    return { type: 'FUNCTION', name, arguments: args };
+  }
+
+  // The rest of CASE [operand] WHEN ... THEN ... [ELSE ...] END
+  private parseCase(): Expression {
+    const operand = this.peek().type === 'keyword' && this.peek().value === 'WHEN' ? undefined : this.parseOperand();
+    const branches: { when: Expression; then: Expression }[] = [];
+    this.expectKeyword('WHEN');
+    do {
+      // Without an operand, each WHEN holds a condition; with one, a value to compare it with
+      const when = operand ? this.parseOperand() : this.parseExpression();
+      this.expectKeyword('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    } while (this.matchKeyword('WHEN'));
+
+    const otherwise = this.matchKeyword('ELSE') ? this.parseExpression() : undefined;
+    this.expectKeyword('END');
+    return { type: 'CASE', operand, branches, else: otherwise };
+  }
+
+  // CAST(operand AS type)
+  private parseCast(): Expression {
+    this.advance();
+    this.expectSymbol('(');
+    const operand = this.parseOperand();
+    this.expectKeyword('AS');
+    const target = this.parseDataType();
+    this.expectSymbol(')');
+    return { type: 'CAST', operand, target };
+  }
+
+  // DATE '2024-01-31' or TIMESTAMP '2024-01-31 12:00', read into a literal of the canonical form
+  private parseTypedLiteral(): Expression | undefined {
+    const token = this.peek();
+    const type = token.type === 'identifier' && !token.quoted ? TYPE_NAMES.get(token.value.toLowerCase()) : undefined;
+    if (!type || !TYPED_LITERALS.has(type) || this.peekAhead(1).type !== 'string') {
+      return undefined;
+    }
+
+    this.advance();
+    const text = this.peek();
+    this.advance();
+    try {
+      return { type: 'LITERAL', value: this.converter.cast(text.value, { type }) };
+    } catch (error) {
+      throw this.error(error instanceof Error ? error.message : String(error), text);
+    }
+  }
+
+  // ? placeholders are numbered in order of appearance; $n ones can repeat a number
+  private parseParameter(): Expression {
+    const token = this.advance();
+    if (!this.placeholders) {
+      throw this.error('Parameters are only allowed in prepared statements', token);
+    }
+
+    const style = token.value === '?' ? '?' : '$';
+    if (this.parameterStyle && this.parameterStyle !== style) {
+      throw this.error('Cannot mix ? and $n parameters in one statement', token);
+    }
+    this.parameterStyle = style;
+
+    const index = style === '?' ? this.placeholders.length : Number(token.value.slice(1)) - 1;
+    if (index < 0) {
+      throw this.error('Parameters are numbered from $1', token);
+    }
+
+    this.placeholders.push({ offset: token.offset, length: token.value.length, index });
+    return { type: 'PARAMETER', index };
+  }
+
+  private parseIdentifierList(description: string): string[] {
+    const identifiers: string[] = [];
+    do {
+      identifiers.push(this.expectIdentifier(description));
+    } while (this.matchSymbol(','));
+    return identifiers;
+  }
+
+  private parseInteger(description: string): number {
+    const token = this.peek();
+    const value = this.parseLiteral();
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw this.error(`${description} must be an integer`, token);
+    }
     return value;
   }
+
+  private parseLiteral(): Value {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'string':
+        this.advance();
+        return token.value;
+      case 'number':
+        this.advance();
+        return this.numberValue(token);
+      case 'boolean':
+        this.advance();
+        return token.value === 'TRUE';
+      case 'null':
+        this.advance();
+        return null;
+      case 'symbol':
+        if (token.value === '-' || token.value === '+') {
+          this.advance();
+          const value = this.expectNumber();
+          return token.value === '-' ? -value : value;
+        }
+        break;
+    }
+
+    throw this.error(`Expected a literal value but found ${this.describe(token)}`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private peekAhead(distance: number): Token {
+    return this.tokens[Math.min(this.position + distance, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchArithmeticOperator(...operators: ArithmeticOperator[]): ArithmeticOperator | undefined {
+    const token = this.peek();
+    const operator = operators.find(candidate => token.type === 'symbol' && token.value === candidate);
+    if (operator) {
+      this.advance();
+    }
+    return operator;
+  }
+
+  private matchSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.value === symbol) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      throw this.error(`Expected ${keyword} but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.matchSymbol(symbol)) {
+      throw this.error(`Expected '${symbol}' but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  // Matches a non-reserved word such as TABLES or KEY
+  private matchWord(word: string): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === word) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectWord(word: string): void {
+    if (!this.matchWord(word)) {
+      throw this.error(`Expected ${word} but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  private expectNull(): void {
+    if (this.peek().type !== 'null') {
+      throw this.error(`Expected NULL but found ${this.describe(this.peek())}`);
+    }
+    this.advance();
+  }
+
+  private expectIdentifier(description: string): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.error(`Expected ${description} but found ${this.describe(token)}`);
+    }
+    this.advance();
+    return token.value;
+  }
+
+  private expectNumber(): number {
+    const token = this.peek();
+    if (token.type !== 'number') {
+      throw this.error(`Expected a number but found ${this.describe(token)}`);
+    }
+    this.advance();
+    return this.numberValue(token);
+  }
+
+  // Numbers too large for a double, such as 1e400, would become Infinity
+  private numberValue(token: Token): number {
+    const value = Number(token.value);
+    if (!Number.isFinite(value)) {
+      throw this.error(`Numeric value ${token.value} is out of range`, token);
+    }
+    return value;
+  }
+
+  private expectString(description: string): string {
+    const token = this.peek();
+    if (token.type !== 'string') {
+      throw this.error(`Expected ${description} but found ${this.describe(token)}`);
+    }
+    this.advance();
+    return token.value;
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of input';
+      case 'string':
+        return `string '${token.value}'`;
+      case 'parameter':
+        return `parameter ${token.value}`;
+      case 'identifier':
+        return token.quoted ? `identifier "${token.value}"` : `'${token.value}'`;
+      default:
+        return `'${token.value}'`;
+    }
+  }
+
+  private error(message: string, token: Token = this.peek()): SQLSyntaxError {
+    return new SQLSyntaxError(message, token.line, token.column);
+  }
 }
@@ -0,0 +1,673 @@
+import { Database } from './Database';
+import { Table, IndexInfo } from './Table';
+import {
+  ComparisonOperator,
+  Expression,
+  IndexBound,
+  IndexKey,
+  IndexRange,
+  JoinClause,
+  JoinMethod,
+  OrderByClause,
+  TableReference,
+} from './types';
+import type { SelectQuery } from './QueryParser';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { SQLFormatter } from './SQLFormatter';
+
+// What a step of a plan did when it ran, reported by EXPLAIN ANALYZE
+export interface PlanStats {
+  // Over all loops
+  rows: number;
+  loops: number;
+  // Milliseconds, including the time spent in the steps below
+  time?: number;
+}
+
+interface PlanStep {
+  actual?: PlanStats;
+}
+
+// Reads every row of a table
+export interface SeqScanNode extends PlanStep {
+  type: 'SEQ_SCAN';
+  table: string;
+  // The name the query refers to the table by
+  alias: string;
+  // The WHERE clause of an UPDATE or DELETE, which is applied while scanning
+  filter?: Expression;
+}
+
+// Reads the rows of a table through an index: the rows with a key, or the rows within a range in key order
+export interface IndexScanNode extends PlanStep {
+  type: 'INDEX_SCAN';
+  table: string;
+  alias: string;
+  index: string;
+  key?: IndexKey;
+  range?: IndexRange;
+  // Inside a join, the column of the joined rows whose value is looked up, instead of key
+  outerColumn?: Expression;
+  // Rows with a NULL key are not indexed, so a scan of a whole index in ORDER BY order adds them
+  nulls?: 'FIRST' | 'LAST';
+  // The conditions the index answers, shown by EXPLAIN
+  indexConditions: Expression[];
+  filter?: Expression;
+}
+
+export interface SubqueryScanNode extends PlanStep {
+  type: 'SUBQUERY_SCAN';
+  alias: string;
+  query: SelectQuery;
+  plan: PlanNode;
+}
+
+// The single row of a SELECT without FROM
+export interface ResultNode extends PlanStep {
+  type: 'RESULT';
+}
+
+// For every left row, looks at every right row, or only those the right index scan finds
+export interface NestedLoopNode extends PlanStep {
+  type: 'NESTED_LOOP';
+  join: JoinClause;
+  left: PlanNode;
+  right: PlanNode;
+}
+
+// Puts the right rows in a hash table by their join keys, then looks up the matches of each left row
+export interface HashJoinNode extends PlanStep {
+  type: 'HASH_JOIN';
+  join: JoinClause;
+  // Columns the ON condition compares with =, pairwise: leftKeys[i] = rightKeys[i]
+  leftKeys: Expression[];
+  rightKeys: Expression[];
+  left: PlanNode;
+  right: PlanNode;
+}
+
+// Walks left rows that come sorted on the join column alongside right rows read in the same order from an index
+export interface MergeJoinNode extends PlanStep {
+  type: 'MERGE_JOIN';
+  join: JoinClause;
+  leftKey: Expression;
+  rightKey: Expression;
+  left: PlanNode;
+  right: IndexScanNode;
+}
+
+export interface FilterNode extends PlanStep {
+  type: 'FILTER';
+  condition: Expression;
+  input: PlanNode;
+}
+
+export interface AggregateNode extends PlanStep {
+  type: 'AGGREGATE';
+  groupBy?: Expression[];
+  having?: Expression;
+  input: PlanNode;
+}
+
+export interface SortNode extends PlanStep {
+  type: 'SORT';
+  orderBy: OrderByClause[];
+  input: PlanNode;
+}
+
+// Drops rows whose selected values repeat those of an earlier row, for SELECT DISTINCT
+export interface UniqueNode extends PlanStep {
+  type: 'UNIQUE';
+  input: PlanNode;
+}
+
+export interface LimitNode extends PlanStep {
+  type: 'LIMIT';
+  limit?: number;
+  offset?: number;
+  input: PlanNode;
+}
+
+export interface ModifyNode extends PlanStep {
+  type: 'MODIFY';
+  operation: 'UPDATE' | 'DELETE';
+  table: string;
+  input: SeqScanNode | IndexScanNode;
+}
+
+export type PlanNode =
+  | SeqScanNode
+  | IndexScanNode
+  | SubqueryScanNode
+  | ResultNode
+  | NestedLoopNode
+  | HashJoinNode
+  | MergeJoinNode
+  | FilterNode
+  | AggregateNode
+  | SortNode
+  | UniqueNode
+  | LimitNode
+  | ModifyNode;
+
+// The conditions that compare one column of a table with constants
+interface ColumnConditions {
+  // The first comparison for equality, kept only if the range allows a single key
+  equal?: Expression;
+  range: IndexRange;
+  conditions: Expression[];
+}
+
+export type JoinNode = NestedLoopNode | HashJoinNode | MergeJoinNode;
+
+// A condition of an ON clause that compares a column of the joined table with one of the tables before it
+interface JoinKey {
+  left: Expression & { type: 'COLUMN' };
+  right: Expression & { type: 'COLUMN' };
+  condition: Expression;
+}
+
+// The column rows come sorted on, and the bounds of its values
+interface RowOrder {
+  alias: string;
+  column: string;
+  range: IndexRange;
+}
+
+// The operator with its operands swapped: 5 < x is x > 5
+const REVERSED: Record<ComparisonOperator, ComparisonOperator> = {
+  '=': '=',
+  '!=': '!=',
+  '<': '>',
+  '>': '<',
+  '<=': '>=',
+  '>=': '<=',
+};
+
+/**
+ * Chooses how a statement runs: whether each table is scanned or read
+ * through an index, how tables are joined, and which steps follow. The
+ * database keeps no statistics, so the choice follows fixed rules: looking
+ * up a key beats reading a range, which beats reading a whole table, and a
+ * unique index beats one that is not.
+ */
+export class QueryPlanner {
+  private database: Database;
+  private evaluator: ExpressionEvaluator;
+  private formatter: SQLFormatter;
+  private joinMethods: Set<JoinMethod>;
+
+  constructor(database: Database, joinMethods: JoinMethod[] = ['index', 'hash', 'merge']) {
+    this.database = database;
+    this.joinMethods = new Set(joinMethods);
+    this.evaluator = new ExpressionEvaluator();
+    this.formatter = new SQLFormatter();
+  }
+
+  planSelect(query: SelectQuery): PlanNode {
+    let node: PlanNode = { type: 'RESULT' };
+    // Whether the rows already come in ORDER BY order
+    let sorted = false;
+
+    if (query.from) {
+      // RIGHT and FULL joins add rows in which the columns of the first table are NULL,
+      // so only other joins leave its rows as the WHERE clause and ORDER BY see them
+      const keepsFirst = query.joins.every(join => join.type !== 'RIGHT' && join.type !== 'FULL');
+      const conditions = query.where && keepsFirst ? this.conjuncts(query.where) : [];
+      const order = query.orderBy?.length === 1 && keepsFirst && !this.isGrouped(query) ? query.orderBy[0] : undefined;
+
+      const source = this.planSource(query.from, conditions, query.joins.length > 0, order);
+      node = source.node;
+      sorted = source.sorted;
+
+      const names = [this.sourceName(query.from)];
+      for (const join of query.joins) {
+        node = this.planJoin(node, join, names);
+        names.push(this.sourceName(join.table));
+      }
+    }
+
+    if (query.where) {
+      node = { type: 'FILTER', condition: query.where, input: node };
+    }
+    if (this.isGrouped(query)) {
+      node = { type: 'AGGREGATE', groupBy: query.groupBy, having: query.having, input: node };
+    }
+    if (query.orderBy && !sorted) {
+      node = { type: 'SORT', orderBy: query.orderBy, input: node };
+    }
+    // After sorting, so the first row of each set of duplicates is the one kept
+    if (query.distinct) {
+      node = { type: 'UNIQUE', input: node };
+    }
+    if (query.limit !== undefined || query.offset !== undefined) {
+      node = { type: 'LIMIT', limit: query.limit, offset: query.offset, input: node };
+    }
+    return node;
+  }
+
+  planModification(operation: 'UPDATE' | 'DELETE', tableName: string, where?: Expression): ModifyNode {
+    const table = this.getTable(tableName);
+    const scan = this.planTableScan(table, tableName, where ? this.conjuncts(where) : [], false).node;
+    scan.filter = where;
+    return { type: 'MODIFY', operation, table: tableName, input: scan };
+  }
+
+  /** Describes a plan one step per line, indenting each step under the one that uses its rows. */
+  formatPlan(root: PlanNode, analyze: boolean): string[] {
+    const lines: string[] = [];
+
+    const visit = (node: PlanNode, depth: number) => {
+      const prefix = depth === 0 ? '' : `${' '.repeat(6 * depth - 4)}->  `;
+      const stats = analyze ? `  ${this.formatStats(node.actual)}` : '';
+      lines.push(`${prefix}${this.describe(node)}${stats}`);
+      this.children(node).forEach(child => visit(child, depth + 1));
+    };
+    visit(root, 0);
+
+    return lines;
+  }
+
+  private planSource(
+    reference: TableReference,
+    conditions: Expression[],
+    joined: boolean,
+    order?: OrderByClause
+  ): { node: PlanNode; sorted: boolean } {
+    if (reference.type === 'SUBQUERY') {
+      const plan = this.planSelect(reference.query);
+      return { node: { type: 'SUBQUERY_SCAN', alias: reference.alias, query: reference.query, plan }, sorted: false };
+    }
+
+    const table = this.getTable(reference.name);
+    return this.planTableScan(table, reference.alias ?? reference.name, conditions, joined, order);
+  }
+
+  /**
+   * Picks the index that answers most of the conditions: one whose every
+   * column is compared for equality, then a B-tree index on a column within
+   * a range, then a B-tree index on the ORDER BY column, which saves sorting.
+   * Indexes on several columns leave out rows with a NULL in any of them,
+   * so only those on one column can answer ranges. Once tables are joined, only conditions that name the
+   * table are considered, since others may refer to a joined table.
+   */
+  private planTableScan(
+    table: Table,
+    alias: string,
+    conditions: Expression[],
+    joined: boolean,
+    order?: OrderByClause
+  ): { node: SeqScanNode | IndexScanNode; sorted: boolean } {
+    const tableName = table.getSchema().name;
+    const columns = this.columnConditions(conditions, alias, table, joined);
+    const orderColumn = order && this.tableColumn(order.expression, alias, table, joined);
+
+    let best: { score: number; node: IndexScanNode; sorted: boolean } | undefined;
+    const consider = (score: number, node: IndexScanNode, sorted: boolean) => {
+      if (!best || score > best.score) {
+        best = { score, node, sorted };
+      }
+    };
+
+    for (const index of table.getIndexes()) {
+      const scan: IndexScanNode = { type: 'INDEX_SCAN', table: tableName, alias, index: index.name, indexConditions: [] };
+      const equalities = index.columns.map(column => columns.get(column)?.equal);
+
+      if (equalities.every(condition => condition !== undefined)) {
+        scan.key = index.columns.map(column => columns.get(column)!.range.lower!.key[0]);
+        scan.indexConditions = equalities as Expression[];
+        consider(index.unique ? 4 : 3, scan, false);
+        continue;
+      }
+      if (index.method !== 'btree' || index.columns.length > 1) continue;
+
+      // An index on the ORDER BY column keeps rows with equal values in table order, as sorting does
+      const ordered = orderColumn !== undefined && index.columns[0] === orderColumn;
+      const first = columns.get(index.columns[0]);
+      if (first) {
+        scan.range = { ...first.range, descending: ordered && order!.direction === 'DESC' };
+        scan.indexConditions = first.conditions;
+        consider(ordered ? 2.5 : 2, scan, ordered);
+      } else if (ordered) {
+        scan.range = { descending: order!.direction === 'DESC' };
+        scan.nulls = order!.nulls;
+        consider(1, scan, true);
+      }
+    }
+
+    if (best) {
+      return { node: best.node, sorted: best.sorted };
+    }
+    return { node: { type: 'SEQ_SCAN', table: tableName, alias }, sorted: false };
+  }
+
+  /**
+   * Picks how a table is joined to the rows before it, when the ON condition
+   * compares columns of both with =. INNER and LEFT joins, which never need
+   * the right rows without a match, merge the rows when the left ones come
+   * sorted on the column and the right table has a B-tree index on its own,
+   * or else look up each left row's matches in an index of the right table.
+   * Any other equi-join puts the right rows in a hash table, and the rest use
+   * nested loops. All of them keep the left rows in order.
+   */
+  private planJoin(left: PlanNode, join: JoinClause, leftNames: string[]): JoinNode {
+    const reference = join.table;
+    const alias = this.sourceName(reference);
+    const keys = join.on ? this.joinKeys(this.conjuncts(join.on), alias, leftNames) : [];
+
+    if ((join.type === 'INNER' || join.type === 'LEFT') && keys.length > 0 && reference.type === 'TABLE') {
+      const table = this.getTable(reference.name);
+      const merge = this.joinMethods.has('merge') ? this.mergeJoin(left, join, table, alias, keys) : undefined;
+      if (merge) {
+        return merge;
+      }
+      const lookup = this.joinMethods.has('index') ? this.indexLookup(table, alias, keys) : undefined;
+      if (lookup) {
+        return { type: 'NESTED_LOOP', join, left, right: lookup };
+      }
+    }
+
+    const right = this.planSource(reference, [], true).node;
+    if (keys.length > 0 && this.joinMethods.has('hash')) {
+      return {
+        type: 'HASH_JOIN',
+        join,
+        leftKeys: keys.map(key => key.left),
+        rightKeys: keys.map(key => key.right),
+        left,
+        right,
+      };
+    }
+    return { type: 'NESTED_LOOP', join, left, right };
+  }
+
+  // Both sides must name their table, since a bare column could belong to either
+  private joinKeys(conditions: Expression[], alias: string, leftNames: string[]): JoinKey[] {
+    const keys: JoinKey[] = [];
+    for (const condition of conditions) {
+      if (condition.type !== 'COMPARISON' || condition.operator !== '=') continue;
+
+      const { left, right } = condition;
+      if (left.type !== 'COLUMN' || right.type !== 'COLUMN' || !left.table || !right.table) continue;
+      if (right.table === alias && leftNames.includes(left.table)) {
+        keys.push({ left, right, condition });
+      } else if (left.table === alias && leftNames.includes(right.table)) {
+        keys.push({ left: right, right: left, condition });
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Reads the right table in the order of the left rows, within the same
+   * bounds. Only an index on the column alone returns rows with equal values
+   * in table order, as the other joins do.
+   */
+  private mergeJoin(left: PlanNode, join: JoinClause, table: Table, alias: string, keys: JoinKey[]): MergeJoinNode | undefined {
+    const order = this.rowOrder(left);
+    if (!order) return undefined;
+
+    for (const key of keys) {
+      if (key.left.table !== order.alias || key.left.column !== order.column) continue;
+
+      const column = this.tableColumn(key.right, alias, table, true);
+      const index = table
+        .getIndexes()
+        .find(candidate => candidate.method === 'btree' && candidate.columns.length === 1 && candidate.columns[0] === column);
+      if (!index) continue;
+
+      const right: IndexScanNode = {
+        type: 'INDEX_SCAN',
+        table: table.getSchema().name,
+        alias,
+        index: index.name,
+        range: { ...order.range },
+        indexConditions: [],
+      };
+      return { type: 'MERGE_JOIN', join, leftKey: key.left, rightKey: key.right, left, right };
+    }
+    return undefined;
+  }
+
+  // INNER and LEFT joins keep the order of their left rows
+  private rowOrder(node: PlanNode): RowOrder | undefined {
+    switch (node.type) {
+      case 'INDEX_SCAN': {
+        if (!node.range || node.outerColumn) return undefined;
+        const index = this.getTable(node.table).getIndexes().find(candidate => candidate.name === node.index)!;
+        const { lower, upper, descending } = node.range;
+        return { alias: node.alias, column: index.columns[0], range: { lower, upper, descending } };
+      }
+      case 'NESTED_LOOP':
+      case 'HASH_JOIN':
+      case 'MERGE_JOIN':
+        return node.join.type === 'INNER' || node.join.type === 'LEFT' ? this.rowOrder(node.left) : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private indexLookup(table: Table, alias: string, keys: JoinKey[]): IndexScanNode | undefined {
+    let best: { index: IndexInfo; key: JoinKey } | undefined;
+
+    for (const key of keys) {
+      const column = this.tableColumn(key.right, alias, table, true);
+      const index = table
+        .getIndexes()
+        .filter(candidate => candidate.columns.length === 1 && candidate.columns[0] === column)
+        .sort((a, b) => Number(b.unique) - Number(a.unique))[0];
+      if (index && (!best || (index.unique && !best.index.unique))) {
+        best = { index, key };
+      }
+    }
+
+    if (!best) return undefined;
+    return {
+      type: 'INDEX_SCAN',
+      table: table.getSchema().name,
+      alias,
+      index: best.index.name,
+      outerColumn: best.key.left,
+      indexConditions: [best.key.condition],
+    };
+  }
+
+  // Comparisons with constants and BETWEEN on single columns of the table, grouped by column
+  private columnConditions(
+    conditions: Expression[],
+    alias: string,
+    table: Table,
+    joined: boolean
+  ): Map<string, ColumnConditions> {
+    const columns = new Map<string, ColumnConditions>();
+
+    const narrow = (column: string, operator: ComparisonOperator, value: Expression, condition: Expression) => {
+      if (value.type !== 'LITERAL' || value.value === null || operator === '!=') return;
+
+      const entry = columns.get(column) ?? { range: {}, conditions: [] };
+      // The key as the index holds it, as the comparison reads the literal
+      const type = table.getSchema().columns.find(col => col.name === column)?.type;
+      const bound = { key: [this.evaluator.coerceLiteral(value.value, type)!], inclusive: operator.endsWith('=') };
+      if (operator !== '<' && operator !== '<=') {
+        entry.range.lower = this.tighterBound(entry.range.lower, bound, 1);
+      }
+      if (operator !== '>' && operator !== '>=') {
+        entry.range.upper = this.tighterBound(entry.range.upper, bound, -1);
+      }
+      if (operator === '=' && !entry.equal) {
+        entry.equal = condition;
+      }
+      if (!entry.conditions.includes(condition)) {
+        entry.conditions.push(condition);
+      }
+      columns.set(column, entry);
+    };
+
+    for (const condition of conditions) {
+      if (condition.type === 'COMPARISON') {
+        const left = this.tableColumn(condition.left, alias, table, joined);
+        const right = this.tableColumn(condition.right, alias, table, joined);
+        if (left !== undefined) {
+          narrow(left, condition.operator, condition.right, condition);
+        } else if (right !== undefined) {
+          narrow(right, REVERSED[condition.operator], condition.left, condition);
+        }
+      } else if (condition.type === 'BETWEEN' && !condition.negated) {
+        const column = this.tableColumn(condition.operand, alias, table, joined);
+        if (column !== undefined) {
+          narrow(column, '>=', condition.lower, condition);
+          narrow(column, '<=', condition.upper, condition);
+        }
+      }
+    }
+
+    // Two different equalities on a column leave a range that contains at most one key
+    for (const entry of columns.values()) {
+      const { lower, upper } = entry.range;
+      if (entry.equal && (!lower || !upper || this.evaluator.compare(lower.key[0], upper.key[0]) !== 0)) {
+        delete entry.equal;
+      }
+    }
+
+    return columns;
+  }
+
+  // Of two bounds on the same side, the one that lets fewer values through; direction is 1 for lower bounds
+  private tighterBound(current: IndexBound | undefined, bound: IndexBound, direction: 1 | -1): IndexBound {
+    if (!current) return bound;
+
+    const comparison = this.evaluator.compare(bound.key[0], current.key[0]) * direction;
+    if (comparison > 0 || (comparison === 0 && !bound.inclusive)) return bound;
+    return current;
+  }
+
+  /**
+   * The column of the table an expression refers to, if it is a plain column
+   * reference. Once tables are joined, the reference must name the table.
+   */
+  private tableColumn(expression: Expression, alias: string, table: Table, joined: boolean): string | undefined {
+    if (expression.type !== 'COLUMN') return undefined;
+    if (expression.table === undefined ? joined : expression.table !== alias) return undefined;
+
+    return table.getSchema().columns.some(col => col.name === expression.column) ? expression.column : undefined;
+  }
+
+  private conjuncts(expression: Expression): Expression[] {
+    if (expression.type === 'AND') {
+      return [...this.conjuncts(expression.left), ...this.conjuncts(expression.right)];
+    }
+    return [expression];
+  }
+
+  private isGrouped(query: SelectQuery): boolean {
+    if (query.groupBy || query.having) {
+      return true;
+    }
+    return query.columns.some(item => item.type === 'EXPRESSION' && this.evaluator.containsAggregate(item.expression));
+  }
+
+  private sourceName(reference: TableReference): string {
+    return reference.type === 'SUBQUERY' ? reference.alias : (reference.alias ?? reference.name);
+  }
+
+  private getTable(tableName: string): Table {
+    const table = this.database.getTable(tableName);
+    if (!table) {
+      throw new Error(`Table ${tableName} does not exist`);
+    }
+    return table;
+  }
+
+  private children(node: PlanNode): PlanNode[] {
+    switch (node.type) {
+      case 'SUBQUERY_SCAN':
+        return [node.plan];
+      case 'NESTED_LOOP':
+      case 'HASH_JOIN':
+      case 'MERGE_JOIN':
+        return [node.left, node.right];
+      case 'FILTER':
+      case 'AGGREGATE':
+      case 'SORT':
+      case 'UNIQUE':
+      case 'LIMIT':
+      case 'MODIFY':
+        return [node.input];
+      default:
+        return [];
+    }
+  }
+
+  private describe(node: PlanNode): string {
+    switch (node.type) {
+      case 'SEQ_SCAN':
+        return `Seq Scan on ${this.formatTable(node.table, node.alias)}${this.formatFilter(node.filter)}`;
+      case 'INDEX_SCAN': {
+        const backward = node.range?.descending ? ' Backward' : '';
+        const conditions = node.indexConditions.length > 0 ? ` (${this.formatConditions(node.indexConditions)})` : '';
+        return `Index Scan${backward} using ${this.formatter.formatIdentifier(node.index)} on ${this.formatTable(node.table, node.alias)}${conditions}${this.formatFilter(node.filter)}`;
+      }
+      case 'SUBQUERY_SCAN':
+        return `Subquery Scan on ${this.formatter.formatIdentifier(node.alias)}`;
+      case 'RESULT':
+        return 'Result';
+      case 'NESTED_LOOP':
+        return this.describeJoin('Nested Loop', node.join);
+      case 'HASH_JOIN':
+        return this.describeJoin('Hash', node.join);
+      case 'MERGE_JOIN':
+        return this.describeJoin('Merge', node.join);
+      case 'FILTER':
+        return `Filter (${this.formatter.formatExpression(node.condition)})`;
+      case 'AGGREGATE': {
+        const details = [];
+        if (node.groupBy) {
+          details.push(`group by ${node.groupBy.map(expression => this.formatter.formatExpression(expression)).join(', ')}`);
+        }
+        if (node.having) {
+          details.push(`having ${this.formatter.formatExpression(node.having)}`);
+        }
+        return `Aggregate${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+      }
+      case 'SORT':
+        return `Sort (${node.orderBy.map(item => this.formatter.formatOrderByItem(item)).join(', ')})`;
+      case 'UNIQUE':
+        return 'Unique';
+      case 'LIMIT': {
+        const details = [];
+        if (node.limit !== undefined) details.push(`limit ${node.limit}`);
+        if (node.offset !== undefined) details.push(`offset ${node.offset}`);
+        return `Limit (${details.join(', ')})`;
+      }
+      case 'MODIFY':
+        return `${node.operation === 'UPDATE' ? 'Update' : 'Delete'} on ${this.formatter.formatIdentifier(node.table)}`;
+    }
+  }
+
+  // Like PostgreSQL: Nested Loop, Nested Loop Left Join, Hash Join, Hash Left Join
+  private describeJoin(method: string, join: JoinClause): string {
+    const type = join.type === 'INNER' || join.type === 'CROSS' ? '' : `${join.type[0]}${join.type.slice(1).toLowerCase()}`;
+    const kind = method === 'Nested Loop' ? (type ? ` ${type} Join` : '') : ` ${type ? `${type} ` : ''}Join`;
+    return `${method}${kind}${join.on ? ` (${this.formatter.formatExpression(join.on)})` : ''}`;
+  }
+
+  private formatTable(table: string, alias: string): string {
+    const name = this.formatter.formatIdentifier(table);
+    return alias === table ? name : `${name} ${this.formatter.formatIdentifier(alias)}`;
+  }
+
+  private formatConditions(conditions: Expression[]): string {
+    return conditions.map(condition => this.formatter.formatExpression(condition)).join(' AND ');
+  }
+
+  private formatFilter(filter?: Expression): string {
+    return filter ? ` (filter: ${this.formatter.formatExpression(filter)})` : '';
+  }
+
+  private formatStats(stats?: PlanStats): string {
+    if (!stats || stats.loops === 0) return '(never executed)';
+
+    const time = stats.time !== undefined ? `time=${stats.time.toFixed(3)} ms ` : '';
+    return `(actual ${time}rows=${stats.rows} loops=${stats.loops})`;
+  }
+}
@@ -1,32 +1,346 @@
 import { Database } from './Database';
-import { QueryParser } from './QueryParser';
+import { ParsedQuery, QueryParser, SelectQuery } from './QueryParser';
 import { QueryExecutor } from './QueryExecutor';
-import { QueryResult } from './types';
+import { CopyOptions, FunctionDefinition, FunctionSignature, JoinMethod, QueryResult, Row, ScalarFunction, TableSchema } from './types';
+import { SQLSyntaxError } from './errors';
+import { SQLFormatter } from './SQLFormatter';
+import { StorageAdapter } from './StorageAdapter';
+import { WriteAheadLog } from './WriteAheadLog';
+import { PreparedStatement } from './PreparedStatement';
+
+export interface RDBMSOptions {
+  // Makes the database persistent; without storage it lives in memory only
+  storage?: StorageAdapter;
+  // Number of logged transactions after which a checkpoint is taken, 1000 by default
+  checkpointInterval?: number;
+  // Where COPY statements read and write files; COPY with a file name fails without it
+  files?: StorageAdapter;
+  // The join methods the query planner may use besides nested loops, all of them by default
+  joinMethods?: JoinMethod[];
+  // Functions to register before the log is replayed, which persistent databases need for statements that call them
+  functions?: Record<string, FunctionDefinition>;
+}
+
+// Statements that change the database and so are written to the log
+const LOGGED_STATEMENTS = new Set<ParsedQuery['type']>([
+  'CREATE_TABLE',
+  'DROP_TABLE',
+  'ALTER_TABLE',
+  'CREATE_SEQUENCE',
+  'DROP_SEQUENCE',
+  'CREATE_INDEX',
+  'DROP_INDEX',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+]);
 
 export class RDBMS {
   private database: Database;
   private parser: QueryParser;
   private executor: QueryExecutor;
+  private formatter: SQLFormatter;
+  private wal?: WriteAheadLog;
+  private checkpointInterval: number;
 
-  constructor() {
+  constructor(options: RDBMSOptions = {}) {
     this.database = new Database();
-    this.parser = new QueryParser();
-    this.executor = new QueryExecutor(this.database);
+    this.parser = new QueryParser(this.database.getFunctions());
+    this.executor = new QueryExecutor(this.database, options.files, options.joinMethods);
+    this.formatter = new SQLFormatter();
+    this.checkpointInterval = options.checkpointInterval ?? 1000;
+
+    for (const [name, { impl, signature }] of Object.entries(options.functions ?? {})) {
+      this.registerFunction(name, impl, signature);
+    }
+
+    if (options.storage) {
+      const wal = new WriteAheadLog(options.storage);
+      this.recover(wal);
+      this.wal = wal;
+      this.database.onCommit(statements => this.log(statements));
+    }
   }
 
   query(sql: string): QueryResult {
     try {
-      const parsed = this.parser.parse(sql);
-      return this.executor.execute(parsed);
+      return this.run(this.parser.parse(sql), sql);
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Adds a scalar function that statements can call, or replaces one added
+   * before. Arguments are converted to the signature's parameter types,
+   * and with strict signatures, the default, a NULL argument gives NULL
+   * without calling the function:
+   *
+   *   rdbms.registerFunction('initials', name => name.split(' ').map(word => word[0]).join(''), {
+   *     parameters: ['string'],
+   *     returns: 'string',
+   *   });
+   *
+   * Statements are replayed from the log, so the function must always give
+   * the same result for the same arguments. Throws when the name belongs to
+   * a built-in function or the signature is invalid.
+   */
+  registerFunction(name: string, impl: ScalarFunction, signature: FunctionSignature): void {
+    this.database.getFunctions().register(name, impl, signature);
+  }
+
+  /**
+   * Parses a statement once so it can run any number of times with
+   * different values for its ? or $1-style parameters:
+   *
+   *   const insert = rdbms.prepare('INSERT INTO books (title, year) VALUES (?, ?)');
+   *   insert.execute(["Winnie's Wedding", 1996]);
+   *
+   * Throws a SQLSyntaxError when the statement cannot be parsed.
+   */
+  prepare(sql: string): PreparedStatement {
+    return new PreparedStatement(sql, this.parser.prepare(sql), this.database, (query, boundSql) => {
+      try {
+        return this.run(query, boundSql);
+      } catch (error) {
+        return this.errorResult(error);
+      }
+    });
+  }
+
+  /**
+   * Returns a script that recreates every table with its rows and indexes,
+   * and every sequence, one statement per line. The script can be replayed with load().
+   */
+  dump(): string {
+    const state = this.database.getState();
+    const sequences = state.sequences ?? [];
+
+    // Sequences of SERIAL columns are created by their tables
+    const sections = [
+      sequences.filter(sequence => !sequence.ownedBy).map(sequence => this.formatter.formatCreateSequence(sequence)),
+    ];
+    for (const { schema, rows } of state.tables) {
+      // Indexes are created after the rows, so loading does not maintain them row by row
+      sections.push([
+        this.formatter.formatCreateTable(schema),
+        ...this.formatRows(schema, rows),
+        ...(schema.indexes ?? []).map(index => this.formatter.formatCreateIndex(schema.name, index)),
+      ]);
+    }
+    sections.push(
+      sequences
+        .filter(sequence => sequence.called || sequence.value !== sequence.start)
+        .map(sequence => this.formatter.formatSetval(sequence))
+    );
+
+    return sections
+      .filter(statements => statements.length > 0)
+      .map(statements => statements.map(statement => `${statement};\n`).join(''))
+      .join('\n');
+  }
+
+  /**
+   * Runs a script of semicolon-separated statements, such as one produced by
+   * dump(). The script runs as a single transaction: if any statement fails,
+   * none of its changes are kept.
+   */
+  load(script: string): QueryResult {
+    try {
+      const statements = this.parser.parseScript(script);
+
+      this.transaction(() => {
+        statements.forEach((statement, index) => {
+          const result = this.run(statement.query, statement.sql);
+          if (!result.success) {
+            throw new Error(`Statement ${index + 1} failed: ${result.error}`);
+          }
+        });
+      });
+
+      return { success: true, message: `${statements.length} statement(s) executed`, rowCount: statements.length };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Imports CSV or JSON data into a table, like COPY ... FROM but without a
+   * file. The data can be a string or an iterable of chunks, such as the
+   * lines of a file being read.
+   */
+  copyFrom(tableName: string, data: string | Iterable<string>, options: CopyOptions & { columns?: string[] } = {}): QueryResult {
+    try {
+      const { columns, ...copyOptions } = options;
+      const input = typeof data === 'string' ? [data] : data;
+      return this.executor.copyFrom(tableName, columns, input, copyOptions);
     } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Exports a table, or the result of a SELECT statement, as CSV or JSON,
+   * like COPY ... TO but returning the text. Throws when the source cannot
+   * be read.
+   */
+  copyTo(source: string, options: CopyOptions & { columns?: string[] } = {}): string {
+    const { columns, ...copyOptions } = options;
+    let query: SelectQuery | string = source;
+
+    if (/^\s*SELECT\b/i.test(source)) {
+      const parsed = this.parser.parse(source);
+      if (parsed.type !== 'SELECT') {
+        throw new Error('copyTo accepts a table name or a SELECT statement');
+      }
+      query = parsed;
+    }
+
+    return this.executor.copyTo(query, columns, copyOptions).data;
+  }
+
+  /**
+   * Runs fn in a transaction that is committed when it returns and rolled
+   * back when it throws. Called inside another transaction, it uses a
+   * savepoint so that only fn's own changes are rolled back.
+   */
+  transaction<T>(fn: (rdbms: RDBMS) => T): T {
+    return this.database.atomic(() => fn(this));
+  }
+
+  /** Writes the whole database to storage so the log can start over. */
+  checkpoint(): void {
+    if (!this.wal) {
+      throw new Error('Checkpoints require persistent storage');
+    }
+    if (this.database.inTransaction()) {
+      throw new Error('Cannot checkpoint inside a transaction');
+    }
+
+    this.wal.checkpoint(this.database.getState());
+  }
+
+  getDatabase(): Database {
+    return this.database;
+  }
+
+  private run(query: ParsedQuery, sql: string): QueryResult {
+    const result = this.executor.execute(query);
+    // Called for every statement, since any of them may move a sequence
+    this.database.recordStatements(result.success && this.changesData(query) ? [sql] : []);
+    return result;
+  }
+
+  // EXPLAIN ANALYZE runs the statement it explains, so it is logged when that statement would be
+  private changesData(query: ParsedQuery): boolean {
+    if (query.type === 'EXPLAIN') {
+      return query.analyze && LOGGED_STATEMENTS.has(query.query.type);
+    }
+    return LOGGED_STATEMENTS.has(query.type);
+  }
+
+  private errorResult(error: unknown): QueryResult {
+    if (error instanceof SQLSyntaxError) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error.message,
+        errorPosition: { line: error.line, column: error.column },
       };
     }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
   }
 
-  getDatabase(): Database {
-    return this.database;
+  private log(statements: string[]): void {
+    this.wal!.append(statements);
+    if (this.wal!.getRecordsSinceCheckpoint() >= this.checkpointInterval) {
+      this.checkpoint();
+    }
+  }
+
+  // Loads the last checkpoint and replays every transaction committed after it
+  private recover(wal: WriteAheadLog): void {
+    const { state, records } = wal.recover();
+    if (state) {
+      this.database.loadState(state);
+    }
+
+    for (const record of records) {
+      this.database.begin();
+      for (const statement of record.statements) {
+        const result = this.query(statement);
+        if (!result.success) {
+          throw new Error(`Cannot replay log record ${record.lsn}: ${result.error}`);
+        }
+      }
+      this.database.commit();
+    }
+  }
+
+  // Inserts rows before the rows that reference them through a foreign key on their own table. A row in a
+  // cycle of such references is inserted without the reference that closes the cycle, which an UPDATE sets afterwards.
+  private formatRows(schema: TableSchema, rows: Row[]): string[] {
+    const selfReferences = schema.columns.filter(col => col.references?.table === schema.name);
+    if (selfReferences.length === 0) {
+      return rows.map(row => this.formatter.formatInsert(schema.name, row));
+    }
+
+    // The rows each reference points at, by the value of the referenced column
+    const targets = selfReferences.map(col => {
+      const key = col.references!.column;
+      return new Map(rows.filter(row => row[key] !== null).map(row => [row[key], row]));
+    });
+    // A row may reference itself, which needs no other row inserted first
+    const referencedRows = (row: Row) =>
+      selfReferences.map((col, index) => targets[index].get(row[col.name])).map(target => (target === row ? undefined : target));
+
+    const inserts: string[] = [];
+    const updates: string[] = [];
+    // Rows being visited are waiting for the rows they reference, so reaching one again means a cycle
+    const visited = new Map<Row, 'visiting' | 'done'>();
+    for (const first of rows) {
+      if (visited.has(first)) continue;
+
+      const stack = [first];
+      visited.set(first, 'visiting');
+      while (stack.length > 0) {
+        const row = stack[stack.length - 1];
+        const targetsOfRow = referencedRows(row);
+        const next = targetsOfRow.find(target => target && !visited.has(target));
+        if (next) {
+          visited.set(next, 'visiting');
+          stack.push(next);
+          continue;
+        }
+
+        const deferred: Row = {};
+        selfReferences.forEach((col, index) => {
+          if (targetsOfRow[index] && visited.get(targetsOfRow[index]!) === 'visiting') {
+            deferred[col.name] = row[col.name];
+          }
+        });
+        const nulls = Object.fromEntries(Object.keys(deferred).map(column => [column, null]));
+        inserts.push(this.formatter.formatInsert(schema.name, { ...row, ...nulls }));
+        if (Object.keys(deferred).length > 0) {
+          updates.push(this.formatter.formatUpdate(schema.name, deferred, this.rowKey(schema, row)));
+        }
+
+        stack.pop();
+        visited.set(row, 'done');
+      }
+    }
+    return [...inserts, ...updates];
+  }
+
+  // The values of a key that identifies the row; a row in a cycle is referenced, so one of its keys has no NULLs
+  private rowKey(schema: TableSchema, row: Row): Row {
+    const keys = [
+      ...schema.columns.filter(col => col.primaryKey || col.unique).map(col => [col.name]),
+      ...(schema.uniqueKeys ?? []).map(key => key.columns),
+    ];
+    const columns = keys.find(key => key.every(column => row[column] !== null))!;
+    return Object.fromEntries(columns.map(column => [column, row[column]]));
   }
 }
@@ -18,7 +18,7 @@ export class REPL {
     this.history.push(sql);
 
     const result = this.rdbms.query(sql);
-    return this.formatResult(result);
+    return this.formatResult(result, sql);
   }
 
   getHistory(): string[] {
@@ -29,13 +29,17 @@ export class REPL {
     this.history = [];
   }
 
-  private formatResult(result: QueryResult): string {
+  private formatResult(result: QueryResult, sql: string): string {
     if (!result.success) {
+      if (result.errorPosition) {
+        return `ERROR: ${result.error}\n${this.formatErrorPointer(sql, result.errorPosition)}`;
+      }
       return `ERROR: ${result.error}`;
     }
 
     if (result.message) {
-      return result.message;
+      const rejected = (result.rejected ?? []).map(record => `  line ${record.line}: ${record.error}`);
+      return [result.message, ...rejected].join('\n');
     }
 
     if (result.rows && result.rows.length > 0) {
@@ -49,6 +53,11 @@ export class REPL {
     return 'OK';
   }
 
+  private formatErrorPointer(sql: string, position: { line: number; column: number }): string {
+    const line = sql.split('\n')[position.line - 1] ?? '';
+    return `${line}\n${' '.repeat(Math.max(position.column - 1, 0))}^`;
+  }
+
   private formatTable(rows: Row[]): string {
     if (rows.length === 0) return 'Empty result set';
 
@@ -0,0 +1,315 @@
+import {
+  ArithmeticOperator,
+  ColumnDefinition,
+  DataType,
+  Expression,
+  ForeignKey,
+  IndexDefinition,
+  OrderByClause,
+  Row,
+  SelectItem,
+  TableReference,
+  TableSchema,
+  UniqueKey,
+  Value,
+} from './types';
+import type { SelectQuery } from './QueryParser';
+import type { SequenceState } from './Sequence';
+import { Lexer } from './Lexer';
+
+// Binding strength used to decide where parentheses are needed
+const PRECEDENCE: Partial<Record<Expression['type'], number>> = {
+  OR: 1,
+  AND: 2,
+  NOT: 3,
+  COMPARISON: 4,
+  LIKE: 4,
+  IN: 4,
+  BETWEEN: 4,
+  IS_NULL: 4,
+  IN_SUBQUERY: 4,
+  CONCAT: 5,
+  NEGATE: 8,
+  JSON_ACCESS: 9,
+};
+
+const ARITHMETIC_PRECEDENCE: Record<ArithmeticOperator, number> = {
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7,
+};
+
+/**
+ * Turns expression trees and values back into SQL text. Used to name
+ * computed result columns and to display stored expressions.
+ */
+export class SQLFormatter {
+  formatExpression(expression: Expression): string {
+    switch (expression.type) {
+      case 'LITERAL': {
+        const text = this.formatValue(expression.value);
+        // 2.0 keeps its point, which makes it a decimal
+        return expression.decimal && !/[.e]/.test(text) ? `${text}.0` : text;
+      }
+      case 'COLUMN':
+        return expression.table
+          ? `${this.formatIdentifier(expression.table)}.${this.formatIdentifier(expression.column)}`
+          : this.formatIdentifier(expression.column);
+      case 'AND':
+      case 'OR':
+        return `${this.formatOperand(expression.left, expression)} ${expression.type} ${this.formatOperand(expression.right, expression)}`;
+      case 'NOT':
+        return `NOT ${this.formatOperand(expression.operand, expression)}`;
+      case 'COMPARISON':
+      case 'ARITHMETIC':
+        return `${this.formatOperand(expression.left, expression)} ${expression.operator} ${this.formatOperand(expression.right, expression)}`;
+      case 'CONCAT':
+        return `${this.formatOperand(expression.left, expression)} || ${this.formatOperand(expression.right, expression)}`;
+      case 'NEGATE': {
+        // Parentheses keep a negative number from starting a -- comment
+        const operand = this.formatOperand(expression.operand, expression);
+        return operand.startsWith('-') ? `-(${operand})` : `-${operand}`;
+      }
+      case 'CASE': {
+        const parts = ['CASE'];
+        if (expression.operand) {
+          parts.push(this.formatExpression(expression.operand));
+        }
+        for (const branch of expression.branches) {
+          parts.push(`WHEN ${this.formatExpression(branch.when)} THEN ${this.formatExpression(branch.then)}`);
+        }
+        if (expression.else) {
+          parts.push(`ELSE ${this.formatExpression(expression.else)}`);
+        }
+        parts.push('END');
+        return parts.join(' ');
+      }
+      case 'LIKE':
+        return `${this.formatOperand(expression.operand, expression)}${expression.negated ? ' NOT' : ''} ${expression.caseInsensitive ? 'ILIKE' : 'LIKE'} ${this.formatOperand(expression.pattern, expression)}`;
+      case 'IN':
+        return `${this.formatOperand(expression.operand, expression)}${expression.negated ? ' NOT' : ''} IN (${expression.values.map(value => this.formatExpression(value)).join(', ')})`;
+      case 'BETWEEN':
+        return `${this.formatOperand(expression.operand, expression)}${expression.negated ? ' NOT' : ''} BETWEEN ${this.formatOperand(expression.lower, expression)} AND ${this.formatOperand(expression.upper, expression)}`;
+      case 'IS_NULL':
+        return `${this.formatOperand(expression.operand, expression)} IS ${expression.negated ? 'NOT ' : ''}NULL`;
+      case 'AGGREGATE': {
+        const argument = expression.argument ? this.formatExpression(expression.argument) : '*';
+        return `${expression.function}(${expression.distinct ? 'DISTINCT ' : ''}${argument})`;
+      }
+      case 'FUNCTION':
+        return `${expression.name}(${expression.arguments.map(argument => this.formatExpression(argument)).join(', ')})`;
+      case 'CAST':
+        return `CAST(${this.formatExpression(expression.operand)} AS ${this.formatDataType(expression.target)})`;
+      case 'JSON_ACCESS':
+        return `${this.formatOperand(expression.operand, expression)}${expression.asValue ? '->>' : '->'}${this.formatOperand(expression.key, expression)}`;
+      case 'PARAMETER':
+        return `$${expression.index + 1}`;
+      case 'SUBQUERY':
+        return `(${this.formatSelect(expression.query)})`;
+      case 'EXISTS':
+        return `EXISTS (${this.formatSelect(expression.query)})`;
+      case 'IN_SUBQUERY':
+        return `${this.formatOperand(expression.operand, expression)}${expression.negated ? ' NOT' : ''} IN (${this.formatSelect(expression.query)})`;
+    }
+  }
+
+  formatSelect(query: SelectQuery): string {
+    const parts = [`SELECT ${query.distinct ? 'DISTINCT ' : ''}${query.columns.map(item => this.formatSelectItem(item)).join(', ')}`];
+    if (query.from) {
+      parts.push(`FROM ${this.formatTableReference(query.from)}`);
+    }
+
+    for (const join of query.joins) {
+      const table = this.formatTableReference(join.table);
+      if (join.type === 'CROSS') {
+        parts.push(`CROSS JOIN ${table}`);
+      } else {
+        const keyword = join.type === 'INNER' ? 'JOIN' : `${join.type} JOIN`;
+        parts.push(`${keyword} ${table} ON ${this.formatExpression(join.on!)}`);
+      }
+    }
+
+    if (query.where) {
+      parts.push(`WHERE ${this.formatExpression(query.where)}`);
+    }
+    if (query.groupBy) {
+      parts.push(`GROUP BY ${query.groupBy.map(expression => this.formatExpression(expression)).join(', ')}`);
+    }
+    if (query.having) {
+      parts.push(`HAVING ${this.formatExpression(query.having)}`);
+    }
+    if (query.orderBy) {
+      parts.push(`ORDER BY ${query.orderBy.map(item => this.formatOrderByItem(item)).join(', ')}`);
+    }
+    if (query.limit !== undefined) {
+      parts.push(`LIMIT ${query.limit}`);
+    }
+    if (query.offset !== undefined) {
+      parts.push(`OFFSET ${query.offset}`);
+    }
+
+    return parts.join(' ');
+  }
+
+  formatCreateTable(schema: TableSchema): string {
+    const columns = schema.columns.map(column => this.formatColumnDefinition(column));
+    for (const key of schema.uniqueKeys ?? []) {
+      columns.push(this.formatUniqueKey(key));
+    }
+    for (const check of schema.checks ?? []) {
+      columns.push(`CHECK (${this.formatExpression(check)})`);
+    }
+    return `CREATE TABLE ${this.formatIdentifier(schema.name)} (${columns.join(', ')})`;
+  }
+
+  formatCreateIndex(tableName: string, index: IndexDefinition): string {
+    const columns = index.columns.map(column => this.formatIdentifier(column)).join(', ');
+    const name = this.formatIdentifier(index.name);
+    // Hash is the default method
+    const method = index.method === 'btree' ? ' USING btree' : '';
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${name} ON ${this.formatIdentifier(tableName)}${method} (${columns})`;
+  }
+
+  // START and INCREMENT are left out when they are the default, 1
+  formatCreateSequence(sequence: SequenceState): string {
+    let text = `CREATE SEQUENCE ${this.formatIdentifier(sequence.name)}`;
+    if (sequence.start !== 1) {
+      text += ` START WITH ${sequence.start}`;
+    }
+    if (sequence.increment !== 1) {
+      text += ` INCREMENT BY ${sequence.increment}`;
+    }
+    return text;
+  }
+
+  // Restores the position of a sequence
+  formatSetval(sequence: SequenceState): string {
+    return `SELECT setval(${this.formatValue(sequence.name)}, ${sequence.value}, ${this.formatValue(sequence.called)})`;
+  }
+
+  formatUniqueKey(key: UniqueKey): string {
+    const columns = key.columns.map(column => this.formatIdentifier(column)).join(', ');
+    return `${key.primary ? 'PRIMARY KEY' : 'UNIQUE'} (${columns})`;
+  }
+
+  formatInsert(tableName: string, row: Row): string {
+    const columns = Object.keys(row).map(column => this.formatIdentifier(column));
+    const values = Object.values(row).map(value => this.formatValue(value));
+    return `INSERT INTO ${this.formatIdentifier(tableName)} (${columns.join(', ')}) VALUES (${values.join(', ')})`;
+  }
+
+  formatUpdate(tableName: string, values: Row, key: Row): string {
+    const assignments = Object.entries(values).map(([column, value]) => `${this.formatIdentifier(column)} = ${this.formatValue(value)}`);
+    const conditions = Object.entries(key).map(([column, value]) => `${this.formatIdentifier(column)} = ${this.formatValue(value)}`);
+    return `UPDATE ${this.formatIdentifier(tableName)} SET ${assignments.join(', ')} WHERE ${conditions.join(' AND ')}`;
+  }
+
+  // Actions are left out when they are the default, RESTRICT
+  formatReferences(foreignKey: ForeignKey): string {
+    let text = `${this.formatIdentifier(foreignKey.table)}(${this.formatIdentifier(foreignKey.column)})`;
+    if (foreignKey.onDelete !== 'RESTRICT') {
+      text += ` ON DELETE ${foreignKey.onDelete}`;
+    }
+    if (foreignKey.onUpdate !== 'RESTRICT') {
+      text += ` ON UPDATE ${foreignKey.onUpdate}`;
+    }
+    return text;
+  }
+
+  // NULLS is left out when it is the default for the direction
+  formatOrderByItem(item: OrderByClause): string {
+    const defaultNulls = item.direction === 'ASC' ? 'LAST' : 'FIRST';
+    const nulls = item.nulls === defaultNulls ? '' : ` NULLS ${item.nulls}`;
+    return `${this.formatExpression(item.expression)} ${item.direction}${nulls}`;
+  }
+
+  formatValue(value: Value): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    // String() drops the sign of negative zero
+    if (typeof value === 'number') return Object.is(value, -0) ? '-0' : String(value);
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  formatDataType(type: DataType): string {
+    if (type.type === 'decimal' && type.precision !== undefined) {
+      return `decimal(${type.precision}, ${type.scale ?? 0})`;
+    }
+    return type.type;
+  }
+
+  formatIdentifier(name: string): string {
+    if (/^[A-Za-z_][A-Za-z0-9_$]*$/.test(name) && !Lexer.isKeyword(name)) {
+      return name;
+    }
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  private formatColumnDefinition(column: ColumnDefinition): string {
+    // SERIAL implies the DEFAULT that takes values from the column's sequence
+    let definition = `${this.formatIdentifier(column.name)} ${column.autoIncrement ? 'serial' : this.formatDataType(column)}`;
+    if (column.primaryKey) {
+      definition += ' PRIMARY KEY';
+    }
+    if (column.unique) {
+      definition += ' UNIQUE';
+    }
+    // Primary keys and SERIAL columns are implicitly NOT NULL
+    if (!column.nullable && !column.primaryKey && !column.autoIncrement) {
+      definition += ' NOT NULL';
+    }
+    if (column.default && !column.autoIncrement) {
+      definition += ` DEFAULT ${this.formatExpression(column.default)}`;
+    }
+    if (column.references) {
+      definition += ` REFERENCES ${this.formatReferences(column.references)}`;
+    }
+    if (column.check) {
+      definition += ` CHECK (${this.formatExpression(column.check)})`;
+    }
+    return definition;
+  }
+
+  private formatSelectItem(item: SelectItem): string {
+    if (item.type === 'ALL') {
+      return item.table ? `${this.formatIdentifier(item.table)}.*` : '*';
+    }
+    // Without an alias, a column is named after its expression
+    const text = this.formatExpression(item.expression);
+    return item.name === text ? text : `${text} AS ${this.formatIdentifier(item.name)}`;
+  }
+
+  private formatTableReference(reference: TableReference): string {
+    if (reference.type === 'SUBQUERY') {
+      return `(${this.formatSelect(reference.query)}) AS ${this.formatIdentifier(reference.alias)}`;
+    }
+    const name = this.formatIdentifier(reference.name);
+    return reference.alias ? `${name} ${this.formatIdentifier(reference.alias)}` : name;
+  }
+
+  private formatOperand(operand: Expression, parent: Expression): string {
+    const text = this.formatExpression(operand);
+    const operandPrecedence = this.precedence(operand);
+    const parentPrecedence = this.precedence(parent) ?? 0;
+
+    if (operandPrecedence === undefined || operandPrecedence > parentPrecedence) {
+      return text;
+    }
+    // AND and OR are associative, so chains of the same operator need no parentheses
+    if (operand.type === parent.type && (parent.type === 'AND' || parent.type === 'OR')) {
+      return text;
+    }
+    // Arithmetic, || and the JSON operators group from the left
+    const first = parent.type === 'JSON_ACCESS' ? parent.operand : 'left' in parent ? parent.left : undefined;
+    if (operand === first && operandPrecedence === parentPrecedence && parent.type !== 'COMPARISON') {
+      return text;
+    }
+    return `(${text})`;
+  }
+
+  private precedence(expression: Expression): number | undefined {
+    return expression.type === 'ARITHMETIC' ? ARITHMETIC_PRECEDENCE[expression.operator] : PRECEDENCE[expression.type];
+  }
+}
@@ -0,0 +1,101 @@
+import { ColumnExpression, ColumnType } from './types';
+
+export interface ScopeSource {
+  // Alias of the table, or its name when it has no alias
+  name: string;
+  columns: string[];
+  // Types of the columns in the same order, where they are known
+  types?: (ColumnType | undefined)[];
+}
+
+export interface ResolvedColumn {
+  // Key of the column in the row it belongs to
+  key: string;
+  // 0 for the current query, 1 for the enclosing query, and so on
+  depth: number;
+  type?: ColumnType;
+}
+
+/**
+ * The tables visible to a query. Resolves column references to the key
+ * they have in the rows being evaluated: plain column names when a single
+ * table is in scope, and name.column once several tables are joined.
+ * Columns not found here are looked up in the enclosing query's scope,
+ * which is how correlated subqueries see their outer row.
+ */
+export class Scope {
+  private sources: ScopeSource[];
+  private parent?: Scope;
+  private resolved: Map<ColumnExpression, ResolvedColumn>;
+  private correlated: boolean;
+
+  constructor(sources: ScopeSource[], parent?: Scope) {
+    this.sources = sources;
+    this.parent = parent;
+    this.resolved = new Map();
+    this.correlated = false;
+  }
+
+  /** True once a column has been resolved against an enclosing query. */
+  isCorrelated(): boolean {
+    return this.correlated;
+  }
+
+  getSources(): ScopeSource[] {
+    return this.sources;
+  }
+
+  isQualified(): boolean {
+    return this.sources.length > 1;
+  }
+
+  keyFor(source: ScopeSource, column: string): string {
+    return this.isQualified() ? `${source.name}.${column}` : column;
+  }
+
+  resolve(expression: ColumnExpression): ResolvedColumn {
+    const cached = this.resolved.get(expression);
+    if (cached !== undefined) return cached;
+
+    let resolved = this.lookup(expression, !this.parent);
+    if (!resolved) {
+      const outer = this.parent!.resolve(expression);
+      this.correlated = true;
+      resolved = { ...outer, depth: outer.depth + 1 };
+    }
+
+    this.resolved.set(expression, resolved);
+    return resolved;
+  }
+
+  // Returns undefined when the column is not visible here and may belong to an enclosing query
+  private lookup(expression: ColumnExpression, required: boolean): ResolvedColumn | undefined {
+    if (expression.table) {
+      const source = this.sources.find(s => s.name === expression.table);
+      if (!source) {
+        if (!required) return undefined;
+        throw new Error(`Unknown table or alias ${expression.table} in column ${expression.table}.${expression.column}`);
+      }
+      if (!source.columns.includes(expression.column)) {
+        throw new Error(`Column ${expression.table}.${expression.column} does not exist`);
+      }
+      return this.column(source, expression.column);
+    }
+
+    const matches = this.sources.filter(s => s.columns.includes(expression.column));
+    if (matches.length === 0) {
+      if (!required) return undefined;
+      throw new Error(`Column ${expression.column} does not exist`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `Column reference ${expression.column} is ambiguous; qualify it with one of ${matches.map(s => s.name).join(', ')}`
+      );
+    }
+    return this.column(matches[0], expression.column);
+  }
+
+  private column(source: ScopeSource, column: string): ResolvedColumn {
+    return { key: this.keyFor(source, column), depth: 0, type: source.types?.[source.columns.indexOf(column)] };
+  }
+}
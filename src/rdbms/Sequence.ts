@@ -0,0 +1,60 @@
+// The state of a sequence, as saved by checkpoints and savepoints
+export interface SequenceState {
+  name: string;
+  start: number;
+  increment: number;
+  // The last value handed out, or the start while the sequence is unused
+  value: number;
+  // False until the first nextval, which then returns value itself
+  called: boolean;
+  // The table whose SERIAL column created the sequence, which drops it along with the table
+  ownedBy?: string;
+}
+
+/**
+ * A counter that hands out increasing (or, with a negative increment,
+ * decreasing) numbers. Used by SERIAL columns and by nextval, currval and
+ * setval.
+ */
+export class Sequence {
+  private state: SequenceState;
+
+  constructor(state: SequenceState) {
+    this.state = { ...state };
+  }
+
+  getName(): string {
+    return this.state.name;
+  }
+
+  getState(): SequenceState {
+    return { ...this.state };
+  }
+
+  restore(state: SequenceState): void {
+    this.state = { ...state };
+  }
+
+  next(): number {
+    if (this.state.called) {
+      this.state.value += this.state.increment;
+    } else {
+      this.state.called = true;
+    }
+    return this.state.value;
+  }
+
+  current(): number {
+    if (!this.state.called) {
+      throw new Error(`currval of sequence ${this.state.name} is not yet defined`);
+    }
+    return this.state.value;
+  }
+
+  /** Sets the last value; with called false, the next call to next() returns value itself. */
+  set(value: number, called = true): number {
+    this.state.value = value;
+    this.state.called = called;
+    return value;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Where a persistent database keeps its files. Calls are synchronous, like
+ * the rest of the engine, and each method must be durable when it returns.
+ */
+export interface StorageAdapter {
+  /** Returns the contents of the file, or null when it does not exist. */
+  read(name: string): string | null;
+  /** Replaces the file atomically: readers see either the old or the new contents. */
+  write(name: string, data: string): void;
+  /** Appends to the file, creating it when it does not exist. */
+  append(name: string, data: string): void;
+}
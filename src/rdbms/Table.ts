@@ -1,69 +1,116 @@
-import { Row, TableSchema, ColumnType } from './types';
+import {
+  Row,
+  TableSchema,
+  ColumnDefinition,
+  Expression,
+  IndexAccess,
+  IndexDefinition,
+  IndexKey,
+  IndexMethod,
+  UniqueKey,
+  Value,
+} from './types';
 import { Index } from './index';
+import { BTreeIndex } from './BTreeIndex';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { Scope } from './Scope';
+import { SQLFormatter } from './SQLFormatter';
+import { TypeConverter } from './TypeConverter';
+import type { Database } from './Database';
+
+// The rows and schema of a table at some point in time, used to roll back transactions
+export interface TableSnapshot {
+  rows: Row[];
+  schema: TableSchema;
+}
+
+// An index of a table: one backs each PRIMARY KEY and UNIQUE constraint, the others come from CREATE INDEX
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  method: IndexMethod;
+  // Indexes that back a constraint are dropped only with the table
+  constraint: boolean;
+}
+
+interface TableIndex extends IndexInfo {
+  // What a duplicate violates, e.g. "primary key column id"
+  description: string;
+  index: Index | BTreeIndex;
+}
+
+// A change to another table required by a foreign key's ON DELETE or ON UPDATE action
+type ReferentialStep = () => { success: boolean; error?: string };
 
 export class Table {
   private rows: Row[];
   private schema: TableSchema;
-  private indexes: Map<string, Index>;
-  
-
-  constructor(schema: TableSchema) {
+  private indexes: TableIndex[];
+  // The database the table belongs to, which resolves foreign keys and tracks transactions
+  private database?: Database;
+  // Evaluates DEFAULT expressions and CHECK constraints
+  private evaluator: ExpressionEvaluator;
+  private formatter: SQLFormatter;
+  private converter: TypeConverter;
+
+  constructor(schema: TableSchema, database?: Database) {
     this.schema = schema;
     this.rows = [];
-    this.indexes = new Map();
-
-    this.schema.columns.forEach(col => {
-      if (col.primaryKey || col.unique) {
-        this.indexes.set(col.name, new Index());
-      }
-    });
+    this.indexes = [];
+    this.database = database;
+    this.evaluator = new ExpressionEvaluator(
+      undefined,
+      database ? (name, args) => database.callFunction(name, args) : undefined
+    );
+    this.formatter = new SQLFormatter();
+    this.converter = new TypeConverter();
+    this.rebuildIndexes();
   }
 
   getSchema(): TableSchema {
     return this.schema;
   }
 
-  insert(row: Partial<Row>): { success: boolean; error?: string } {
+  /** Adds a row, returning it as stored, with defaults filled in. */
+  insert(row: Partial<Row>): { success: boolean; error?: string; row?: Row } {
     const newRow: Row = {};
 
     for (const col of this.schema.columns) {
-      const value = row[col.name];
-
-      if (value === undefined || value === null) {
-        if (!col.nullable && !col.primaryKey) {
-          return { success: false, error: `Column ${col.name} cannot be null` };
-        }
-        newRow[col.name] = null;
-        continue;
+      let value = row[col.name];
+      if (value === undefined && col.default) {
+        value = this.evaluator.evaluate(col.default, {});
       }
 
-      if (!this.validateType(value, col.type)) {
-        return { success: false, error: `Invalid type for column ${col.name}` };
+      const converted = this.convertValue(col, value ?? null);
+      if (converted.error) {
+        return { success: false, error: converted.error };
       }
+      newRow[col.name] = converted.value!;
+    }
 
-      if (col.unique || col.primaryKey) {
-        const index = this.indexes.get(col.name);
-        if (index && index.find(value).length > 0) {
-          return { success: false, error: `Duplicate value for ${col.primaryKey ? 'primary key' : 'unique'} column ${col.name}` };
-        }
+    for (const { unique, columns, description, index } of this.indexes) {
+      const key = this.indexKey(newRow, columns);
+      if (unique && key !== null && index.find(key).length > 0) {
+        return { success: false, error: `Duplicate value for ${description}` };
       }
+    }
 
-      newRow[col.name] = value;
+    const violation = this.checkConstraints(newRow) ?? this.checkForeignKeys(newRow, this.schema.columns);
+    if (violation) {
+      return { success: false, error: violation };
     }
 
+    this.database?.beforeWrite(this);
+
     const rowIndex = this.rows.length;
     this.rows.push(newRow);
 
-    this.schema.columns.forEach(col => {
-      if (col.primaryKey || col.unique) {
-        const index = this.indexes.get(col.name);
-        if (index && newRow[col.name] !== null) {
-          index.add(newRow[col.name] as string | number | boolean, rowIndex);
-        }
-      }
-    });
+    for (const { columns, index } of this.indexes) {
+      index.add(this.indexKey(newRow, columns), rowIndex);
+    }
 
-    return { success: true };
+    return { success: true, row: newRow };
   }
 
   select(columns: string[] = []): Row[] {
@@ -82,99 +129,613 @@ export class Table {
     });
   }
 
-  update(updates: Partial<Row>, predicate: (row: Row) => boolean): number {
-    let updatedCount = 0;
+  /**
+   * Updates the rows that match the predicate, considering only the rows an
+   * index access reads when given. changes gives the new values for a row,
+   * which may depend on its current ones.
+   */
+  update(
+    changes: (row: Row) => Partial<Row>,
+    predicate: (row: Row) => boolean,
+    access?: IndexAccess
+  ): { success: boolean; error?: string; count: number } {
+    const matched = this.candidates(access).filter(idx => predicate(this.rows[idx]));
+
+    // The values as the columns store them; unknown columns are left out
+    const rowUpdates: Partial<Row>[] = [];
+    for (const idx of matched) {
+      const updates = changes(this.rows[idx]);
+      const converted: Partial<Row> = {};
+      for (const col of this.schema.columns) {
+        const value = updates[col.name];
+        if (value === undefined) continue;
+
+        const result = this.convertValue(col, value);
+        if (result.error) {
+          return { success: false, error: result.error, count: 0 };
+        }
+        converted[col.name] = result.value;
+      }
+      rowUpdates.push(converted);
+    }
+
+    const updatedRows = matched.map((idx, i) => this.updatedRow(this.rows[idx], rowUpdates[i]));
+    for (const row of updatedRows) {
+      const checkViolation = this.checkConstraints(row);
+      if (checkViolation) {
+        return { success: false, error: checkViolation, count: 0 };
+      }
+    }
 
-    this.rows.forEach((row, idx) => {
-      if (predicate(row)) {
-        for (const [key, value] of Object.entries(updates)) {
-          const col = this.schema.columns.find(c => c.name === key);
-          if (!col) continue;
+    const changed = this.schema.columns.filter(col => rowUpdates.some(updates => updates[col.name] !== undefined));
+    const changedIndexes = this.indexes.filter(({ columns }) => columns.some(name => changed.some(col => col.name === name)));
+    const keyViolation = this.checkUpdatedKeys(changedIndexes, matched, updatedRows);
+    if (keyViolation) {
+      return { success: false, error: keyViolation, count: 0 };
+    }
 
-          const v = value as string | number | boolean | null | undefined;
-          if (v === undefined) continue;
+    for (const row of updatedRows) {
+      const violation = this.checkForeignKeys(row, changed);
+      if (violation) {
+        return { success: false, error: violation, count: 0 };
+      }
+    }
 
-          if (v !== null && !this.validateType(v, col.type)) {
-            continue;
-          }
+    const referential = this.referentialSteps(
+      matched.map(idx => this.rows[idx]),
+      updatedRows
+    );
+    if (referential.error) {
+      return { success: false, error: referential.error, count: 0 };
+    }
 
-          if ((col.unique || col.primaryKey) && v !== row[key]) {
-            const index = this.indexes.get(key);
-            if (index) {
-              index.remove(row[key] as string | number | boolean | null, idx);
-              index.add(v as string | number | boolean | null, idx);
-            }
-          }
+    return this.applyChange(referential.steps, matched.length, () => {
+      this.database?.beforeWrite(this);
 
-          row[key] = v as any;
-        }
-        updatedCount++;
-      }
+      matched.forEach((idx, i) => {
+        const row = this.rows[idx];
+        changedIndexes.forEach(({ columns, index }) => index.remove(this.indexKey(row, columns), idx));
+
+        Object.assign(row, rowUpdates[i]);
+
+        changedIndexes.forEach(({ columns, index }) => index.add(this.indexKey(row, columns), idx));
+      });
     });
+  }
+
+  delete(predicate: (row: Row) => boolean, access?: IndexAccess): { success: boolean; error?: string; count: number } {
+    const toDelete = this.candidates(access).filter(idx => predicate(this.rows[idx]));
+
+    const referential = this.referentialSteps(toDelete.map(idx => this.rows[idx]));
+    if (referential.error) {
+      return { success: false, error: referential.error, count: 0 };
+    }
 
-    return updatedCount;
+    return this.applyChange(referential.steps, toDelete.length, () => {
+      this.database?.beforeWrite(this);
+
+      [...toDelete].reverse().forEach(idx => {
+        this.rows.splice(idx, 1);
+      });
+
+      // Removing rows shifts the positions of the rows after them
+      this.rebuildIndexes();
+    });
   }
 
-  delete(predicate: (row: Row) => boolean): number {
-    const toDelete: number[] = [];
+  /**
+   * Removes the foreign keys that reference the given table, as DROP TABLE
+   * ... CASCADE does, or only those that reference one of its columns.
+   */
+  dropForeignKeys(tableName: string, columnName?: string): void {
+    this.database?.beforeWrite(this);
+    for (const col of this.schema.columns) {
+      if (col.references?.table === tableName && (columnName === undefined || col.references.column === columnName)) {
+        delete col.references;
+      }
+    }
+  }
 
-    this.rows.forEach((row, idx) => {
-      if (predicate(row)) {
-        toDelete.push(idx);
+  /** Points the foreign keys that reference a renamed table, or a renamed column of it, at the new name. */
+  renameForeignKeys(tableName: string, newTableName: string, columnName?: string, newColumnName?: string): void {
+    const foreignKeys = this.schema.columns.flatMap(col => (col.references?.table === tableName ? [col.references] : []));
+    if (foreignKeys.length === 0) return;
+
+    this.database?.beforeWrite(this);
+    for (const foreignKey of foreignKeys) {
+      foreignKey.table = newTableName;
+      if (columnName !== undefined && foreignKey.column === columnName) {
+        foreignKey.column = newColumnName!;
       }
-    });
+    }
+  }
 
-    toDelete.reverse().forEach(idx => {
-      const row = this.rows[idx];
-      this.schema.columns.forEach(col => {
-        if (col.primaryKey || col.unique) {
-          const index = this.indexes.get(col.name);
-          if (index) {
-            index.remove(row[col.name], idx);
-          }
-        }
-      });
-      this.rows.splice(idx, 1);
+  /**
+   * Adds a column, filled in the existing rows with its default, or NULL.
+   * Fails without changing the table when a filled-in value breaks one of
+   * the column's constraints.
+   */
+  addColumn(column: ColumnDefinition): { success: boolean; error?: string } {
+    if (!column.nullable && !column.default && this.rows.length > 0) {
+      return { success: false, error: `Column ${column.name} needs a DEFAULT to be NOT NULL, since table ${this.schema.name} has rows` };
+    }
+
+    const rows: Row[] = [];
+    const scope = this.checkScope([...this.schema.columns, column]);
+    for (const row of this.rows) {
+      const converted = this.convertValue(column, column.default ? this.evaluator.evaluate(column.default, {}) : null);
+      if (converted.error) {
+        return { success: false, error: converted.error };
+      }
+
+      const newRow = { ...row, [column.name]: converted.value! };
+      if (column.check && this.evaluator.test(column.check, newRow, { scope }) === false) {
+        return {
+          success: false,
+          error: `Check constraint violation on ${this.schema.name}.${column.name}: ${this.formatter.formatExpression(column.check)}`,
+        };
+      }
+      const violation = this.checkForeignKeys(newRow, [column]);
+      if (violation) {
+        return { success: false, error: violation };
+      }
+      rows.push(newRow);
+    }
+
+    if ((column.primaryKey || column.unique) && this.hasDuplicateKeys(rows, [column.name])) {
+      return { success: false, error: `Duplicate value for ${this.describeKey({ columns: [column.name], primary: !!column.primaryKey })}` };
+    }
+
+    const schema = structuredClone(this.schema);
+    schema.columns.push(column);
+    if (column.primaryKey) {
+      schema.primaryKey = column.name;
+    }
+    this.replace(schema, rows);
+    return { success: true };
+  }
+
+  /** Removes a column together with the keys, indexes and CHECK constraints that involve it, as PostgreSQL does. */
+  dropColumn(name: string): void {
+    const schema = structuredClone(this.schema);
+    schema.columns = schema.columns.filter(col => col.name !== name);
+    if (schema.primaryKey === name) {
+      delete schema.primaryKey;
+    }
+    schema.uniqueKeys = schema.uniqueKeys?.filter(key => !key.columns.includes(name));
+    schema.indexes = schema.indexes?.filter(index => !index.columns.includes(name));
+    schema.checks = schema.checks?.filter(check => !this.mentionsColumn(check, name));
+    for (const col of schema.columns) {
+      if (col.check && this.mentionsColumn(col.check, name)) {
+        delete col.check;
+      }
+    }
+
+    const rows = this.rows.map(row => {
+      const newRow = { ...row };
+      delete newRow[name];
+      return newRow;
     });
+    this.replace(schema, rows);
+  }
+
+  /** Renames a column in the rows and wherever the schema mentions it. */
+  renameColumn(name: string, newName: string): void {
+    const schema = structuredClone(this.schema);
+    for (const col of schema.columns) {
+      if (col.name === name) {
+        col.name = newName;
+      }
+      if (col.check) {
+        this.renameColumnReferences(col.check, name, newName);
+      }
+    }
+    schema.checks?.forEach(check => this.renameColumnReferences(check, name, newName));
+    if (schema.primaryKey === name) {
+      schema.primaryKey = newName;
+    }
+    const rename = (columns: string[]) => columns.map(column => (column === name ? newName : column));
+    schema.uniqueKeys?.forEach(key => (key.columns = rename(key.columns)));
+    schema.indexes?.forEach(index => (index.columns = rename(index.columns)));
+
+    // Keeps the columns of each row in their order
+    const rows = this.rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key === name ? newName : key, value])));
+    this.replace(schema, rows);
+  }
+
+  /** Renames the table. The indexes of its constraints, which are named after it, are renamed with it. */
+  rename(newName: string): void {
+    const schema = structuredClone(this.schema);
+    const renameTable = (expression: Expression) => {
+      if (expression.type === 'COLUMN' && expression.table === schema.name) {
+        expression.table = newName;
+      }
+      this.evaluator.children(expression).forEach(renameTable);
+    };
+    schema.columns.forEach(col => col.check && renameTable(col.check));
+    schema.checks?.forEach(renameTable);
+    schema.name = newName;
+    this.replace(schema, this.rows);
+  }
+
+  /** Makes a column nullable or NOT NULL, failing for NOT NULL when a row holds a NULL. */
+  setNullable(name: string, nullable: boolean): { success: boolean; error?: string } {
+    const inPrimaryKey = this.uniqueKeys().some(key => key.primary && key.columns.includes(name));
+    if (nullable && inPrimaryKey) {
+      return { success: false, error: `Column ${name} is in the primary key, so it cannot be nullable` };
+    }
+    if (!nullable && this.rows.some(row => row[name] === null)) {
+      return { success: false, error: `Column ${name} contains NULL values` };
+    }
+
+    const schema = structuredClone(this.schema);
+    schema.columns.find(col => col.name === name)!.nullable = nullable;
+    this.replace(schema, this.rows);
+    return { success: true };
+  }
+
+  /** Adds a UNIQUE constraint, failing when existing rows already share a key. */
+  addUniqueKey(columns: string[]): { success: boolean; error?: string } {
+    if (this.uniqueKeys().some(existing => existing.columns.join() === columns.join())) {
+      return { success: false, error: `Table ${this.schema.name} already has a key on (${columns.join(', ')})` };
+    }
+    if (this.hasDuplicateKeys(this.rows, columns)) {
+      return { success: false, error: `Cannot add UNIQUE (${columns.join(', ')}): existing rows contain duplicate values` };
+    }
+
+    const schema = structuredClone(this.schema);
+    if (columns.length === 1) {
+      schema.columns.find(col => col.name === columns[0])!.unique = true;
+    } else {
+      schema.uniqueKeys = [...(schema.uniqueKeys ?? []), { columns, primary: false }];
+    }
+    this.replace(schema, this.rows);
+    return { success: true };
+  }
+
+  /** Drops the PRIMARY KEY or UNIQUE constraint whose index has the given name. */
+  dropUniqueKey(name: string): { success: boolean; error?: string } {
+    const found = this.indexes.find(index => index.constraint && index.name === name);
+    if (!found) {
+      return { success: false, error: `Constraint ${name} does not exist on table ${this.schema.name}` };
+    }
 
+    const schema = structuredClone(this.schema);
+    const primary = name === `${this.schema.name}_pkey`;
+    if (found.columns.length > 1) {
+      schema.uniqueKeys = schema.uniqueKeys?.filter(key => key.primary !== primary || key.columns.join() !== found.columns.join());
+    } else {
+      const col = schema.columns.find(column => column.name === found.columns[0])!;
+      if (primary) {
+        delete col.primaryKey;
+        delete schema.primaryKey;
+      } else {
+        delete col.unique;
+      }
+    }
+    this.replace(schema, this.rows);
+    return { success: true };
+  }
+
+  /** Adds an index, failing for a unique index when existing rows already share a key. */
+  createIndex(definition: IndexDefinition): { success: boolean; error?: string } {
+    if (definition.unique && this.hasDuplicateKeys(this.rows, definition.columns)) {
+      return {
+        success: false,
+        error: `Cannot create unique index ${definition.name}: (${definition.columns.join(', ')}) contains duplicate values`,
+      };
+    }
+
+    this.database?.beforeWrite(this);
+    this.schema.indexes = [...(this.schema.indexes ?? []), definition];
     this.rebuildIndexes();
+    return { success: true };
+  }
 
-    return toDelete.length;
+  dropIndex(name: string): void {
+    this.database?.beforeWrite(this);
+    this.schema.indexes = this.schema.indexes?.filter(definition => definition.name !== name);
+    this.rebuildIndexes();
+  }
+
+  getIndexes(): IndexInfo[] {
+    return this.indexes.map(({ name, columns, unique, method, constraint }) => ({
+      name,
+      columns,
+      unique,
+      method,
+      constraint,
+    }));
   }
 
+  /** Finds rows by value through an index on the column, or returns none when there is no such index. */
   findByIndex(columnName: string, value: string | number | boolean): Row[] {
-    const index = this.indexes.get(columnName);
-    if (!index) return [];
+    const tableIndex = this.indexes.find(({ columns }) => columns.length === 1 && columns[0] === columnName);
+    if (!tableIndex) return [];
 
-    const rowIndexes = index.find(value);
+    const rowIndexes = tableIndex.index.find([value]);
     return rowIndexes.map(idx => ({ ...this.rows[idx] }));
   }
 
-  private validateType(value: unknown, type: ColumnType): boolean {
-    switch (type) {
-      case 'string':
-        return typeof value === 'string';
-      case 'number':
-        return typeof value === 'number';
-      case 'boolean':
-        return typeof value === 'boolean';
-      default:
-        return false;
+  /** Returns the rows an index access reads: those with the key in table order, or those within the range in key order. */
+  readIndex(access: IndexAccess): Row[] {
+    return this.indexPositions(access).map(idx => ({ ...this.rows[idx] }));
+  }
+
+  snapshot(): TableSnapshot {
+    return { rows: this.rows.map(row => ({ ...row })), schema: structuredClone(this.schema) };
+  }
+
+  restore(snapshot: TableSnapshot): void {
+    // Copy again: the same snapshot may be restored more than once
+    this.rows = snapshot.rows.map(row => ({ ...row }));
+    this.schema = structuredClone(snapshot.schema);
+    this.rebuildIndexes();
+  }
+
+  // Returns an error when a CHECK constraint is false for the row; NULL (UNKNOWN) passes, as in SQL
+  private checkConstraints(row: Row): string | undefined {
+    const scope = this.checkScope();
+    for (const col of this.schema.columns) {
+      if (col.check && this.evaluator.test(col.check, row, { scope }) === false) {
+        return `Check constraint violation on ${this.schema.name}.${col.name}: ${this.formatter.formatExpression(col.check)}`;
+      }
+    }
+    for (const check of this.schema.checks ?? []) {
+      if (this.evaluator.test(check, row, { scope }) === false) {
+        return `Check constraint violation on ${this.schema.name}: ${this.formatter.formatExpression(check)}`;
+      }
+    }
+    return undefined;
+  }
+
+  // CHECK constraints see the columns of the row, with their types, so that they compute as queries do
+  private checkScope(columns = this.schema.columns): Scope {
+    return new Scope([{ name: this.schema.name, columns: columns.map(col => col.name), types: columns.map(col => col.type) }]);
+  }
+
+  // The row as update() will leave it, given updates already converted to the column types
+  private updatedRow(row: Row, updates: Partial<Row>): Row {
+    return { ...row, ...updates } as Row;
+  }
+
+  // Returns an error when updating the matched rows to updatedRows would give two rows the same key
+  private checkUpdatedKeys(indexes: TableIndex[], matched: number[], updatedRows: Row[]): string | undefined {
+    const matchedRows = new Set(matched);
+
+    for (const { unique, columns, description, index } of indexes) {
+      if (!unique) continue;
+      const seen = new Set<string>();
+
+      for (const row of updatedRows) {
+        const key = this.indexKey(row, columns);
+        if (key === null) continue;
+
+        // Rows being updated give up their old keys, so only the other rows can conflict
+        const text = JSON.stringify(key);
+        if (seen.has(text) || index.find(key).some(idx => !matchedRows.has(idx))) {
+          return `Duplicate value for ${description}`;
+        }
+        seen.add(text);
+      }
     }
+    return undefined;
   }
 
-  private rebuildIndexes(): void {
-    this.indexes.forEach(index => index.clear());
-
-    this.rows.forEach((row, idx) => {
-      this.schema.columns.forEach(col => {
-        if (col.primaryKey || col.unique) {
-          const index = this.indexes.get(col.name);
-          if (index && row[col.name] !== null) {
-            index.add(row[col.name] as string | number | boolean, idx);
+  // Returns an error when a foreign key value of the row has no matching row in the referenced table
+  private checkForeignKeys(row: Row, columns: ColumnDefinition[]): string | undefined {
+    for (const col of columns) {
+      const foreignKey = col.references;
+      const value = row[col.name];
+      if (!foreignKey || value === null || value === undefined) continue;
+
+      // A row may reference itself
+      if (foreignKey.table === this.schema.name && row[foreignKey.column] === value) continue;
+
+      const parent = this.database?.getTable(foreignKey.table);
+      if (!parent || parent.findByIndex(foreignKey.column, value).length === 0) {
+        return `Foreign key violation: ${this.schema.name}.${col.name} = ${value} has no matching ${foreignKey.table}.${foreignKey.column}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Works out what deleting the given rows, or updating them to updatedRows,
+   * means for the rows of other tables that reference them. RESTRICT is
+   * checked here, before anything changes; CASCADE and SET NULL become
+   * steps to run once this table has changed.
+   */
+  private referentialSteps(rows: Row[], updatedRows?: Row[]): { error?: string; steps: ReferentialStep[] } {
+    const steps: ReferentialStep[] = [];
+    if (!this.database || rows.length === 0) {
+      return { steps };
+    }
+
+    for (const { table: child, column } of this.database.getReferences(this.schema.name)) {
+      const foreignKey = column.references!;
+
+      // The referenced values that go away, with the values that replace them when updating
+      const replaced = new Map<Value, Value>();
+      rows.forEach((row, i) => {
+        const value = row[foreignKey.column];
+        const newValue = updatedRows ? updatedRows[i][foreignKey.column] : null;
+        if (value !== null && (!updatedRows || value !== newValue)) {
+          replaced.set(value, newValue);
+        }
+      });
+      if (replaced.size === 0) continue;
+
+      const references = (row: Row) => replaced.has(row[column.name]);
+      // Rows deleted together with the rows they reference do not hold up the delete
+      const deleted = !updatedRows && child === this ? new Set(rows) : undefined;
+      if (!child.rows.some(row => references(row) && !deleted?.has(row))) continue;
+
+      const action = updatedRows ? foreignKey.onUpdate : foreignKey.onDelete;
+      if (action === 'RESTRICT') {
+        const change = updatedRows ? `update ${this.schema.name}.${foreignKey.column}` : `delete from ${this.schema.name}`;
+        return {
+          error: `Cannot ${change}: rows are still referenced by ${child.schema.name}.${column.name}`,
+          steps,
+        };
+      }
+
+      if (action === 'SET NULL') {
+        steps.push(() => child.update(() => ({ [column.name]: null }), references));
+      } else if (updatedRows) {
+        steps.push(() => child.update(row => ({ [column.name]: replaced.get(row[column.name])! }), references));
+      } else {
+        steps.push(() => child.delete(references));
+      }
+    }
+
+    return { steps };
+  }
+
+  // Changes this table and then runs the referential steps, undoing everything if a step fails
+  private applyChange(
+    steps: ReferentialStep[],
+    count: number,
+    change: () => void
+  ): { success: boolean; error?: string; count: number } {
+    if (steps.length === 0) {
+      change();
+      return { success: true, count };
+    }
+
+    try {
+      this.database!.atomic(() => {
+        change();
+        for (const step of steps) {
+          const result = step();
+          if (!result.success) {
+            throw new Error(result.error);
           }
         }
       });
+      return { success: true, count };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error', count: 0 };
+    }
+  }
+
+  // Puts a new schema and rows in place of the old ones, as ALTER TABLE does
+  private replace(schema: TableSchema, rows: Row[]): void {
+    this.database?.beforeWrite(this);
+    this.schema = schema;
+    this.rows = rows;
+    this.rebuildIndexes();
+  }
+
+  private hasDuplicateKeys(rows: Row[], columns: string[]): boolean {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const key = this.indexKey(row, columns);
+      if (key === null) continue;
+      const text = JSON.stringify(key);
+      if (seen.has(text)) return true;
+      seen.add(text);
+    }
+    return false;
+  }
+
+  private mentionsColumn(expression: Expression, name: string): boolean {
+    if (expression.type === 'COLUMN') {
+      return expression.column === name;
+    }
+    return this.evaluator.children(expression).some(child => this.mentionsColumn(child, name));
+  }
+
+  // Changes the expression in place; it belongs to a copy of the schema
+  private renameColumnReferences(expression: Expression, name: string, newName: string): void {
+    if (expression.type === 'COLUMN' && expression.column === name) {
+      expression.column = newName;
+    }
+    this.evaluator.children(expression).forEach(child => this.renameColumnReferences(child, name, newName));
+  }
+
+  // The value as the column stores it, or an error when the column cannot hold it
+  private convertValue(col: ColumnDefinition, value: Value): { value?: Value; error?: string } {
+    if (value === null) {
+      return !col.nullable && !col.primaryKey ? { error: `Column ${col.name} cannot be null` } : { value: null };
+    }
+
+    const converted = this.converter.assign(value, col);
+    if (converted === undefined) {
+      return {
+        error: `Invalid value ${this.formatter.formatValue(value)} for column ${col.name}: expected ${this.formatter.formatDataType(col)}`,
+      };
+    }
+    return { value: converted };
+  }
+
+  private indexPositions(access: IndexAccess): number[] {
+    const tableIndex = this.indexes.find(candidate => candidate.name === access.index);
+    if (!tableIndex) {
+      throw new Error(`Index ${access.index} does not exist on table ${this.schema.name}`);
+    }
+
+    if (access.key) {
+      return [...tableIndex.index.find(access.key)].sort((a, b) => a - b);
+    }
+    if (!(tableIndex.index instanceof BTreeIndex)) {
+      throw new Error(`Index ${access.index} is not a B-tree index`);
+    }
+    return [...tableIndex.index.scan(access.range)];
+  }
+
+  // Positions of the rows an UPDATE or DELETE considers, in table order
+  private candidates(access?: IndexAccess): number[] {
+    if (!access) {
+      return this.rows.map((_, idx) => idx);
+    }
+    return this.indexPositions(access).sort((a, b) => a - b);
+  }
+
+  // Every PRIMARY KEY and UNIQUE constraint, whether declared on one column or several
+  private uniqueKeys(): UniqueKey[] {
+    const keys = this.schema.columns
+      .filter(col => col.primaryKey || col.unique)
+      .map(col => ({ columns: [col.name], primary: !!col.primaryKey }));
+    return [...keys, ...(this.schema.uniqueKeys ?? [])];
+  }
+
+  // The values a row is indexed by. Rows with a NULL in any key column
+  // are not indexed, since NULLs never conflict.
+  private indexKey(row: Row, columns: string[]): IndexKey | null {
+    const values = columns.map(name => row[name] ?? null);
+    return values.includes(null) ? null : (values as IndexKey);
+  }
+
+  private describeKey(key: UniqueKey): string {
+    if (key.columns.length === 1) {
+      return `${key.primary ? 'primary key' : 'unique'} column ${key.columns[0]}`;
+    }
+    return `${key.primary ? 'primary key' : 'unique key'} (${key.columns.join(', ')})`;
+  }
+
+  // Also recreates the indexes, since the schema's keys and indexes may have changed.
+  // Indexes of constraints are named the way PostgreSQL names them.
+  private rebuildIndexes(): void {
+    const keys = this.uniqueKeys().map(key => ({
+      name: key.primary ? `${this.schema.name}_pkey` : `${this.schema.name}_${key.columns.join('_')}_key`,
+      columns: key.columns,
+      unique: true,
+      method: 'hash' as const,
+      constraint: true,
+      description: this.describeKey(key),
+    }));
+    const created = (this.schema.indexes ?? []).map(definition => ({
+      ...definition,
+      method: definition.method ?? 'hash',
+      constraint: false,
+      description: `${definition.unique ? 'unique ' : ''}index ${definition.name}`,
+    }));
+
+    this.indexes = [...keys, ...created].map(info => {
+      const index = info.method === 'btree' ? new BTreeIndex((a, b) => this.evaluator.compare(a, b)) : new Index();
+      this.rows.forEach((row, idx) => index.add(this.indexKey(row, info.columns), idx));
+      return { ...info, index };
     });
   }
 }
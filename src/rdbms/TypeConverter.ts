@@ -0,0 +1,177 @@
+import { ColumnType, DataType, Value } from './types';
+import { SQLFormatter } from './SQLFormatter';
+
+// Decimal digits a double holds exactly, so decimals of up to this many digits keep every digit
+export const MAX_DECIMAL_PRECISION = 15;
+
+// Text accepted as a boolean, as by PostgreSQL
+const TRUE_TEXT = new Set(['true', 't', 'yes', 'y', 'on', '1']);
+const FALSE_TEXT = new Set(['false', 'f', 'no', 'n', 'off', '0']);
+
+// YYYY-MM-DD, optionally followed by a time of day: HH:MM, HH:MM:SS or HH:MM:SS.ffffff
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?)?$/;
+
+const NUMERIC_TYPES = new Set<ColumnType>(['integer', 'real', 'decimal']);
+
+/**
+ * Checks and converts values for the column types. Columns accept only
+ * values of their own type: assign() rejects a number for a string column
+ * or 1.5 for an integer column. Conversions between types happen only
+ * when asked for, with cast().
+ *
+ * Dates are kept as YYYY-MM-DD and timestamps as YYYY-MM-DD HH:MM:SS with
+ * fractional seconds when there are any, so they compare correctly as
+ * strings. JSON is kept as compact JSON text.
+ */
+export class TypeConverter {
+  private formatter: SQLFormatter;
+
+  constructor() {
+    this.formatter = new SQLFormatter();
+  }
+
+  /**
+   * Returns the value as a column of the type stores it, or undefined when
+   * it is not a value of the type. Decimals are rounded to their scale, and
+   * timestamps and JSON text are put in their canonical form.
+   */
+  assign(value: Value, type: DataType): Value | undefined {
+    if (value === null) return null;
+
+    switch (type.type) {
+      case 'string':
+        return typeof value === 'string' ? value : undefined;
+      case 'integer':
+        return typeof value === 'number' && Number.isSafeInteger(value) ? value : undefined;
+      case 'real':
+        return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+      case 'decimal':
+        return typeof value === 'number' ? this.toDecimal(value, type) : undefined;
+      case 'boolean':
+        return typeof value === 'boolean' ? value : undefined;
+      case 'date':
+        return typeof value === 'string' && value.length === 10 ? this.parseTimestamp(value)?.slice(0, 10) : undefined;
+      case 'timestamp':
+        return typeof value === 'string' ? this.parseTimestamp(value) : undefined;
+      case 'json':
+        return typeof value === 'string' ? this.parseJson(value) : undefined;
+    }
+  }
+
+  /** Converts a value to the type, as CAST does, throwing when it has no value of the type. */
+  cast(value: Value, type: DataType): Value {
+    if (value === null) return null;
+
+    const converted = this.convert(value, type);
+    if (converted === undefined) {
+      throw new Error(`Invalid ${this.formatter.formatDataType(type)} value ${this.formatter.formatValue(value)}`);
+    }
+    return converted;
+  }
+
+  /** Whether values of the two types can be compared, as a foreign key compares them with its key. */
+  comparable(a: ColumnType, b: ColumnType): boolean {
+    return a === b || (NUMERIC_TYPES.has(a) && NUMERIC_TYPES.has(b));
+  }
+
+  private convert(value: Exclude<Value, null>, type: DataType): Value | undefined {
+    const text = typeof value === 'string' ? value.trim() : undefined;
+
+    switch (type.type) {
+      case 'string':
+        return typeof value === 'number' ? this.formatter.formatValue(value) : String(value);
+      case 'integer': {
+        if (typeof value === 'boolean') return undefined;
+        // Text must hold a whole number, but numbers are rounded, halves away from zero as in PostgreSQL
+        if (typeof value === 'string') {
+          const number = this.parseNumber(value.trim());
+          return number !== undefined && Number.isSafeInteger(number) ? number : undefined;
+        }
+        const rounded = Math.sign(value) * Math.round(Math.abs(value)) || 0;
+        return Number.isSafeInteger(rounded) ? rounded : undefined;
+      }
+      case 'real':
+        if (typeof value === 'boolean') return undefined;
+        return text !== undefined ? this.parseNumber(text) : value;
+      case 'decimal': {
+        if (typeof value === 'boolean') return undefined;
+        const number = typeof value === 'string' ? this.parseNumber(value.trim()) : value;
+        return number === undefined ? undefined : this.toDecimal(number, type);
+      }
+      case 'boolean':
+        if (text !== undefined) {
+          const lower = text.toLowerCase();
+          return TRUE_TEXT.has(lower) ? true : FALSE_TEXT.has(lower) ? false : undefined;
+        }
+        return typeof value === 'number' ? value !== 0 : value;
+      case 'date':
+        // The date of a timestamp
+        return text !== undefined ? this.parseTimestamp(text)?.slice(0, 10) : undefined;
+      case 'timestamp':
+        return text !== undefined ? this.parseTimestamp(text) : undefined;
+      case 'json':
+        return text !== undefined ? this.parseJson(text) : JSON.stringify(value);
+    }
+  }
+
+  private parseNumber(text: string): number | undefined {
+    const number = Number(text);
+    return text === '' || !Number.isFinite(number) ? undefined : number;
+  }
+
+  /** Rounds half away from zero to the given number of digits after the point, or before it when negative. */
+  round(value: number, digits: number): number {
+    // Shifting the decimal point in the text avoids the binary rounding errors of multiplying by a power of ten
+    const [mantissa, exponent = '0'] = String(Math.abs(value)).split('e');
+    const shifted = Math.round(Number(`${mantissa}e${Number(exponent) + digits}`));
+    // Numbers this large have no digits left to round at that position
+    if (!Number.isSafeInteger(shifted)) return value;
+    return Math.sign(value) * Number(`${shifted}e${-digits}`) || 0;
+  }
+
+  // Rounds to the scale and checks that the digits before the point fit the precision
+  private toDecimal(value: number, type: DataType): number | undefined {
+    if (!Number.isFinite(value)) return undefined;
+
+    const scale = type.scale ?? 0;
+    const precision = type.precision ?? MAX_DECIMAL_PRECISION;
+    const rounded = this.round(value, scale);
+    return Math.abs(rounded) < 10 ** (precision - scale) ? rounded : undefined;
+  }
+
+  // Returns the canonical form of a timestamp, or undefined when the text is not one
+  private parseTimestamp(text: string): string | undefined {
+    const match = TIMESTAMP_PATTERN.exec(text);
+    if (!match) return undefined;
+
+    const [, year, month, day, hour, minute, second, fraction] = match;
+    const daysInMonth = [31, this.isLeapYear(Number(year)) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > daysInMonth[Number(month) - 1]) {
+      return undefined;
+    }
+
+    // A date alone is midnight
+    const date = `${year}-${month}-${day}`;
+    if (hour === undefined) {
+      return `${date} 00:00:00`;
+    }
+    if (Number(hour) > 23 || Number(minute) > 59 || Number(second ?? 0) > 59) {
+      return undefined;
+    }
+
+    const digits = fraction?.replace(/0+$/, '');
+    return `${date} ${hour}:${minute}:${second ?? '00'}${digits ? `.${digits}` : ''}`;
+  }
+
+  private isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  }
+
+  private parseJson(text: string): string | undefined {
+    try {
+      return JSON.stringify(JSON.parse(text));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { StorageAdapter } from './StorageAdapter';
+import { DatabaseState } from './Database';
+
+const LOG_FILE = 'wal.log';
+const CHECKPOINT_FILE = 'checkpoint.json';
+
+// A committed transaction: the statements that changed the database, in order
+export interface LogRecord {
+  lsn: number;
+  statements: string[];
+}
+
+interface Checkpoint {
+  // Last record included in the state
+  lsn: number;
+  state: DatabaseState;
+}
+
+export interface RecoveredLog {
+  state?: DatabaseState;
+  records: LogRecord[];
+}
+
+/**
+ * Logical write-ahead log. Each committed transaction is appended as one
+ * line holding a checksum followed by the JSON record. A checkpoint writes
+ * the whole database to a separate file and empties the log, so recovery
+ * loads the checkpoint and replays only the records after it.
+ */
+export class WriteAheadLog {
+  private storage: StorageAdapter;
+  private nextLsn: number;
+  private recordsSinceCheckpoint: number;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+    this.nextLsn = 1;
+    this.recordsSinceCheckpoint = 0;
+  }
+
+  /** Reads the last checkpoint and the records committed after it. Call before appending. */
+  recover(): RecoveredLog {
+    const checkpointText = this.storage.read(CHECKPOINT_FILE);
+    const checkpoint: Checkpoint | undefined = checkpointText ? JSON.parse(checkpointText) : undefined;
+    const checkpointLsn = checkpoint?.lsn ?? 0;
+
+    const text = this.storage.read(LOG_FILE) ?? '';
+    const records: LogRecord[] = [];
+    this.nextLsn = checkpointLsn + 1;
+
+    let start = 0;
+    while (start < text.length) {
+      const end = text.indexOf('\n', start);
+      const record = end === -1 ? undefined : this.decode(text.slice(start, end));
+
+      if (!record) {
+        // A crash can only tear the record being appended, which is always the last one
+        if (end !== -1 && end + 1 < text.length) {
+          throw new Error(`Write-ahead log is corrupt after record ${this.nextLsn - 1}`);
+        }
+        this.storage.write(LOG_FILE, text.slice(0, start));
+        break;
+      }
+
+      // Records already in the checkpoint are left over from a crash while it was taken
+      if (record.lsn > checkpointLsn) {
+        records.push(record);
+        this.nextLsn = record.lsn + 1;
+      }
+      start = end + 1;
+    }
+
+    this.recordsSinceCheckpoint = records.length;
+    return { state: checkpoint?.state, records };
+  }
+
+  append(statements: string[]): void {
+    const record: LogRecord = { lsn: this.nextLsn, statements };
+    this.storage.append(LOG_FILE, this.encode(record));
+    this.nextLsn++;
+    this.recordsSinceCheckpoint++;
+  }
+
+  /** Saves the state, which must include every appended record, and empties the log. */
+  checkpoint(state: DatabaseState): void {
+    const checkpoint: Checkpoint = { lsn: this.nextLsn - 1, state };
+    this.storage.write(CHECKPOINT_FILE, JSON.stringify(checkpoint));
+    this.storage.write(LOG_FILE, '');
+    this.recordsSinceCheckpoint = 0;
+  }
+
+  getRecordsSinceCheckpoint(): number {
+    return this.recordsSinceCheckpoint;
+  }
+
+  private encode(record: LogRecord): string {
+    const payload = JSON.stringify(record);
+    return `${this.checksum(payload)} ${payload}\n`;
+  }
+
+  private decode(line: string): LogRecord | undefined {
+    const separator = line.indexOf(' ');
+    if (separator === -1) return undefined;
+
+    const payload = line.slice(separator + 1);
+    if (line.slice(0, separator) !== this.checksum(payload)) return undefined;
+
+    try {
+      return JSON.parse(payload);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // 32-bit FNV-1a hash of the record text
+  private checksum(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+}
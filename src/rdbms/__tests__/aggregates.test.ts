@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('GROUP BY and aggregates', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, author_id integer, pages integer, available boolean)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')",
+      'INSERT INTO books (id, author_id, pages, available) VALUES (1, 1, 300, TRUE)',
+      'INSERT INTO books (id, author_id, pages, available) VALUES (2, 1, 500, FALSE)',
+      'INSERT INTO books (id, author_id, pages, available) VALUES (3, 2, 300, TRUE)',
+      'INSERT INTO books (id, author_id, pages, available) VALUES (4, 2, NULL, TRUE)'
+    );
+  });
+
+  it('computes aggregates over the whole table', () => {
+    expect(
+      rows(rdbms, 'SELECT COUNT(*), COUNT(pages), COUNT(DISTINCT pages), SUM(pages), AVG(pages), MIN(pages), MAX(pages) FROM books')
+    ).toEqual([
+      {
+        'COUNT(*)': 4,
+        'COUNT(pages)': 3,
+        'COUNT(DISTINCT pages)': 2,
+        'SUM(pages)': 1100,
+        'AVG(pages)': 1100 / 3,
+        'MIN(pages)': 300,
+        'MAX(pages)': 500,
+      },
+    ]);
+  });
+
+  it('gives one row with NULL sums for an empty table', () => {
+    run(rdbms, 'DELETE FROM books');
+
+    expect(rows(rdbms, 'SELECT COUNT(*), SUM(pages) FROM books')).toEqual([{ 'COUNT(*)': 0, 'SUM(pages)': null }]);
+  });
+
+  it('groups by several columns', () => {
+    expect(rows(rdbms, 'SELECT author_id, available, COUNT(*) FROM books GROUP BY author_id, available ORDER BY author_id, available')).toEqual([
+      { author_id: 1, available: false, 'COUNT(*)': 1 },
+      { author_id: 1, available: true, 'COUNT(*)': 1 },
+      { author_id: 2, available: true, 'COUNT(*)': 2 },
+    ]);
+  });
+
+  it('filters groups with HAVING', () => {
+    expect(rows(rdbms, 'SELECT author_id FROM books GROUP BY author_id HAVING SUM(pages) > 500')).toEqual([{ author_id: 1 }]);
+  });
+
+  it('groups joined rows', () => {
+    expect(
+      rows(rdbms, 'SELECT authors.name, COUNT(*) FROM books JOIN authors ON books.author_id = authors.id GROUP BY authors.name ORDER BY authors.name')
+    ).toEqual([
+      { 'authors.name': 'Austen', 'COUNT(*)': 2 },
+      { 'authors.name': 'Morrison', 'COUNT(*)': 2 },
+    ]);
+  });
+
+  it('rejects columns that are neither grouped nor aggregated', () => {
+    expect(error(rdbms, 'SELECT pages, COUNT(*) FROM books GROUP BY author_id')).toMatch(/pages/);
+  });
+});
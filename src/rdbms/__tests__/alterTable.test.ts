@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('ALTER TABLE', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer REFERENCES authors(id), year integer)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO books (id, title, author_id, year) VALUES (1, 'Emma', 1, 1815)",
+      "INSERT INTO books (id, title, author_id, year) VALUES (2, 'Emma', 1, NULL)"
+    );
+  });
+
+  it('adds columns, filling existing rows with the default', () => {
+    run(rdbms, "ALTER TABLE books ADD COLUMN isbn string DEFAULT 'n/a'", 'ALTER TABLE books ADD pages integer');
+
+    expect(rows(rdbms, 'SELECT id, isbn, pages FROM books ORDER BY id')).toEqual([
+      { id: 1, isbn: 'n/a', pages: null },
+      { id: 2, isbn: 'n/a', pages: null },
+    ]);
+    expect(error(rdbms, 'ALTER TABLE books ADD COLUMN isbn string')).toBe('Column isbn already exists in table books');
+    expect(error(rdbms, 'ALTER TABLE books ADD COLUMN copies integer NOT NULL')).toBe(
+      'Column copies needs a DEFAULT to be NOT NULL, since table books has rows'
+    );
+  });
+
+  it('leaves the table as it was when a change breaks a constraint', () => {
+    const before = rows(rdbms, 'SELECT * FROM books ORDER BY id');
+
+    expect(error(rdbms, 'ALTER TABLE books ADD COLUMN pages integer DEFAULT 5 CHECK (pages > 10)')).toBe(
+      'Check constraint violation on books.pages: pages > 10'
+    );
+    expect(error(rdbms, 'ALTER TABLE books ADD COLUMN code integer DEFAULT 5 UNIQUE')).toBe('Duplicate value for unique column code');
+    expect(error(rdbms, 'ALTER TABLE books ALTER COLUMN year SET NOT NULL')).toBe('Column year contains NULL values');
+    expect(error(rdbms, 'ALTER TABLE books ADD UNIQUE (title)')).toBe('Cannot add UNIQUE (title): existing rows contain duplicate values');
+    expect(rows(rdbms, 'SELECT * FROM books ORDER BY id')).toEqual(before);
+    expect(rows(rdbms, 'SHOW INDEXES FROM books').map(row => row.index_name)).toEqual(['books_pkey']);
+  });
+
+  it('changes NOT NULL', () => {
+    run(rdbms, 'ALTER TABLE books ALTER COLUMN title SET NOT NULL');
+    expect(error(rdbms, 'INSERT INTO books (id) VALUES (3)')).toBe('Column title cannot be null');
+
+    run(rdbms, 'ALTER TABLE books ALTER COLUMN title DROP NOT NULL', 'INSERT INTO books (id) VALUES (3)');
+    expect(error(rdbms, 'ALTER TABLE books ALTER COLUMN id DROP NOT NULL')).toBe('Column id is in the primary key, so it cannot be nullable');
+  });
+
+  it('adds and drops UNIQUE constraints', () => {
+    run(rdbms, "UPDATE books SET title = 'Persuasion' WHERE id = 2", 'ALTER TABLE books ADD UNIQUE (title)');
+
+    expect(rows(rdbms, 'SHOW INDEXES FROM books').map(row => row.index_name)).toEqual(['books_pkey', 'books_title_key']);
+    expect(error(rdbms, "INSERT INTO books (id, title) VALUES (3, 'Emma')")).toBe('Duplicate value for unique column title');
+
+    run(rdbms, 'ALTER TABLE books DROP CONSTRAINT books_title_key', "INSERT INTO books (id, title) VALUES (3, 'Emma')");
+    expect(error(rdbms, 'ALTER TABLE authors DROP CONSTRAINT authors_pkey')).toBe(
+      'Cannot drop constraint authors_pkey: column books.author_id references authors.id'
+    );
+  });
+
+  it('renames columns and tables everywhere they are mentioned', () => {
+    run(rdbms, 'ALTER TABLE authors RENAME TO writers', 'ALTER TABLE writers RENAME COLUMN id TO writer_id', 'ALTER TABLE books RENAME title TO name');
+
+    expect(error(rdbms, 'SELECT * FROM authors')).toBe('Table authors does not exist');
+    expect(rows(rdbms, 'SELECT name FROM books WHERE id = 1')).toEqual([{ name: 'Emma' }]);
+    expect(rows(rdbms, 'SHOW INDEXES FROM writers').map(row => [row.index_name, row.columns])).toEqual([['writers_pkey', 'writer_id']]);
+    expect(rows(rdbms, 'DESCRIBE books').find(row => row.column === 'author_id')?.references).toBe('writers(writer_id)');
+    expect(error(rdbms, 'INSERT INTO books (id, author_id) VALUES (3, 9)')).toBe(
+      'Foreign key violation: books.author_id = 9 has no matching writers.writer_id'
+    );
+  });
+
+  it('drops columns, and referenced ones only with CASCADE', () => {
+    run(rdbms, 'ALTER TABLE books DROP COLUMN year');
+    expect(rows(rdbms, 'SELECT * FROM books WHERE id = 1')).toEqual([{ id: 1, title: 'Emma', author_id: 1 }]);
+
+    expect(error(rdbms, 'ALTER TABLE authors DROP COLUMN id')).toBe(
+      'Cannot drop column authors.id: column books.author_id references it (use DROP COLUMN ... CASCADE)'
+    );
+    run(rdbms, 'ALTER TABLE authors DROP COLUMN id CASCADE', 'INSERT INTO books (id, author_id) VALUES (3, 9)');
+    expect(rows(rdbms, 'SHOW INDEXES FROM authors')).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BTreeIndex } from '../BTreeIndex';
+import { RDBMS } from '../RDBMS';
+import { rows, run } from './helpers';
+
+describe('BTreeIndex', () => {
+  let index: BTreeIndex;
+
+  // Enough keys to split leaves and internal nodes, added out of order
+  beforeEach(() => {
+    index = new BTreeIndex((a, b) => (a as number) - (b as number));
+    for (let i = 0; i < 2000; i++) {
+      const key = (i * 7919) % 1000;
+      index.add([key], i);
+    }
+  });
+
+  it('finds every row with a key', () => {
+    expect(index.find([5])).toEqual([395, 1395]);
+    expect(index.find([1000])).toEqual([]);
+  });
+
+  it('scans ranges in both directions', () => {
+    const keysOf = (positions: Iterable<number>) => [...positions].map(position => (position * 7919) % 1000);
+
+    expect(keysOf(index.scan({ lower: { key: [10], inclusive: true }, upper: { key: [13], inclusive: false } }))).toEqual([
+      10, 10, 11, 11, 12, 12,
+    ]);
+    expect(keysOf(index.scan({ lower: { key: [996], inclusive: false }, descending: true }))).toEqual([999, 999, 998, 998, 997, 997]);
+    expect([...index.scan()]).toHaveLength(2000);
+  });
+
+  it('skips NULL keys and forgets removed rows', () => {
+    index.add(null, 2000);
+    index.remove([5], 395);
+
+    expect(index.find([5])).toEqual([1395]);
+    expect([...index.scan()]).toHaveLength(1999);
+  });
+});
+
+describe('ordered indexes', () => {
+  let rdbms: RDBMS;
+  let plain: RDBMS;
+
+  // The same books with and without a B-tree index, so results can be compared with a full scan
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    plain = new RDBMS();
+    for (const db of [rdbms, plain]) {
+      run(db, 'CREATE TABLE books (id integer PRIMARY KEY, year integer)');
+      for (let id = 1; id <= 200; id++) {
+        const year = id % 10 === 0 ? 'NULL' : 1800 + ((id * 37) % 150);
+        run(db, `INSERT INTO books (id, year) VALUES (${id}, ${year})`);
+      }
+    }
+    run(rdbms, 'CREATE INDEX books_year ON books USING btree (year)');
+  });
+
+  it('answers range predicates like a full scan', () => {
+    const queries = [
+      'SELECT id FROM books WHERE year BETWEEN 1850 AND 1900 ORDER BY id',
+      'SELECT id FROM books WHERE year > 1920 ORDER BY id',
+      'SELECT id FROM books WHERE year <= 1810 ORDER BY id',
+      'SELECT id FROM books WHERE year >= 1900 AND year < 1905 ORDER BY id',
+      'SELECT id FROM books WHERE year = 1837 ORDER BY id',
+    ];
+
+    for (const sql of queries) {
+      expect(rows(rdbms, sql), sql).toEqual(rows(plain, sql));
+      expect(rows(rdbms, sql).length, sql).toBeGreaterThan(0);
+    }
+  });
+
+  it('returns rows in index order in both directions, with NULLs where ORDER BY puts them', () => {
+    for (const sql of ['SELECT year FROM books ORDER BY year', 'SELECT year FROM books ORDER BY year DESC']) {
+      expect(rows(rdbms, sql), sql).toEqual(rows(plain, sql));
+    }
+  });
+
+  it('sees rows changed after the index was created', () => {
+    run(rdbms, 'UPDATE books SET year = 2000 WHERE id = 1', 'DELETE FROM books WHERE year < 1900 AND id > 10');
+
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year > 1990')).toEqual([{ id: 1 }]);
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year < 1900 ORDER BY year').length).toBeLessThanOrEqual(10);
+  });
+});
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('composite keys', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE book_tags (book_id integer, tag_id integer, note string, PRIMARY KEY (book_id, tag_id), UNIQUE (tag_id, note))',
+      "INSERT INTO book_tags (book_id, tag_id, note) VALUES (1, 1, 'a')",
+      "INSERT INTO book_tags (book_id, tag_id, note) VALUES (1, 2, 'a')",
+      'INSERT INTO book_tags (book_id, tag_id, note) VALUES (2, 1, NULL)'
+    );
+  });
+
+  it('rejects a repeated primary key but allows repeated parts of it', () => {
+    expect(error(rdbms, "INSERT INTO book_tags (book_id, tag_id, note) VALUES (1, 2, 'b')")).toBe(
+      'Duplicate value for primary key (book_id, tag_id)'
+    );
+    run(rdbms, "INSERT INTO book_tags (book_id, tag_id, note) VALUES (2, 2, 'b')");
+  });
+
+  it('makes primary key columns NOT NULL', () => {
+    expect(error(rdbms, 'INSERT INTO book_tags (book_id, tag_id) VALUES (NULL, 3)')).toBe('Column book_id cannot be null');
+  });
+
+  it('lets unique keys with a NULL in them repeat', () => {
+    run(rdbms, 'INSERT INTO book_tags (book_id, tag_id, note) VALUES (3, 1, NULL)');
+
+    expect(error(rdbms, "INSERT INTO book_tags (book_id, tag_id, note) VALUES (4, 1, 'a')")).toBe('Duplicate value for unique key (tag_id, note)');
+  });
+
+  it('enforces keys on update, including rows updated together', () => {
+    expect(error(rdbms, 'UPDATE book_tags SET tag_id = 1 WHERE book_id = 1')).toMatch(/^Duplicate value/);
+    expect(error(rdbms, "UPDATE book_tags SET note = 'a' WHERE book_id = 2")).toBe('Duplicate value for unique key (tag_id, note)');
+    run(rdbms, 'UPDATE book_tags SET book_id = book_id + 10');
+
+    expect(rows(rdbms, 'SELECT book_id FROM book_tags ORDER BY book_id, tag_id').map(row => row.book_id)).toEqual([11, 11, 12]);
+  });
+
+  it('describes the keys of each column and of the table', () => {
+    const description = rows(rdbms, 'DESCRIBE book_tags');
+
+    expect(description.map(row => [row.column, row.key])).toEqual([
+      ['book_id', 'PRI'],
+      ['tag_id', 'PRI'],
+      ['note', ''],
+      ['', 'PRIMARY KEY (book_id, tag_id)'],
+      ['', 'UNIQUE (tag_id, note)'],
+    ]);
+  });
+
+  it('rejects keys on undefined or repeated columns and a second primary key', () => {
+    expect(error(rdbms, 'CREATE TABLE t (a integer, PRIMARY KEY (a, b))')).toMatch(/Column b is not defined/);
+    expect(error(rdbms, 'CREATE TABLE t (a integer, PRIMARY KEY (a, a))')).toMatch(/appears twice/);
+    expect(error(rdbms, 'CREATE TABLE t (a integer PRIMARY KEY, b integer, PRIMARY KEY (a, b))')).toMatch(/Multiple primary keys/);
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('DEFAULT and CHECK', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      "CREATE TABLE books (id integer PRIMARY KEY, year integer DEFAULT 2024 CHECK (year > 0), pages integer, format string DEFAULT 'paper', CHECK (pages > 10))"
+    );
+  });
+
+  it('fills omitted columns with their defaults', () => {
+    run(rdbms, 'INSERT INTO books (id, pages) VALUES (1, 100)');
+
+    expect(rows(rdbms, 'SELECT * FROM books')).toEqual([{ id: 1, year: 2024, pages: 100, format: 'paper' }]);
+  });
+
+  it('keeps an explicit NULL instead of the default', () => {
+    run(rdbms, 'INSERT INTO books (id, year, pages) VALUES (1, NULL, 100)');
+
+    expect(rows(rdbms, 'SELECT year FROM books')).toEqual([{ year: null }]);
+  });
+
+  it('enforces column and table checks on insert and update', () => {
+    expect(error(rdbms, 'INSERT INTO books (id, year, pages) VALUES (1, -5, 100)')).toBe('Check constraint violation on books.year: year > 0');
+    expect(error(rdbms, 'INSERT INTO books (id, pages) VALUES (1, 5)')).toBe('Check constraint violation on books: pages > 10');
+
+    run(rdbms, 'INSERT INTO books (id, pages) VALUES (1, 100)');
+    expect(error(rdbms, 'UPDATE books SET year = 0')).toBe('Check constraint violation on books.year: year > 0');
+    expect(rows(rdbms, 'SELECT year FROM books')).toEqual([{ year: 2024 }]);
+  });
+
+  it('passes checks that are unknown because of NULL', () => {
+    run(rdbms, 'INSERT INTO books (id, pages) VALUES (1, NULL)');
+  });
+
+  it('checks defaults when they are used', () => {
+    run(rdbms, 'CREATE TABLE counters (id integer, n integer DEFAULT 0 CHECK (n > 0))');
+
+    expect(error(rdbms, 'INSERT INTO counters (id) VALUES (1)')).toBe('Check constraint violation on counters.n: n > 0');
+  });
+
+  it('shows defaults and checks in DESCRIBE', () => {
+    const described = rows(rdbms, 'DESCRIBE books');
+
+    expect(described.find(row => row.column === 'year')).toMatchObject({ default: '2024', check: 'year > 0' });
+    expect(described.find(row => row.column === 'format')).toMatchObject({ default: "'paper'" });
+    expect(described.some(row => row.column === '' && row.check === 'pages > 10')).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { MemoryStorage, rows, run } from './helpers';
+
+describe('COPY', () => {
+  let files: MemoryStorage;
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    files = new MemoryStorage();
+    rdbms = new RDBMS({ files });
+    run(rdbms, 'CREATE TABLE books (id integer PRIMARY KEY, title string NOT NULL, year integer, available boolean)');
+  });
+
+  it('loads a CSV file with a header, quoted fields and NULLs', () => {
+    files.write('books.csv', 'id;title;year;available\n1;"Emma; or not";1815;true\n2;"Say ""hi""";;f\n');
+    const result = run(rdbms, "COPY books FROM 'books.csv' WITH (HEADER, DELIMITER ';')");
+
+    expect(result.rowCount).toBe(2);
+    expect(rows(rdbms, 'SELECT * FROM books ORDER BY id')).toEqual([
+      { id: 1, title: 'Emma; or not', year: 1815, available: true },
+      { id: 2, title: 'Say "hi"', year: null, available: false },
+    ]);
+  });
+
+  it('reports the line of each rejected record and keeps the valid ones', () => {
+    const result = rdbms.copyFrom('books', 'id,title,year\n1,Emma,1815\n2,"Two\nlines",soon\n3,,1900\n4,Ok,2000\n', {
+      header: true,
+      columns: ['id', 'title', 'year'],
+    });
+
+    expect(result.rejected?.map(record => record.line)).toEqual([3, 5]);
+    expect(result.rejected?.[0].error).toMatch(/year/);
+    expect(rows(rdbms, 'SELECT id FROM books ORDER BY id')).toEqual([{ id: 1 }, { id: 4 }]);
+  });
+
+  it('loads JSON arrays of objects', () => {
+    const result = rdbms.copyFrom('books', '[{"id": 1, "title": "Emma", "available": true}]', { format: 'json' });
+
+    expect(result.success).toBe(true);
+    expect(rows(rdbms, 'SELECT * FROM books')).toEqual([{ id: 1, title: 'Emma', year: null, available: true }]);
+  });
+
+  it('writes a query result as JSON and a table as CSV', () => {
+    run(rdbms, "INSERT INTO books (id, title, year, available) VALUES (1, 'Emma, again', NULL, TRUE)");
+    run(rdbms, "COPY (SELECT id, title FROM books) TO 'out.json' (FORMAT json)");
+
+    expect(JSON.parse(files.read('out.json')!)).toEqual([{ id: 1, title: 'Emma, again' }]);
+    expect(rdbms.copyTo('books', { header: true })).toBe('id,title,year,available\n1,"Emma, again",,true\n');
+  });
+
+  it('round-trips a table through CSV', () => {
+    run(rdbms, "INSERT INTO books (id, title, year, available) VALUES (1, 'A \"quoted\", title', NULL, FALSE)");
+    const copy = new RDBMS();
+    run(copy, 'CREATE TABLE books (id integer PRIMARY KEY, title string NOT NULL, year integer, available boolean)');
+    copy.copyFrom('books', rdbms.copyTo('books', { header: true }), { header: true });
+
+    expect(rows(copy, 'SELECT * FROM books')).toEqual(rows(rdbms, 'SELECT * FROM books'));
+  });
+});
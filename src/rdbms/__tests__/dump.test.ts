@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { rows, run } from './helpers';
+
+describe('dump and load', () => {
+  const populated = () => {
+    const rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string NOT NULL UNIQUE, country string DEFAULT \'UK\')',
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer REFERENCES authors(id), rating real, available boolean)',
+      'CREATE INDEX books_title ON books (title)',
+      "INSERT INTO authors (id, name, country) VALUES (1, 'Flann O''Brien', NULL)",
+      "INSERT INTO books (id, title, author_id, rating, available) VALUES (1, 'At Swim, Two Birds', 1, 4.25, FALSE)",
+      "INSERT INTO books (id, title, author_id, rating, available) VALUES (2, '', NULL, -0.1, TRUE)"
+    );
+    return rdbms;
+  };
+
+  it('round-trips rows with NULLs, booleans, numbers and quotes exactly', () => {
+    const source = populated();
+    const copy = new RDBMS();
+    expect(copy.load(source.dump()).success).toBe(true);
+
+    for (const table of ['authors', 'books']) {
+      expect(rows(copy, `SELECT * FROM ${table} ORDER BY id`)).toEqual(rows(source, `SELECT * FROM ${table} ORDER BY id`));
+    }
+    expect(copy.dump()).toBe(source.dump());
+  });
+
+  it('recreates constraints, defaults and indexes', () => {
+    const copy = new RDBMS();
+    copy.load(populated().dump());
+
+    expect(copy.query("INSERT INTO authors (id, name) VALUES (2, 'Flann O''Brien')").success).toBe(false);
+    expect(copy.query("INSERT INTO books (id, author_id) VALUES (3, 7)").success).toBe(false);
+    run(copy, "INSERT INTO authors (id, name) VALUES (2, 'Woolf')");
+    expect(rows(copy, 'SELECT country FROM authors WHERE id = 2')).toEqual([{ country: 'UK' }]);
+    expect(rows(copy, 'SHOW INDEXES').some(index => index.index_name === 'books_title')).toBe(true);
+  });
+
+  it('keeps none of a script that fails part way', () => {
+    const rdbms = new RDBMS();
+    const result = rdbms.load("CREATE TABLE t (id integer PRIMARY KEY);\nINSERT INTO t (id) VALUES (1);\nINSERT INTO t (id) VALUES (1);");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Statement 3 failed/);
+    expect(rdbms.query('SELECT * FROM t').success).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('computed expressions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE items (id integer PRIMARY KEY, name string, price decimal(10, 2), qty integer, year integer)',
+      "INSERT INTO items (id, name, price, qty, year) VALUES (1, 'pen', 1.10, 3, 1850)",
+      "INSERT INTO items (id, name, price, qty, year) VALUES (2, 'ink', 2.50, 2, 1920)",
+      "INSERT INTO items (id, name, price, qty, year) VALUES (3, 'pad', 1.10, 3, NULL)"
+    );
+  });
+
+  it('names result columns by their alias or their text', () => {
+    expect(rows(rdbms, "SELECT price * qty AS total, year - 1800, name || '!' AS shout FROM items ORDER BY total DESC, id")).toEqual([
+      { total: 5, 'year - 1800': 120, shout: 'ink!' },
+      { total: 3.3, 'year - 1800': 50, shout: 'pen!' },
+      { total: 3.3, 'year - 1800': null, shout: 'pad!' },
+    ]);
+  });
+
+  it('uses expressions in WHERE and ORDER BY', () => {
+    // 1.10 * 3 is exactly 3.3, where doubles would give 3.3000000000000003
+    expect(rows(rdbms, 'SELECT id FROM items WHERE price * qty >= 3.3 ORDER BY year - 1800 DESC')).toEqual([{ id: 3 }, { id: 2 }, { id: 1 }]);
+    expect(rows(rdbms, 'SELECT id FROM items WHERE price * qty > 3.3')).toEqual([{ id: 2 }]);
+    expect(error(rdbms, 'SELECT price * qty AS total FROM items WHERE total > 1')).toBe('Column total does not exist');
+  });
+
+  it('evaluates both forms of CASE', () => {
+    const searched = "SELECT CASE WHEN year < 1900 THEN 'old' WHEN year IS NULL THEN 'unknown' ELSE 'new' END AS era FROM items ORDER BY id";
+
+    expect(rows(rdbms, searched).map(row => row.era)).toEqual(['old', 'new', 'unknown']);
+    expect(rows(rdbms, "SELECT CASE qty WHEN 3 THEN 'three' END AS c FROM items ORDER BY id").map(row => row.c)).toEqual(['three', null, 'three']);
+  });
+
+  it('removes duplicate rows with SELECT DISTINCT', () => {
+    expect(rows(rdbms, 'SELECT DISTINCT price, qty FROM items ORDER BY price')).toEqual([
+      { price: 1.1, qty: 3 },
+      { price: 2.5, qty: 2 },
+    ]);
+    expect(error(rdbms, 'SELECT DISTINCT price FROM items ORDER BY qty')).toBe('ORDER BY qty must be in the select list of SELECT DISTINCT');
+  });
+
+  it('rejects arithmetic on values that are not numbers', () => {
+    expect(error(rdbms, 'SELECT name + 1 FROM items')).toBe('Operator + requires numbers');
+    expect(error(rdbms, 'SELECT qty / 0 FROM items')).toBe('Division by zero');
+  });
+});
+
+describe('integer arithmetic', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE t (id integer PRIMARY KEY, n integer, f real)',
+      'INSERT INTO t (id, n, f) VALUES (1, 7, 7)',
+      'INSERT INTO t (id, n, f) VALUES (2, -7, -7)'
+    );
+  });
+
+  it('truncates the quotient of integers toward zero, with % consistent with it', () => {
+    expect(rows(rdbms, 'SELECT n / 2 AS q, n % 2 AS r, 7 / 2 AS a, -1 / 2 AS b FROM t ORDER BY id')).toEqual([
+      { q: 3, r: 1, a: 3, b: 0 },
+      { q: -3, r: -1, a: 3, b: 0 },
+    ]);
+  });
+
+  it('keeps the fraction when either side is not an integer', () => {
+    const sql = 'SELECT f / 2 AS a, n / 2.0 AS b, CAST(n AS real) / 2 AS c, AVG(n) / 2 AS d FROM t WHERE id = 1 GROUP BY n, f';
+
+    expect(rows(rdbms, sql)).toEqual([{ a: 3.5, b: 3.5, c: 3.5, d: 3.5 }]);
+  });
+
+  it('stores the quotient in integer columns and divides alike in CHECK constraints and derived tables', () => {
+    run(rdbms, 'UPDATE t SET n = n / 2');
+    expect(rows(rdbms, 'SELECT n FROM t ORDER BY id')).toEqual([{ n: 3 }, { n: -3 }]);
+    expect(rows(rdbms, 'SELECT x / 2 AS y FROM (SELECT n AS x FROM t) s ORDER BY y DESC')).toEqual([{ y: 1 }, { y: -1 }]);
+
+    run(rdbms, 'CREATE TABLE pages (n integer, CHECK (n / 2 < 5))', 'INSERT INTO pages (n) VALUES (11 - 2)');
+    expect(error(rdbms, 'INSERT INTO pages (n) VALUES (11)')).toBe('Check constraint violation on pages: n / 2 < 5');
+  });
+
+  it('rejects integer results beyond 2^53', () => {
+    expect(error(rdbms, 'SELECT 9007199254740991 + 1')).toBe('Numeric value out of range');
+  });
+});
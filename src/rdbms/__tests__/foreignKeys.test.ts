@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('foreign keys', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')"
+    );
+  });
+
+  const create = (actions: string) => {
+    run(
+      rdbms,
+      `CREATE TABLE books (id integer PRIMARY KEY, author_id integer REFERENCES authors(id) ${actions})`,
+      'INSERT INTO books (id, author_id) VALUES (1, 1)',
+      'INSERT INTO books (id, author_id) VALUES (2, 2)',
+      'INSERT INTO books (id, author_id) VALUES (3, NULL)'
+    );
+  };
+  const authorIds = () => rows(rdbms, 'SELECT author_id FROM books ORDER BY id').map(row => row.author_id);
+
+  it('rejects references to missing rows but allows NULL', () => {
+    create('');
+
+    expect(error(rdbms, 'INSERT INTO books (id, author_id) VALUES (4, 9)')).toBe('Foreign key violation: books.author_id = 9 has no matching authors.id');
+    expect(error(rdbms, 'UPDATE books SET author_id = 9 WHERE id = 1')).toMatch(/Foreign key violation/);
+  });
+
+  it('restricts deleting and updating referenced rows by default', () => {
+    create('');
+
+    expect(error(rdbms, 'DELETE FROM authors WHERE id = 1')).toMatch(/referenced/);
+    expect(error(rdbms, 'UPDATE authors SET id = 5 WHERE id = 1')).toMatch(/referenced/);
+    run(rdbms, 'UPDATE authors SET name = \'Jane\' WHERE id = 1');
+  });
+
+  it('cascades deletes and updates', () => {
+    create('ON DELETE CASCADE ON UPDATE CASCADE');
+    run(rdbms, 'UPDATE authors SET id = 5 WHERE id = 1', 'DELETE FROM authors WHERE id = 2');
+
+    expect(rows(rdbms, 'SELECT id, author_id FROM books ORDER BY id')).toEqual([
+      { id: 1, author_id: 5 },
+      { id: 3, author_id: null },
+    ]);
+  });
+
+  it('sets references to NULL', () => {
+    create('ON DELETE SET NULL ON UPDATE SET NULL');
+    run(rdbms, 'DELETE FROM authors WHERE id = 1', 'UPDATE authors SET id = 6 WHERE id = 2');
+
+    expect(authorIds()).toEqual([null, null, null]);
+  });
+
+  it('rejects a reference to a column that is not a key', () => {
+    expect(error(rdbms, 'CREATE TABLE books (id integer, author_name string REFERENCES authors(name))')).toMatch(/name/);
+  });
+
+  it('refuses to drop a referenced table', () => {
+    create('');
+
+    expect(error(rdbms, 'DROP TABLE authors')).toMatch(/books/);
+  });
+
+  describe('on their own table', () => {
+    beforeEach(() => {
+      run(rdbms, 'CREATE TABLE emp (id integer PRIMARY KEY, mgr integer REFERENCES emp(id))');
+    });
+
+    const roundTrip = () => {
+      const copy = new RDBMS();
+      const result = copy.load(rdbms.dump());
+      expect(result.error).toBeUndefined();
+      expect(rows(copy, 'SELECT * FROM emp ORDER BY id')).toEqual(rows(rdbms, 'SELECT * FROM emp ORDER BY id'));
+      return copy;
+    };
+
+    it('dump rows before the rows that reference them', () => {
+      run(rdbms, 'INSERT INTO emp (id, mgr) VALUES (1, NULL)', 'INSERT INTO emp (id, mgr) VALUES (2, 1)', 'INSERT INTO emp (id, mgr) VALUES (3, 2)');
+      run(rdbms, 'UPDATE emp SET mgr = 3 WHERE id = 1', 'UPDATE emp SET mgr = NULL WHERE id = 2');
+
+      roundTrip();
+    });
+
+    it('dump a cycle of references with an UPDATE that closes it', () => {
+      run(rdbms, 'INSERT INTO emp (id, mgr) VALUES (1, NULL)', 'INSERT INTO emp (id, mgr) VALUES (2, 1)', 'UPDATE emp SET mgr = 2 WHERE id = 1');
+
+      expect(rdbms.dump()).toContain('UPDATE emp SET mgr = 1 WHERE id = 2;');
+      roundTrip();
+    });
+
+    it('dump rows that reference themselves as they are', () => {
+      run(rdbms, 'INSERT INTO emp (id, mgr) VALUES (1, 1)');
+
+      expect(rdbms.dump()).not.toContain('UPDATE');
+      roundTrip();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('scalar functions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+  });
+
+  it('computes the built-in string functions', () => {
+    expect(
+      rows(rdbms, "SELECT upper('abc') AS u, lower('ABC') AS l, length('héllo') AS n, substr('hello', 2, 3) AS s, trim('  x  ') AS t")
+    ).toEqual([{ u: 'ABC', l: 'abc', n: 5, s: 'ell', t: 'x' }]);
+    expect(rows(rdbms, "SELECT replace('aXa', 'X', 'b') AS r, concat('a', NULL, 1) AS c")).toEqual([{ r: 'aba', c: 'a1' }]);
+  });
+
+  it('computes the built-in numeric functions', () => {
+    expect(
+      rows(rdbms, 'SELECT abs(-2.5) AS a, round(2.345, 2) AS r, round(2.5) AS h, floor(-1.5) AS f, ceil(1.2) AS c')
+    ).toEqual([{ a: 2.5, r: 2.35, h: 3, f: -2, c: 2 }]);
+  });
+
+  it('gives abs the type of its argument', () => {
+    run(rdbms, 'CREATE TABLE t (n integer, f real, amt decimal(5, 2))', 'INSERT INTO t (n, f, amt) VALUES (-3, -3, -0.1)');
+
+    // Integers divide with the quotient truncated, as n / 2 does
+    expect(rows(rdbms, 'SELECT abs(n) / 2 AS i, abs(f) / 2 AS r, abs(amt) + 0.2 AS d FROM t')).toEqual([{ i: 1, r: 1.5, d: 0.3 }]);
+  });
+
+  it('handles NULL', () => {
+    expect(rows(rdbms, 'SELECT coalesce(NULL, 2, 3) AS c, nullif(1, 1) AS n, upper(NULL) AS u')).toEqual([{ c: 2, n: null, u: null }]);
+  });
+
+  it('computes the built-in date functions', () => {
+    expect(
+      rows(
+        rdbms,
+        "SELECT date_part('year', '2024-03-05 10:00') AS y, date_trunc('month', '2024-03-05 10:00') AS m, make_date(2024, 2, 29) AS d"
+      )
+    ).toEqual([{ y: 2024, m: '2024-03-01 00:00:00', d: '2024-02-29' }]);
+  });
+
+  it('checks the name, number and types of arguments', () => {
+    expect(error(rdbms, 'SELECT nosuch(1)')).toBe("Unknown function 'nosuch' at line 1, column 8");
+    expect(error(rdbms, "SELECT upper('a', 'b')")).toBe('Function upper expects 1 argument(s) but got 2 at line 1, column 8');
+    expect(error(rdbms, 'SELECT upper(1)')).toBe('Function upper expects string for argument 1 but got 1');
+  });
+});
+
+describe('registered functions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+  });
+
+  it('calls them with the types of their signature', () => {
+    rdbms.registerFunction('double_it', (x: unknown) => (x as number) * 2, { parameters: ['integer'], returns: 'integer' });
+    // The result is an integer, so dividing it truncates
+    expect(rows(rdbms, 'SELECT double_it(21) AS d, double_it(21) / 4 AS q')).toEqual([{ d: 42, q: 10 }]);
+  });
+
+  it('checks the value they return', () => {
+    rdbms.registerFunction('liar', () => 'x', { parameters: [], returns: 'integer' });
+    expect(error(rdbms, 'SELECT liar()')).toBe("Function liar returned 'x', which is not of type integer");
+  });
+
+  it('rejects invalid signatures and built-in names', () => {
+    expect(() => rdbms.registerFunction('upper', () => '', { parameters: ['string'], returns: 'string' })).toThrow(
+      'Function upper is built in and cannot be replaced'
+    );
+    expect(() => rdbms.registerFunction('bad', () => 1, { parameters: ['widget' as never], returns: 'integer' })).toThrow(
+      'Invalid signature for function bad: unknown type widget'
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { QueryResult, Row } from '../types';
+import { StorageAdapter } from '../StorageAdapter';
+
+// Runs statements that must succeed, returning the result of the last one
+export function run(rdbms: RDBMS, ...statements: string[]): QueryResult {
+  let result: QueryResult = { success: true };
+  for (const sql of statements) {
+    result = rdbms.query(sql);
+    expect(result.error, sql).toBeUndefined();
+  }
+  return result;
+}
+
+export function rows(rdbms: RDBMS, sql: string): Row[] {
+  return run(rdbms, sql).rows ?? [];
+}
+
+// Runs a statement that must fail, returning its error
+export function error(rdbms: RDBMS, sql: string): string {
+  const result = rdbms.query(sql);
+  expect(result.success, sql).toBe(false);
+  return result.error ?? '';
+}
+
+// Keeps the files of a persistent database in memory, so tests can reopen, inspect and damage them
+export class MemoryStorage implements StorageAdapter {
+  readonly files = new Map<string, string>();
+
+  read(name: string): string | null {
+    return this.files.get(name) ?? null;
+  }
+
+  write(name: string, data: string): void {
+    this.files.set(name, data);
+  }
+
+  append(name: string, data: string): void {
+    this.files.set(name, (this.files.get(name) ?? '') + data);
+  }
+}
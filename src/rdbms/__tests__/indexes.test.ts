@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('indexes', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer, year integer)',
+      "INSERT INTO books (id, title, author_id, year) VALUES (1, 'A', 1, 2000)",
+      "INSERT INTO books (id, title, author_id, year) VALUES (2, 'B', 1, 2001)",
+      "INSERT INTO books (id, title, author_id, year) VALUES (3, 'C', 2, 2002)"
+    );
+  });
+
+  it('lists indexes, including the ones behind constraints', () => {
+    run(rdbms, 'CREATE INDEX books_author ON books (author_id)', 'CREATE UNIQUE INDEX books_year ON books USING btree (year)');
+
+    expect(rows(rdbms, 'SHOW INDEXES FROM books')).toEqual([
+      { table_name: 'books', index_name: 'books_pkey', columns: 'id', unique: 'YES', method: 'hash', constraint: 'YES' },
+      { table_name: 'books', index_name: 'books_author', columns: 'author_id', unique: 'NO', method: 'hash', constraint: 'NO' },
+      { table_name: 'books', index_name: 'books_year', columns: 'year', unique: 'YES', method: 'btree', constraint: 'NO' },
+    ]);
+  });
+
+  it('rejects invalid indexes', () => {
+    run(rdbms, 'CREATE INDEX books_author ON books (author_id)');
+
+    expect(error(rdbms, 'CREATE INDEX books_author ON books (year)')).toBe('Index books_author already exists');
+    expect(error(rdbms, 'CREATE INDEX books_x ON books (pages)')).toBe('Column pages does not exist in table books');
+    expect(error(rdbms, 'CREATE INDEX books_x ON authors (id)')).toBe('Table authors does not exist');
+    expect(error(rdbms, 'CREATE UNIQUE INDEX books_x ON books (author_id)')).toBe(
+      'Cannot create unique index books_x: (author_id) contains duplicate values'
+    );
+  });
+
+  it('drops indexes but not the ones behind constraints', () => {
+    run(rdbms, 'CREATE INDEX books_author ON books (author_id)', 'DROP INDEX books_author');
+
+    expect(error(rdbms, 'DROP INDEX books_author')).toBe('Index books_author does not exist');
+    expect(error(rdbms, 'DROP INDEX books_pkey')).toBe('Cannot drop index books_pkey: it belongs to a constraint of table books');
+    expect(rows(rdbms, 'SHOW INDEXES FROM books').map(row => row.index_name)).toEqual(['books_pkey']);
+  });
+
+  it('enforces unique indexes on insert and update', () => {
+    run(rdbms, 'CREATE UNIQUE INDEX books_year ON books (year)');
+
+    expect(error(rdbms, "INSERT INTO books (id, title, author_id, year) VALUES (4, 'D', 2, 2000)")).toBe(
+      'Duplicate value for unique index books_year'
+    );
+    expect(error(rdbms, 'UPDATE books SET year = 2000 WHERE id = 2')).toBe('Duplicate value for unique index books_year');
+
+    run(rdbms, 'DELETE FROM books WHERE id = 1', "INSERT INTO books (id, title, author_id, year) VALUES (4, 'D', 2, 2000)");
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year = 2000')).toEqual([{ id: 4 }]);
+  });
+
+  it('keeps indexes up to date as rows change', () => {
+    for (const method of ['hash', 'btree']) {
+      const db = new RDBMS();
+      run(
+        db,
+        'CREATE TABLE books (id integer PRIMARY KEY, author_id integer)',
+        `CREATE INDEX books_author ON books USING ${method} (author_id)`,
+        'INSERT INTO books (id, author_id) VALUES (1, 1)',
+        'INSERT INTO books (id, author_id) VALUES (2, 1)',
+        'INSERT INTO books (id, author_id) VALUES (3, 2)',
+        'UPDATE books SET author_id = 2 WHERE id = 1',
+        'DELETE FROM books WHERE id = 3'
+      );
+
+      expect(rows(db, 'SELECT id FROM books WHERE author_id = 1'), method).toEqual([{ id: 2 }]);
+      expect(rows(db, 'SELECT id FROM books WHERE author_id = 2'), method).toEqual([{ id: 1 }]);
+    }
+  });
+
+  it('restores indexes when a transaction rolls back', () => {
+    run(
+      rdbms,
+      'CREATE INDEX books_author ON books (author_id)',
+      'BEGIN',
+      'UPDATE books SET author_id = 3 WHERE id = 1',
+      'DELETE FROM books WHERE id = 2',
+      'ROLLBACK'
+    );
+
+    expect(rows(rdbms, 'SELECT id FROM books WHERE author_id = 1 ORDER BY id')).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(rows(rdbms, 'SELECT id FROM books WHERE author_id = 3')).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { JoinMethod } from '../types';
+import { rows, run } from './helpers';
+
+describe('joins', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer)',
+      'CREATE TABLE loans (id integer PRIMARY KEY, book_id integer, member string)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')",
+      "INSERT INTO authors (id, name) VALUES (3, 'Woolf')",
+      "INSERT INTO books (id, title, author_id) VALUES (1, 'Emma', 1)",
+      "INSERT INTO books (id, title, author_id) VALUES (2, 'Beloved', 2)",
+      "INSERT INTO books (id, title, author_id) VALUES (3, 'Unknown', 9)",
+      "INSERT INTO loans (id, book_id, member) VALUES (1, 1, 'ann')",
+      "INSERT INTO loans (id, book_id, member) VALUES (2, 1, 'bob')"
+    );
+  });
+
+  it('chains joins through table aliases', () => {
+    const sql = `SELECT b.title, a.name, l.member FROM books b
+      JOIN authors a ON b.author_id = a.id
+      JOIN loans l ON l.book_id = b.id
+      ORDER BY l.member`;
+
+    expect(rows(rdbms, sql)).toEqual([
+      { 'b.title': 'Emma', 'a.name': 'Austen', 'l.member': 'ann' },
+      { 'b.title': 'Emma', 'a.name': 'Austen', 'l.member': 'bob' },
+    ]);
+  });
+
+  it('keeps unmatched rows of LEFT, RIGHT and FULL joins', () => {
+    const left = rows(rdbms, 'SELECT b.id, a.id FROM books b LEFT JOIN authors a ON b.author_id = a.id ORDER BY b.id');
+    const right = rows(rdbms, 'SELECT b.id, a.id FROM books b RIGHT JOIN authors a ON b.author_id = a.id ORDER BY a.id');
+    const full = rows(rdbms, 'SELECT b.id, a.id FROM books b FULL OUTER JOIN authors a ON b.author_id = a.id ORDER BY b.id, a.id');
+
+    expect(left.map(row => [row['b.id'], row['a.id']])).toEqual([[1, 1], [2, 2], [3, null]]);
+    expect(right.map(row => [row['b.id'], row['a.id']])).toEqual([[1, 1], [2, 2], [null, 3]]);
+    expect(full.map(row => [row['b.id'], row['a.id']])).toEqual([[1, 1], [2, 2], [3, null], [null, 3]]);
+  });
+
+  it('pairs every row with CROSS JOIN', () => {
+    expect(rows(rdbms, 'SELECT COUNT(*) FROM books CROSS JOIN authors')).toEqual([{ 'COUNT(*)': 9 }]);
+  });
+
+  it('accepts compound ON conditions', () => {
+    const sql = "SELECT l.member FROM books b JOIN loans l ON l.book_id = b.id AND l.member <> 'ann'";
+
+    expect(rows(rdbms, sql)).toEqual([{ 'l.member': 'bob' }]);
+  });
+});
+
+describe('join methods', () => {
+  const methods: JoinMethod[][] = [['index', 'hash', 'merge'], ['hash'], ['merge'], []];
+
+  // Books and authors with rows on either side that match nothing, and books with a NULL author
+  function database(joinMethods: JoinMethod[]): RDBMS {
+    const rdbms = new RDBMS({ joinMethods });
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, author_id integer)',
+      'CREATE INDEX authors_id ON authors USING btree (id)',
+      'CREATE INDEX books_author ON books USING btree (author_id)'
+    );
+    for (let id = 1; id <= 30; id++) {
+      run(rdbms, `INSERT INTO authors (id, name) VALUES (${id}, 'a${id}')`);
+      run(rdbms, `INSERT INTO books (id, author_id) VALUES (${id}, ${id % 7 === 0 ? 'NULL' : (id * 11) % 40})`);
+    }
+    return rdbms;
+  }
+
+  it('pick hash and merge joins when allowed', () => {
+    const sql = 'EXPLAIN SELECT * FROM books b JOIN authors a ON b.author_id = a.id ORDER BY b.author_id';
+
+    expect(rows(database(['hash']), sql)[0]['QUERY PLAN']).toBe('Hash Join (b.author_id = a.id)');
+    expect(rows(database(['merge']), sql)[0]['QUERY PLAN']).toBe('Merge Join (b.author_id = a.id)');
+    expect(rows(database([]), sql)[0]['QUERY PLAN']).toBe('Nested Loop (b.author_id = a.id)');
+  });
+
+  it('return the same rows as nested loops', () => {
+    const queries = [
+      'SELECT b.id, a.name FROM books b JOIN authors a ON b.author_id = a.id ORDER BY b.author_id, b.id',
+      'SELECT b.id, a.name FROM books b LEFT JOIN authors a ON b.author_id = a.id ORDER BY b.author_id, b.id',
+      'SELECT b.id, a.name FROM books b RIGHT JOIN authors a ON b.author_id = a.id ORDER BY a.name, b.id',
+      'SELECT b.id, a.name FROM books b FULL JOIN authors a ON b.author_id = a.id ORDER BY b.id, a.name',
+    ];
+    const expected = database([]);
+
+    for (const joinMethods of methods) {
+      const rdbms = database(joinMethods);
+      for (const sql of queries) {
+        expect(rows(rdbms, sql), `${joinMethods} ${sql}`).toEqual(rows(expected, sql));
+      }
+    }
+  });
+});
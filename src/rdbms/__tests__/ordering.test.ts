@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('ORDER BY, LIMIT and OFFSET', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, year integer, available boolean)',
+      "INSERT INTO books (id, title, year, available) VALUES (1, 'b', 1990, TRUE)",
+      "INSERT INTO books (id, title, year, available) VALUES (2, 'a', NULL, FALSE)",
+      "INSERT INTO books (id, title, year, available) VALUES (3, 'c', 1850, TRUE)",
+      "INSERT INTO books (id, title, year, available) VALUES (4, 'a', 1990, NULL)"
+    );
+  });
+
+  const ids = (sql: string) => rows(rdbms, sql).map(row => row.id);
+
+  it('sorts numbers numerically with NULLs last when ascending and first when descending', () => {
+    expect(ids('SELECT id FROM books ORDER BY year')).toEqual([3, 1, 4, 2]);
+    expect(ids('SELECT id FROM books ORDER BY year DESC')).toEqual([2, 1, 4, 3]);
+  });
+
+  it('honors NULLS FIRST and NULLS LAST', () => {
+    expect(ids('SELECT id FROM books ORDER BY year NULLS FIRST')).toEqual([2, 3, 1, 4]);
+    expect(ids('SELECT id FROM books ORDER BY year DESC NULLS LAST')).toEqual([1, 4, 3, 2]);
+  });
+
+  it('breaks ties with later keys and keeps insertion order otherwise', () => {
+    expect(ids('SELECT id FROM books ORDER BY title, year DESC')).toEqual([2, 4, 1, 3]);
+    expect(ids('SELECT id FROM books ORDER BY year DESC NULLS LAST')).toEqual([1, 4, 3, 2]);
+  });
+
+  it('sorts booleans with false first', () => {
+    expect(ids('SELECT id FROM books ORDER BY available, id')).toEqual([2, 1, 3, 4]);
+  });
+
+  it('pages with LIMIT and OFFSET after sorting', () => {
+    expect(ids('SELECT id FROM books ORDER BY id LIMIT 2')).toEqual([1, 2]);
+    expect(ids('SELECT id FROM books ORDER BY id LIMIT 2 OFFSET 3')).toEqual([4]);
+    expect(ids('SELECT id FROM books ORDER BY id OFFSET 1')).toEqual([2, 3, 4]);
+  });
+
+  it('rejects a negative LIMIT', () => {
+    expect(error(rdbms, 'SELECT id FROM books LIMIT -1')).not.toBe('');
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('parser', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(rdbms, 'CREATE TABLE notes (id integer PRIMARY KEY, body string, pinned boolean)');
+  });
+
+  it('keeps commas and escaped quotes inside string literals', () => {
+    run(rdbms, "INSERT INTO notes (id, body, pinned) VALUES (1, 'Hello, world', TRUE)");
+    run(rdbms, "INSERT INTO notes (id, body, pinned) VALUES (2, 'O''Brien', FALSE)");
+
+    expect(rows(rdbms, 'SELECT body FROM notes ORDER BY id')).toEqual([{ body: 'Hello, world' }, { body: "O'Brien" }]);
+  });
+
+  it('reads NULL as a null value, not as text', () => {
+    run(rdbms, 'INSERT INTO notes (id, body, pinned) VALUES (1, NULL, NULL)');
+
+    expect(rows(rdbms, 'SELECT body, pinned FROM notes')).toEqual([{ body: null, pinned: null }]);
+  });
+
+  it('accepts quoted identifiers, comments and keywords in any case', () => {
+    run(rdbms, 'insert into notes (id, body) values (1, \'x\')');
+    const sql = `
+      -- a line comment
+      SELECT "body" /* a block
+      comment */ FROM "notes"`;
+
+    expect(rows(rdbms, sql)).toEqual([{ body: 'x' }]);
+  });
+
+  it('reports the line and column of the offending token', () => {
+    const result = rdbms.query('SELECT body\nFROM notes\nWHERE id = = 1');
+
+    expect(result.success).toBe(false);
+    expect(result.errorPosition).toEqual({ line: 3, column: 12 });
+    expect(result.error).toContain('at line 3, column 12');
+  });
+
+  it('reports unterminated strings', () => {
+    expect(error(rdbms, "SELECT 'abc FROM notes")).toMatch(/Unterminated string/);
+  });
+
+  it('rejects numbers too large to hold', () => {
+    expect(error(rdbms, 'SELECT 1e400')).toBe('Numeric value 1e400 is out of range at line 1, column 8');
+    expect(error(rdbms, 'SELECT body FROM notes LIMIT 1e400')).toBe('Numeric value 1e400 is out of range at line 1, column 30');
+  });
+
+  it('rejects trailing tokens after a statement', () => {
+    expect(error(rdbms, 'SELECT body FROM notes notes2 extra')).toMatch(/line 1/);
+  });
+});
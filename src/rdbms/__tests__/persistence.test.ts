@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { MemoryStorage, rows, run } from './helpers';
+
+describe('write-ahead log', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    const rdbms = new RDBMS({ storage });
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')"
+    );
+  });
+
+  const names = (rdbms: RDBMS) => rows(rdbms, 'SELECT name FROM authors ORDER BY id').map(row => row.name);
+
+  it('replays committed statements when reopened', () => {
+    expect(names(new RDBMS({ storage }))).toEqual(['Austen', 'Morrison']);
+  });
+
+  it('logs nothing for failed statements or rolled back transactions', () => {
+    const rdbms = new RDBMS({ storage });
+    const before = storage.read('wal.log');
+    rdbms.query("INSERT INTO authors (id, name) VALUES (1, 'Again')");
+    run(rdbms, 'BEGIN', "INSERT INTO authors (id, name) VALUES (3, 'Woolf')", 'ROLLBACK');
+
+    expect(storage.read('wal.log')).toBe(before);
+  });
+
+  it('writes a transaction as one record when it commits', () => {
+    const rdbms = new RDBMS({ storage });
+    run(rdbms, 'BEGIN', "INSERT INTO authors (id, name) VALUES (3, 'Woolf')", 'DELETE FROM authors WHERE id = 1');
+    const lines = () => storage.read('wal.log')!.trim().split('\n').length;
+    expect(lines()).toBe(3);
+
+    run(rdbms, 'COMMIT');
+    expect(lines()).toBe(4);
+    expect(names(new RDBMS({ storage }))).toEqual(['Morrison', 'Woolf']);
+  });
+
+  it('replays prepared statements with negative values', () => {
+    const rdbms = new RDBMS({ storage });
+    // Pasted in as it is, -5 would turn the rest of the logged statement into a -- comment
+    rdbms.prepare("UPDATE authors SET id = id -? WHERE name = 'Morrison'").execute([-5]);
+    const ids = (db: RDBMS) => rows(db, 'SELECT id FROM authors ORDER BY id').map(row => row.id);
+    expect(ids(rdbms)).toEqual([1, 7]);
+
+    expect(ids(new RDBMS({ storage }))).toEqual([1, 7]);
+  });
+
+  it('ignores a torn last record', () => {
+    const log = storage.read('wal.log')!;
+    storage.write('wal.log', log.slice(0, -10));
+
+    expect(names(new RDBMS({ storage }))).toEqual(['Austen']);
+    expect(storage.read('wal.log')!.endsWith('\n')).toBe(true);
+  });
+
+  it('refuses to open a log damaged before its last record', () => {
+    const lines = storage.read('wal.log')!.split('\n');
+    lines[1] = lines[1].replace('Austen', 'Austin');
+    storage.write('wal.log', lines.join('\n'));
+
+    expect(() => new RDBMS({ storage })).toThrow(/corrupt/);
+  });
+
+  it('starts the log over at a checkpoint and recovers from both', () => {
+    const rdbms = new RDBMS({ storage });
+    rdbms.checkpoint();
+    expect(storage.read('wal.log')).toBe('');
+
+    run(rdbms, "INSERT INTO authors (id, name) VALUES (3, 'Woolf')");
+    expect(names(new RDBMS({ storage }))).toEqual(['Austen', 'Morrison', 'Woolf']);
+  });
+
+  it('takes a checkpoint every checkpointInterval transactions', () => {
+    const rdbms = new RDBMS({ storage, checkpointInterval: 2 });
+    run(rdbms, "INSERT INTO authors (id, name) VALUES (3, 'Woolf')", "INSERT INTO authors (id, name) VALUES (4, 'Eliot')");
+
+    expect(storage.read('checkpoint.json')).not.toBeNull();
+    expect(names(new RDBMS({ storage }))).toEqual(['Austen', 'Morrison', 'Woolf', 'Eliot']);
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { rows, run } from './helpers';
+
+// Plan lines without the timings, which change from run to run
+function plan(rdbms: RDBMS, sql: string): string[] {
+  return rows(rdbms, sql).map(row =>
+    String(row['QUERY PLAN'])
+      .replace(/actual time=[\d.]+ ms /, '')
+      .replace(/[\d.]+ ms$/, 'N ms')
+  );
+}
+
+describe('query planner', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer REFERENCES authors(id), year integer)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO books (id, title, author_id, year) VALUES (1, 'Emma', 1, 1815)",
+      "INSERT INTO books (id, title, author_id, year) VALUES (2, 'Persuasion', 1, 1817)",
+      "INSERT INTO books (id, title, author_id, year) VALUES (3, 'Sanditon', 1, 1925)"
+    );
+  });
+
+  it('uses an index for equality on indexed columns and scans otherwise', () => {
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books WHERE id = 1')).toEqual([
+      'Filter (id = 1)',
+      '  ->  Index Scan using books_pkey on books (id = 1)',
+    ]);
+    expect(plan(rdbms, "EXPLAIN SELECT * FROM books WHERE title = 'Emma'")).toEqual([
+      "Filter (title = 'Emma')",
+      '  ->  Seq Scan on books',
+    ]);
+  });
+
+  it('uses a B-tree index for ranges and ordering', () => {
+    run(rdbms, 'CREATE INDEX books_year ON books USING btree (year)');
+
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books WHERE year BETWEEN 1800 AND 1900')[1]).toMatch(/^ {2}-> {2}Index Scan using books_year on books/);
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books ORDER BY year DESC')).toContain('Index Scan Backward using books_year on books');
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year BETWEEN 1800 AND 1900 ORDER BY year DESC')).toEqual([{ id: 2 }, { id: 1 }]);
+  });
+
+  it('uses an index on several columns only for equality on all of them', () => {
+    run(
+      rdbms,
+      'CREATE INDEX books_year_author ON books USING btree (year, author_id)',
+      "INSERT INTO books (id, title, year) VALUES (4, 'Lady Susan', 1815)"
+    );
+
+    // The index leaves out book 4, whose author_id is NULL
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books WHERE year = 1815')[1]).toBe('  ->  Seq Scan on books');
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year = 1815')).toEqual([{ id: 1 }, { id: 4 }]);
+    expect(rows(rdbms, 'SELECT id FROM books WHERE year < 1900 ORDER BY year, id')).toEqual([{ id: 1 }, { id: 4 }, { id: 2 }]);
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books WHERE year = 1815 AND author_id = 1')[1]).toMatch(/^ {2}-> {2}Index Scan using books_year_author/);
+
+    run(rdbms, 'DELETE FROM books WHERE year = 1815');
+    expect(rows(rdbms, 'SELECT id FROM books ORDER BY id')).toEqual([{ id: 2 }, { id: 3 }]);
+  });
+
+  it('looks up the inner side of a join through its index', () => {
+    expect(plan(rdbms, 'EXPLAIN SELECT * FROM books JOIN authors ON books.author_id = authors.id')).toEqual([
+      'Nested Loop (books.author_id = authors.id)',
+      '  ->  Seq Scan on books',
+      '  ->  Index Scan using authors_pkey on authors (books.author_id = authors.id)',
+    ]);
+  });
+
+  it('shows every step of a query', () => {
+    expect(plan(rdbms, 'EXPLAIN SELECT author_id, count(*) FROM books GROUP BY author_id ORDER BY author_id LIMIT 1')).toEqual([
+      'Limit (limit 1)',
+      '  ->  Sort (author_id ASC)',
+      '        ->  Aggregate (group by author_id)',
+      '              ->  Seq Scan on books',
+    ]);
+  });
+
+  it('reports the rows each node returned with EXPLAIN ANALYZE', () => {
+    expect(plan(rdbms, 'EXPLAIN ANALYZE SELECT * FROM books WHERE year > 1816')).toEqual([
+      'Filter (year > 1816)  (rows=2 loops=1)',
+      '  ->  Seq Scan on books  (rows=3 loops=1)',
+      'Execution Time: N ms',
+    ]);
+  });
+
+  it('plans UPDATE and DELETE without running them', () => {
+    expect(plan(rdbms, 'EXPLAIN UPDATE books SET year = 1816 WHERE id = 1')).toEqual([
+      'Update on books',
+      '  ->  Index Scan using books_pkey on books (id = 1) (filter: id = 1)',
+    ]);
+    expect(plan(rdbms, 'EXPLAIN DELETE FROM books WHERE id = 2')).toEqual([
+      'Delete on books',
+      '  ->  Index Scan using books_pkey on books (id = 2) (filter: id = 2)',
+    ]);
+    expect(rows(rdbms, 'SELECT id, year FROM books WHERE id < 3 ORDER BY id')).toEqual([
+      { id: 1, year: 1815 },
+      { id: 2, year: 1817 },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { rows, run } from './helpers';
+
+describe('predicates and NULL logic', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, year integer)',
+      "INSERT INTO books (id, title, year) VALUES (1, 'Emma', 1815)",
+      "INSERT INTO books (id, title, year) VALUES (2, 'Beloved', 1987)",
+      "INSERT INTO books (id, title, year) VALUES (3, 'Persuasion', NULL)",
+      'INSERT INTO books (id, title, year) VALUES (4, NULL, 1900)'
+    );
+  });
+
+  const ids = (sql: string) => rows(rdbms, sql).map(row => row.id);
+
+  it('matches LIKE wildcards case-sensitively and ILIKE without case', () => {
+    expect(ids("SELECT id FROM books WHERE title LIKE '%e%'")).toEqual([2, 3]);
+    expect(ids("SELECT id FROM books WHERE title LIKE 'E_ma'")).toEqual([1]);
+    expect(ids("SELECT id FROM books WHERE title ILIKE 'e%'")).toEqual([1]);
+    expect(ids("SELECT id FROM books WHERE title NOT LIKE 'B%'")).toEqual([1, 3]);
+  });
+
+  it('supports IN and BETWEEN', () => {
+    expect(ids('SELECT id FROM books WHERE year IN (1815, 1900)')).toEqual([1, 4]);
+    expect(ids('SELECT id FROM books WHERE year BETWEEN 1800 AND 1900')).toEqual([1, 4]);
+    expect(ids('SELECT id FROM books WHERE year NOT BETWEEN 1800 AND 1900')).toEqual([2]);
+  });
+
+  it('finds NULLs only with IS NULL', () => {
+    expect(ids('SELECT id FROM books WHERE year IS NULL')).toEqual([3]);
+    expect(ids('SELECT id FROM books WHERE title IS NOT NULL')).toEqual([1, 2, 3]);
+    expect(ids('SELECT id FROM books WHERE year = NULL')).toEqual([]);
+  });
+
+  it('treats comparisons with NULL as unknown, so NOT does not select them', () => {
+    expect(ids('SELECT id FROM books WHERE year > 1900')).toEqual([2]);
+    expect(ids('SELECT id FROM books WHERE NOT year > 1900')).toEqual([1, 4]);
+  });
+
+  it('follows three-valued logic for AND and OR', () => {
+    expect(ids('SELECT id FROM books WHERE year > 1900 OR id = 3')).toEqual([2, 3]);
+    expect(ids('SELECT id FROM books WHERE NOT (year > 1900 AND id = 3)')).toEqual([1, 2, 4]);
+  });
+
+  it('gives unknown for NOT IN when the list holds NULL', () => {
+    expect(ids('SELECT id FROM books WHERE year NOT IN (1815, NULL)')).toEqual([]);
+  });
+});
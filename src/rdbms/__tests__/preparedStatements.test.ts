@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryParser } from '../QueryParser';
+import { RDBMS } from '../RDBMS';
+import { SQLSyntaxError } from '../errors';
+import { MemoryStorage, error, rows, run } from './helpers';
+
+describe('prepared statements', () => {
+  let storage: MemoryStorage;
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    rdbms = new RDBMS({ storage });
+    run(rdbms, 'CREATE TABLE books (id integer PRIMARY KEY, title string, year integer, available boolean)');
+  });
+
+  it('takes values with quotes in them as they are', () => {
+    const insert = rdbms.prepare('INSERT INTO books (id, title, year, available) VALUES (?, ?, ?, ?)');
+
+    expect(insert.execute([1, "Winnie's Wedding", 1996, true]).success).toBe(true);
+    expect(insert.execute([2, "x', 1, true); DROP TABLE books; --", null, false]).success).toBe(true);
+    expect(rows(rdbms, 'SELECT title FROM books ORDER BY id')).toEqual([
+      { title: "Winnie's Wedding" },
+      { title: "x', 1, true); DROP TABLE books; --" },
+    ]);
+  });
+
+  it('parses the statement once', () => {
+    const select = rdbms.prepare('SELECT id FROM books WHERE year > ?');
+    const parse = vi.spyOn(QueryParser.prototype, 'parse');
+
+    select.execute([1900]);
+    select.execute([2000]);
+
+    expect(parse).not.toHaveBeenCalled();
+    parse.mockRestore();
+  });
+
+  it('reuses numbered parameters and infers their types from the columns they meet', () => {
+    run(rdbms, "INSERT INTO books (id, title, year) VALUES (1, 'Emma', 1815)", "INSERT INTO books (id, title, year) VALUES (2, 'Beloved', 1987)");
+    const select = rdbms.prepare('SELECT id FROM books WHERE year BETWEEN $1 AND $2 OR id = $1');
+    const update = rdbms.prepare('UPDATE books SET title = ?, available = ? WHERE id = ?');
+
+    expect(select.getParameterCount()).toBe(2);
+    expect(select.getParameterTypes()).toEqual(['integer', 'integer']);
+    expect(select.execute([1, 1900]).rows).toEqual([{ id: 1 }]);
+    expect(update.getParameterTypes()).toEqual(['string', 'boolean', 'integer']);
+    expect(update.execute(['Persuasion', true, 1]).rowCount).toBe(1);
+  });
+
+  it('rejects the wrong number or types of values without running the statement', () => {
+    const insert = rdbms.prepare('INSERT INTO books (id, title, year) VALUES (?, ?, ?)');
+
+    expect(insert.execute([1, 'Emma']).error).toBe('Statement expects 3 parameter(s) but got 2');
+    expect(insert.execute([1, 'Emma', '1815']).error).toBe("Parameter $3 must be of type integer but got '1815'");
+    expect(insert.execute([1, 'Emma', Infinity]).error).toBe('Parameter $3 must be a finite number');
+    expect(insert.execute([1, 'Emma', {} as unknown as number]).error).toBe('Parameter $3 must be a string, number, boolean or null');
+    expect(rows(rdbms, 'SELECT COUNT(*) FROM books')).toEqual([{ 'COUNT(*)': 0 }]);
+  });
+
+  it('rejects parameters outside prepared statements and mixed placeholder styles', () => {
+    expect(error(rdbms, 'SELECT * FROM books WHERE id = ?')).toBe('Parameters are only allowed in prepared statements at line 1, column 32');
+    expect(() => rdbms.prepare('SELECT ? + $1')).toThrow(SQLSyntaxError);
+    expect(() => rdbms.prepare('SELECT * FROM')).toThrow('Expected table name but found end of input');
+  });
+
+  it('logs the values so that they are replayed', () => {
+    rdbms.prepare('INSERT INTO books (id, title) VALUES ($1, $2)').execute([1, "Winnie's Wedding"]);
+
+    expect(rows(new RDBMS({ storage }), 'SELECT id, title FROM books')).toEqual([{ id: 1, title: "Winnie's Wedding" }]);
+  });
+});
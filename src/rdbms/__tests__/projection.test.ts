@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('projection over joined rows', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, title string, author_id integer)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO books (id, title, author_id) VALUES (1, 'Emma', 1)",
+      "INSERT INTO books (id, title, author_id) VALUES (2, 'Orphan', NULL)"
+    );
+  });
+
+  it('selects qualified columns from both tables', () => {
+    expect(rows(rdbms, 'SELECT books.title, authors.name FROM books JOIN authors ON books.author_id = authors.id')).toEqual([
+      { 'books.title': 'Emma', 'authors.name': 'Austen' },
+    ]);
+  });
+
+  it('resolves bare names that only one table has', () => {
+    expect(rows(rdbms, 'SELECT title, name FROM books JOIN authors ON author_id = authors.id')).toEqual([{ title: 'Emma', name: 'Austen' }]);
+  });
+
+  it('filters on columns of the joined table', () => {
+    const sql = "SELECT books.id FROM books LEFT JOIN authors ON books.author_id = authors.id WHERE authors.name IS NULL";
+
+    expect(rows(rdbms, sql)).toEqual([{ 'books.id': 2 }]);
+  });
+
+  it('gives unmatched outer rows explicit NULLs', () => {
+    const result = rows(rdbms, 'SELECT * FROM books LEFT JOIN authors ON books.author_id = authors.id ORDER BY books.id');
+
+    expect(result[1]).toEqual({ 'books.id': 2, 'books.title': 'Orphan', 'books.author_id': null, 'authors.id': null, 'authors.name': null });
+  });
+
+  it('reports ambiguous and unknown columns', () => {
+    expect(error(rdbms, 'SELECT id FROM books JOIN authors ON books.author_id = authors.id')).toMatch(/ambiguous/i);
+    expect(error(rdbms, 'SELECT isbn FROM books')).toMatch(/isbn/);
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { MemoryStorage, error, rows, run } from './helpers';
+
+describe('SERIAL columns and sequences', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+  });
+
+  it('generates keys for SERIAL columns and reports them as lastInsertId', () => {
+    run(rdbms, 'CREATE TABLE tags (id serial PRIMARY KEY, label string)');
+
+    expect(run(rdbms, "INSERT INTO tags (label) VALUES ('a')").lastInsertId).toBe(1);
+    expect(run(rdbms, "INSERT INTO tags (label) VALUES ('b')").lastInsertId).toBe(2);
+    expect(run(rdbms, "INSERT INTO tags (id, label) VALUES (10, 'c')").lastInsertId).toBeUndefined();
+    expect(rows(rdbms, 'SELECT id FROM tags ORDER BY id').map(row => row.id)).toEqual([1, 2, 10]);
+  });
+
+  it('runs nextval, currval and setval on standalone sequences', () => {
+    run(rdbms, 'CREATE SEQUENCE tickets START WITH 1000 INCREMENT BY 10');
+
+    expect(error(rdbms, "SELECT currval('tickets')")).toMatch(/tickets/);
+    expect(rows(rdbms, "SELECT nextval('tickets') AS n")).toEqual([{ n: 1000 }]);
+    expect(rows(rdbms, "SELECT nextval('tickets') AS n, currval('tickets') AS c")).toEqual([{ n: 1010, c: 1010 }]);
+    run(rdbms, "SELECT setval('tickets', 5000)");
+    expect(rows(rdbms, "SELECT nextval('tickets') AS n")).toEqual([{ n: 5010 }]);
+    run(rdbms, "SELECT setval('tickets', 7000, FALSE)");
+    expect(rows(rdbms, "SELECT nextval('tickets') AS n")).toEqual([{ n: 7000 }]);
+  });
+
+  it('fills a key from a sequence in INSERT values', () => {
+    run(rdbms, 'CREATE SEQUENCE s', 'CREATE TABLE m (id integer PRIMARY KEY, amt integer)');
+    run(rdbms, "INSERT INTO m (id, amt) VALUES (nextval('s'), 1)", "INSERT INTO m (id, amt) VALUES (nextval('s'), currval('s') * 10)");
+
+    expect(rows(rdbms, 'SELECT * FROM m ORDER BY id')).toEqual([
+      { id: 1, amt: 1 },
+      { id: 2, amt: 20 },
+    ]);
+  });
+
+  it('rolls sequences back with the transaction', () => {
+    run(rdbms, 'CREATE SEQUENCE s', "SELECT nextval('s')", 'BEGIN', "SELECT nextval('s')", 'ROLLBACK');
+
+    expect(rows(rdbms, "SELECT nextval('s') AS n")).toEqual([{ n: 2 }]);
+  });
+
+  it('replays sequence positions from the log', () => {
+    const storage = new MemoryStorage();
+    const first = new RDBMS({ storage });
+    run(first, 'CREATE SEQUENCE s', 'CREATE TABLE m (id integer PRIMARY KEY)', "INSERT INTO m (id) VALUES (nextval('s'))", "SELECT nextval('s')");
+
+    const reopened = new RDBMS({ storage });
+    expect(rows(reopened, 'SELECT id FROM m')).toEqual([{ id: 1 }]);
+    expect(rows(reopened, "SELECT nextval('s') AS n")).toEqual([{ n: 3 }]);
+  });
+
+  it('refuses to drop the sequence of a SERIAL column', () => {
+    run(rdbms, 'CREATE TABLE tags (id serial PRIMARY KEY)');
+
+    expect(error(rdbms, 'DROP SEQUENCE tags_id_seq')).toMatch(/SERIAL/);
+  });
+});
+
+describe('INSERT and UPDATE expressions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, author_id integer REFERENCES authors(id) ON UPDATE CASCADE, pages integer)',
+      "INSERT INTO authors (id, name) VALUES (1, 'austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'woolf')",
+      'INSERT INTO books (id, author_id, pages) VALUES (1, 1, 100 * 3)',
+      'INSERT INTO books (id, author_id, pages) VALUES (2, 2, (SELECT COUNT(*) FROM authors))'
+    );
+  });
+
+  it('computes INSERT values, including subqueries', () => {
+    expect(rows(rdbms, 'SELECT pages FROM books ORDER BY id')).toEqual([{ pages: 300 }, { pages: 2 }]);
+  });
+
+  it('computes each row from its own values in UPDATE', () => {
+    run(rdbms, 'UPDATE books SET pages = pages + id * 10');
+
+    expect(rows(rdbms, 'SELECT pages FROM books ORDER BY id')).toEqual([{ pages: 310 }, { pages: 22 }]);
+  });
+
+  it('cascades keys computed per row', () => {
+    run(rdbms, 'UPDATE authors SET id = id + 10, name = upper(name)');
+
+    expect(rows(rdbms, 'SELECT * FROM authors ORDER BY id')).toEqual([
+      { id: 11, name: 'AUSTEN' },
+      { id: 12, name: 'WOOLF' },
+    ]);
+    expect(rows(rdbms, 'SELECT author_id FROM books ORDER BY id')).toEqual([{ author_id: 11 }, { author_id: 12 }]);
+  });
+
+  it('changes nothing when one row fails', () => {
+    expect(error(rdbms, 'UPDATE books SET pages = (pages - 2) / (pages - 2)')).toBe('Division by zero');
+    expect(rows(rdbms, 'SELECT pages FROM books ORDER BY id')).toEqual([{ pages: 300 }, { pages: 2 }]);
+  });
+
+  it('rejects column references in VALUES and aggregates in either', () => {
+    expect(error(rdbms, 'INSERT INTO books (id, pages) VALUES (3, pages)')).toBe('Column pages does not exist');
+    expect(error(rdbms, 'UPDATE books SET pages = MAX(pages)')).toBe('Aggregate functions are not allowed in INSERT or UPDATE values');
+  });
+
+  it('rejects unknown columns and extra values', () => {
+    expect(error(rdbms, 'INSERT INTO books (id, isbn) VALUES (3, 1)')).toBe('Column isbn does not exist in table books');
+    expect(error(rdbms, 'UPDATE books SET isbn = 1')).toBe('Column isbn does not exist in table books');
+    expect(error(rdbms, 'INSERT INTO authors VALUES (3, 1, 2)')).toBe('INSERT has 3 value(s) but table authors has 2 column(s)');
+  });
+
+  it('infers parameter types inside expressions', () => {
+    const insert = rdbms.prepare('INSERT INTO books (id, pages) VALUES ($1, $2 * 2)');
+
+    expect(insert.execute([3, 50]).success).toBe(true);
+    expect(rows(rdbms, 'SELECT pages FROM books WHERE id = 3')).toEqual([{ pages: 100 }]);
+  });
+});
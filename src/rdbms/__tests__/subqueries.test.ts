@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('subqueries', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE authors (id integer PRIMARY KEY, name string)',
+      'CREATE TABLE books (id integer PRIMARY KEY, author_id integer, available boolean)',
+      "INSERT INTO authors (id, name) VALUES (1, 'Austen')",
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')",
+      "INSERT INTO authors (id, name) VALUES (3, 'Woolf')",
+      'INSERT INTO books (id, author_id, available) VALUES (1, 1, TRUE)',
+      'INSERT INTO books (id, author_id, available) VALUES (2, 2, FALSE)',
+      'INSERT INTO books (id, author_id, available) VALUES (3, 1, FALSE)'
+    );
+  });
+
+  const names = (sql: string) => rows(rdbms, sql).map(row => row.name);
+
+  it('filters with IN and NOT IN subqueries', () => {
+    expect(names('SELECT name FROM authors WHERE id IN (SELECT author_id FROM books WHERE available = TRUE)')).toEqual(['Austen']);
+    expect(names('SELECT name FROM authors WHERE id NOT IN (SELECT author_id FROM books)')).toEqual(['Woolf']);
+  });
+
+  it('runs correlated EXISTS and NOT EXISTS subqueries', () => {
+    const sql = 'SELECT name FROM authors a WHERE EXISTS (SELECT 1 FROM books b WHERE b.author_id = a.id AND b.available = FALSE)';
+
+    expect(names(sql)).toEqual(['Austen', 'Morrison']);
+    expect(names('SELECT name FROM authors a WHERE NOT EXISTS (SELECT 1 FROM books b WHERE b.author_id = a.id)')).toEqual(['Woolf']);
+  });
+
+  it('evaluates correlated scalar subqueries in the select list', () => {
+    const sql = 'SELECT name, (SELECT COUNT(*) FROM books WHERE author_id = authors.id) AS books FROM authors ORDER BY id';
+
+    expect(rows(rdbms, sql).map(row => row.books)).toEqual([2, 1, 0]);
+  });
+
+  it('reads from derived tables', () => {
+    const sql = 'SELECT t.author_id, t.n FROM (SELECT author_id, COUNT(*) AS n FROM books GROUP BY author_id) AS t WHERE t.n > 1';
+
+    expect(rows(rdbms, sql)).toEqual([{ 't.author_id': 1, 't.n': 2 }]);
+  });
+
+  it('rejects a scalar subquery that returns several rows', () => {
+    expect(error(rdbms, 'SELECT (SELECT id FROM books) FROM authors')).toMatch(/More than one row/);
+  });
+});
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('transactions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(rdbms, 'CREATE TABLE authors (id integer PRIMARY KEY, name string UNIQUE)', "INSERT INTO authors (id, name) VALUES (1, 'Austen')");
+  });
+
+  const names = () => rows(rdbms, 'SELECT name FROM authors ORDER BY id').map(row => row.name);
+
+  it('keeps committed changes and discards rolled back ones', () => {
+    run(rdbms, 'BEGIN', "INSERT INTO authors (id, name) VALUES (2, 'Morrison')", 'COMMIT');
+    run(rdbms, 'BEGIN', "INSERT INTO authors (id, name) VALUES (3, 'Woolf')", 'DELETE FROM authors WHERE id = 1', 'ROLLBACK');
+
+    expect(names()).toEqual(['Austen', 'Morrison']);
+  });
+
+  it('restores indexes on rollback', () => {
+    run(rdbms, 'BEGIN', "UPDATE authors SET name = 'Jane' WHERE id = 1", 'ROLLBACK');
+
+    expect(rows(rdbms, "SELECT id FROM authors WHERE name = 'Austen'")).toEqual([{ id: 1 }]);
+    expect(error(rdbms, "INSERT INTO authors (id, name) VALUES (2, 'Austen')")).toBe('Duplicate value for unique column name');
+    run(rdbms, "INSERT INTO authors (id, name) VALUES (2, 'Jane')");
+  });
+
+  it('rolls back CREATE TABLE and DROP TABLE', () => {
+    run(rdbms, 'BEGIN', 'CREATE TABLE books (id integer)', 'DROP TABLE authors', 'ROLLBACK');
+
+    expect(error(rdbms, 'SELECT * FROM books')).toMatch(/books/);
+    expect(names()).toEqual(['Austen']);
+  });
+
+  it('rolls back to a savepoint and keeps the earlier work', () => {
+    run(
+      rdbms,
+      'BEGIN',
+      "INSERT INTO authors (id, name) VALUES (2, 'Morrison')",
+      'SAVEPOINT before_woolf',
+      "INSERT INTO authors (id, name) VALUES (3, 'Woolf')",
+      'ROLLBACK TO SAVEPOINT before_woolf',
+      'COMMIT'
+    );
+
+    expect(names()).toEqual(['Austen', 'Morrison']);
+  });
+
+  it('rejects COMMIT outside a transaction and BEGIN inside one', () => {
+    expect(error(rdbms, 'COMMIT')).toBe('No transaction in progress');
+    run(rdbms, 'BEGIN');
+    expect(error(rdbms, 'BEGIN')).toBe('A transaction is already in progress');
+  });
+
+  it('commits transaction() on return and rolls it back on throw', () => {
+    rdbms.transaction(db => run(db, "INSERT INTO authors (id, name) VALUES (2, 'Morrison')"));
+    expect(() =>
+      rdbms.transaction(db => {
+        run(db, "INSERT INTO authors (id, name) VALUES (3, 'Woolf')");
+        throw new Error('stop');
+      })
+    ).toThrow('stop');
+
+    expect(names()).toEqual(['Austen', 'Morrison']);
+  });
+});
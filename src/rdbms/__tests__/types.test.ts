@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Decimal } from '../Decimal';
+import { RDBMS } from '../RDBMS';
+import { error, rows, run } from './helpers';
+
+describe('column types', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(rdbms, 'CREATE TABLE t (id integer PRIMARY KEY, n integer, f real, amt decimal(5, 2), d date, ts timestamp, doc json)');
+  });
+
+  it('accepts only values of the column type', () => {
+    expect(error(rdbms, 'INSERT INTO t (id, n) VALUES (1, 1.5)')).toBe('Invalid value 1.5 for column n: expected integer');
+    expect(error(rdbms, "INSERT INTO t (id, n) VALUES (1, '1')")).toBe("Invalid value '1' for column n: expected integer");
+    expect(error(rdbms, 'INSERT INTO t (id, amt) VALUES (1, 1234.5)')).toBe('Invalid value 1234.5 for column amt: expected decimal(5, 2)');
+    expect(error(rdbms, "INSERT INTO t (id, d) VALUES (1, '2023-02-29')")).toBe("Invalid value '2023-02-29' for column d: expected date");
+    expect(error(rdbms, "INSERT INTO t (id, doc) VALUES (1, '{bad')")).toBe("Invalid value '{bad' for column doc: expected json");
+    expect(error(rdbms, 'CREATE TABLE u (a money)')).toBe('Unknown type money at line 1, column 19');
+  });
+
+  it('stores values in their canonical form', () => {
+    run(rdbms, `INSERT INTO t (id, amt, d, ts, doc) VALUES (1, 1.005, '2024-02-29', '2024-01-31T09:30', '{"a": {"b": [1, 2]}}')`);
+
+    expect(rows(rdbms, 'SELECT amt, d, ts, doc FROM t')).toEqual([
+      { amt: 1.01, d: '2024-02-29', ts: '2024-01-31 09:30:00', doc: '{"a":{"b":[1,2]}}' },
+    ]);
+  });
+
+  it('compares dates and timestamps and reads JSON paths', () => {
+    run(
+      rdbms,
+      `INSERT INTO t (id, d, ts, doc) VALUES (1, '2024-02-29', '2024-01-31 09:30', '{"a": {"b": [1, 2]}}')`,
+      "INSERT INTO t (id, d, ts) VALUES (2, '2023-12-31', '2024-03-01')"
+    );
+
+    expect(rows(rdbms, "SELECT id FROM t WHERE d > DATE '2024-01-01' AND ts < TIMESTAMP '2024-02-01'")).toEqual([{ id: 1 }]);
+    expect(rows(rdbms, "SELECT doc -> 'a' -> 'b' AS b, doc -> 'a' -> 'b' ->> -1 AS last, doc ->> 'c' AS c FROM t WHERE id = 1")).toEqual([
+      { b: '[1,2]', last: 2, c: null },
+    ]);
+    expect(error(rdbms, "SELECT DATE '2024-13-01'")).toBe("Invalid date value '2024-13-01' at line 1, column 13");
+  });
+
+  it('reads strings compared with dates, timestamps and JSON as values of their type', () => {
+    run(
+      rdbms,
+      `INSERT INTO t (id, d, ts, doc) VALUES (1, '2024-02-29', '2024-01-01 10:00', '{"a": 1}')`,
+      "INSERT INTO t (id, d, ts) VALUES (2, '2023-12-31', '2024-03-01')"
+    );
+    const ids = (sql: string) => rows(rdbms, sql).map(row => row.id);
+
+    expect(ids("SELECT id FROM t WHERE ts = '2024-01-01 10:00'")).toEqual([1]);
+    expect(ids("SELECT id FROM t WHERE '2024-01-01T10:00' = ts")).toEqual([1]);
+    expect(ids("SELECT id FROM t WHERE ts BETWEEN '2024-01-01' AND '2024-01-01 10:00'")).toEqual([1]);
+    expect(ids("SELECT id FROM t WHERE ts IN ('2024-03-01', '2024-01-01T10:00:00.000') ORDER BY id")).toEqual([1, 2]);
+    expect(ids(`SELECT id FROM t WHERE doc = '{"a": 1}'`)).toEqual([1]);
+    expect(error(rdbms, "SELECT id FROM t WHERE ts = 'noon'")).toBe("Invalid timestamp value 'noon'");
+
+    // Index scans look up the stored form too
+    run(rdbms, 'CREATE INDEX t_ts ON t USING btree (ts)');
+    expect(ids("SELECT id FROM t WHERE ts = '2024-01-01T10:00'")).toEqual([1]);
+    expect(ids("SELECT id FROM t WHERE ts >= '2024-01-01 10:00' ORDER BY ts")).toEqual([1, 2]);
+  });
+
+  it('converts between types with CAST', () => {
+    const sql = "SELECT CAST('42' AS integer) AS a, CAST(2.5 AS integer) AS b, CAST(1.239 AS decimal(5, 2)) AS c, CAST('yes' AS boolean) AS d";
+
+    expect(rows(rdbms, sql)).toEqual([{ a: 42, b: 3, c: 1.24, d: true }]);
+    expect(error(rdbms, "SELECT CAST('abc' AS integer)")).toBe("Invalid integer value 'abc'");
+  });
+});
+
+describe('decimal arithmetic', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE payments (id integer PRIMARY KEY, amt decimal(10, 2), f real)',
+      'INSERT INTO payments (id, amt, f) VALUES (1, 0.1, 0.1)',
+      'INSERT INTO payments (id, amt, f) VALUES (2, 0.2, 0.2)'
+    );
+  });
+
+  it('sums and averages decimals exactly', () => {
+    expect(rows(rdbms, 'SELECT SUM(amt) AS total, AVG(amt) AS mean FROM payments')).toEqual([{ total: 0.3, mean: 0.15 }]);
+  });
+
+  it('computes with decimals exactly, and with reals as doubles', () => {
+    expect(rows(rdbms, 'SELECT amt + 0.2 AS a, amt * 3 AS b, amt % 0.15 AS c, f + 0.2 AS d FROM payments WHERE id = 1')).toEqual([
+      { a: 0.3, b: 0.3, c: 0.1, d: 0.30000000000000004 },
+    ]);
+    expect(rows(rdbms, 'SELECT id FROM payments WHERE amt + 0.2 = 0.3')).toEqual([{ id: 1 }]);
+    expect(rows(rdbms, 'SELECT 0.1 + 0.2 AS a, 1 / 3.0 AS b')).toEqual([{ a: 0.3, b: 0.333333333333333 }]);
+  });
+
+  it('keeps decimal columns exact through subqueries and CHECK constraints', () => {
+    expect(rows(rdbms, 'SELECT x + 0.2 AS y FROM (SELECT amt AS x FROM payments) s ORDER BY y')).toEqual([{ y: 0.3 }, { y: 0.4 }]);
+
+    run(rdbms, 'CREATE TABLE splits (amt decimal(10, 2), CHECK (amt * 3 <> 0.9))');
+    expect(error(rdbms, 'INSERT INTO splits (amt) VALUES (0.3)')).toBe('Check constraint violation on splits: amt * 3 != 0.9');
+  });
+
+  it('rounds results to the scale of the column they are stored in', () => {
+    run(rdbms, 'UPDATE payments SET amt = amt * 1.05');
+
+    expect(rows(rdbms, 'SELECT amt FROM payments ORDER BY id')).toEqual([{ amt: 0.11 }, { amt: 0.21 }]);
+  });
+
+  it('does arithmetic on whole numbers of units', () => {
+    const tenth = Decimal.from(0.1);
+
+    expect(tenth.plus(Decimal.from(0.2)).toNumber()).toBe(0.3);
+    expect(Decimal.from(-1.5).times(Decimal.from(1.5)).toNumber()).toBe(-2.25);
+    expect(Decimal.from(1).dividedBy(Decimal.from(-8)).toNumber()).toBe(-0.125);
+    expect(Decimal.from(2).dividedBy(Decimal.from(3)).toNumber()).toBe(0.666666666666667);
+    expect(Decimal.from(-5.5).remainder(Decimal.from(2)).toNumber()).toBe(-1.5);
+    expect(Decimal.from(1.5e-7).plus(Decimal.from(1e21)).toNumber()).toBe(1e21);
+    expect(() => tenth.dividedBy(Decimal.from(0))).toThrow('Division by zero');
+  });
+});
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RDBMS } from '../RDBMS';
+import { rows, run } from './helpers';
+
+describe('WHERE expressions', () => {
+  let rdbms: RDBMS;
+
+  beforeEach(() => {
+    rdbms = new RDBMS();
+    run(
+      rdbms,
+      'CREATE TABLE books (id integer PRIMARY KEY, year integer, available boolean, author_id integer)',
+      'INSERT INTO books (id, year, available, author_id) VALUES (1, 1850, TRUE, 1)',
+      'INSERT INTO books (id, year, available, author_id) VALUES (2, 1950, FALSE, 2)',
+      'INSERT INTO books (id, year, available, author_id) VALUES (3, 1990, TRUE, 3)',
+      'INSERT INTO books (id, year, available, author_id) VALUES (4, 1880, FALSE, 3)'
+    );
+  });
+
+  const ids = (sql: string) => rows(rdbms, sql).map(row => row.id);
+
+  it('combines OR, AND, NOT and parentheses', () => {
+    expect(ids('SELECT id FROM books WHERE (year < 1900 OR available = FALSE) AND NOT author_id = 3')).toEqual([1, 2]);
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(ids('SELECT id FROM books WHERE year > 1900 OR year < 1860 AND available = TRUE')).toEqual([1, 2, 3]);
+    expect(ids('SELECT id FROM books WHERE (year > 1900 OR year < 1860) AND available = TRUE')).toEqual([1, 3]);
+  });
+
+  it('binds NOT tighter than AND', () => {
+    expect(ids('SELECT id FROM books WHERE NOT available = TRUE AND year > 1900')).toEqual([2]);
+  });
+
+  it('applies the same expressions to UPDATE and DELETE', () => {
+    run(rdbms, 'UPDATE books SET available = TRUE WHERE NOT (available = TRUE OR year > 1900)');
+    expect(ids('SELECT id FROM books WHERE available = TRUE')).toEqual([1, 3, 4]);
+
+    run(rdbms, 'DELETE FROM books WHERE author_id = 3 OR year = 1850');
+    expect(ids('SELECT id FROM books')).toEqual([2]);
+  });
+});
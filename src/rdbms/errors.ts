@@ -0,0 +1,11 @@
+export class SQLSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SQLSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
@@ -1,5 +1,12 @@
 export { RDBMS } from './RDBMS';
+export type { RDBMSOptions } from './RDBMS';
+export { PreparedStatement } from './PreparedStatement';
+export type { StorageAdapter } from './StorageAdapter';
+export type { FunctionDefinition, FunctionSignature, JoinMethod, ScalarFunction } from './types';
 export { REPL } from './REPL';
+export { SQLSyntaxError } from './errors';
+
+import type { IndexKey } from './types';
 
 export class Index {
   private index: Map<string | number | boolean, number[]>;
@@ -8,17 +15,19 @@ export class Index {
     this.index = new Map();
   }
 
-  add(value: string | number | boolean | null, rowIndex: number): void {
-    if (value === null) return;
+  add(key: IndexKey | null, rowIndex: number): void {
+    if (key === null) return;
 
+    const value = this.hashKey(key);
     const existing = this.index.get(value) || [];
     existing.push(rowIndex);
     this.index.set(value, existing);
   }
 
-  remove(value: string | number | boolean | null, rowIndex: number): void {
-    if (value === null) return;
+  remove(key: IndexKey | null, rowIndex: number): void {
+    if (key === null) return;
 
+    const value = this.hashKey(key);
     const existing = this.index.get(value);
     if (existing) {
       const filtered = existing.filter(idx => idx !== rowIndex);
@@ -30,11 +39,16 @@ export class Index {
     }
   }
 
-  find(value: string | number | boolean): number[] {
-    return this.index.get(value) || [];
+  find(key: IndexKey): number[] {
+    return this.index.get(this.hashKey(key)) || [];
   }
 
   clear(): void {
     this.index.clear();
   }
+
+  // Keys on one column are stored as the value itself, keys on several as JSON text
+  private hashKey(key: IndexKey): string | number | boolean {
+    return key.length === 1 ? key[0] : JSON.stringify(key);
+  }
 }
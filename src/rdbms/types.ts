@@ -1,20 +1,133 @@
-export type ColumnType = 'string' | 'number' | 'boolean';
+import type { SelectQuery } from './QueryParser';
 
-export interface ColumnDefinition {
-  name: string;
+// Values of every type are stored as strings, numbers or booleans: integer,
+// real and decimal values as numbers, and date, timestamp and json values as
+// text in a canonical form, so that equal values are equal strings
+export type ColumnType = 'string' | 'integer' | 'real' | 'decimal' | 'boolean' | 'date' | 'timestamp' | 'json';
+
+// A type together with its parameters, such as DECIMAL(10, 2)
+export interface DataType {
   type: ColumnType;
+  // Total and fractional digits of decimal values
+  precision?: number;
+  scale?: number;
+}
+
+export type ReferentialAction = 'RESTRICT' | 'CASCADE' | 'SET NULL';
+
+export interface ForeignKey {
+  table: string;
+  // Must be the primary key or a unique column of the referenced table
+  column: string;
+  onDelete: ReferentialAction;
+  onUpdate: ReferentialAction;
+}
+
+export interface ColumnDefinition extends DataType {
+  name: string;
   primaryKey?: boolean;
   unique?: boolean;
   nullable?: boolean;
+  references?: ForeignKey;
+  // SERIAL column, whose default takes values from a sequence owned by the table
+  autoIncrement?: boolean;
+  // Value used when an insert leaves the column out
+  default?: Expression;
+  // Column-level CHECK constraint
+  check?: Expression;
+}
+
+// A PRIMARY KEY or UNIQUE constraint on more than one column
+export interface UniqueKey {
+  columns: string[];
+  primary: boolean;
+}
+
+// Hash indexes answer equality lookups; B-tree indexes also ranges and ordered scans
+export type IndexMethod = 'hash' | 'btree';
+
+// Ways of joining tables the query planner may use besides plain nested loops
+export type JoinMethod = 'index' | 'hash' | 'merge';
+
+// A scalar function callable from SQL; it receives the arguments checked against its signature
+export type ScalarFunction = (...args: Value[]) => Value;
+
+export interface FunctionSignature {
+  // Types of the parameters; 'any' accepts a value of any type
+  parameters: (ColumnType | 'any')[];
+  // How many of the last parameters may be left out
+  optional?: number;
+  // Whether the last parameter takes one or more arguments
+  variadic?: boolean;
+  returns: ColumnType | 'any';
+  // Whether a NULL argument makes the result NULL without calling the function, true by default
+  strict?: boolean;
+}
+
+// A function to register with RDBMS.registerFunction()
+export interface FunctionDefinition {
+  impl: ScalarFunction;
+  signature: FunctionSignature;
+}
+
+// An index created with CREATE INDEX
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  // hash when absent
+  method?: IndexMethod;
 }
 
 export interface TableSchema {
   name: string;
   columns: ColumnDefinition[];
+  // Single-column primary key
   primaryKey?: string;
+  // Multi-column keys; keys on a single column are flags on the column instead
+  uniqueKeys?: UniqueKey[];
+  indexes?: IndexDefinition[];
+  // Table-level CHECK constraints
+  checks?: Expression[];
+}
+
+// One change made by ALTER TABLE
+export type AlterTableAction =
+  | { type: 'ADD_COLUMN'; column: ColumnDefinition }
+  // CASCADE also drops foreign keys in other tables that reference the column
+  | { type: 'DROP_COLUMN'; column: string; cascade: boolean }
+  | { type: 'RENAME_COLUMN'; column: string; newName: string }
+  | { type: 'RENAME_TABLE'; newName: string }
+  | { type: 'SET_NULLABLE'; column: string; nullable: boolean }
+  | { type: 'ADD_UNIQUE'; columns: string[] }
+  // Drops a PRIMARY KEY or UNIQUE constraint by the name of its index
+  | { type: 'DROP_CONSTRAINT'; name: string };
+
+export type Value = string | number | boolean | null;
+
+// The values of the indexed columns of a row, none of which is NULL
+export type IndexKey = Exclude<Value, null>[];
+
+export interface IndexBound {
+  // May give only the first columns of the index
+  key: IndexKey;
+  inclusive: boolean;
 }
 
-export type Row = Record<string, string | number | boolean | null>;
+export interface IndexRange {
+  lower?: IndexBound;
+  upper?: IndexBound;
+  descending?: boolean;
+}
+
+// Reads the rows with one key from an index, or those within a range of a B-tree index
+export interface IndexAccess {
+  index: string;
+  key?: IndexKey;
+  range?: IndexRange;
+}
+
+export type Row = Record<string, Value>;
 
 export interface QueryResult {
   success: boolean;
@@ -22,19 +135,251 @@ export interface QueryResult {
   rowCount?: number;
   message?: string;
   error?: string;
+  errorPosition?: {
+    line: number;
+    column: number;
+  };
+  // Records skipped by COPY ... FROM
+  rejected?: RejectedRecord[];
+  // Value generated for the SERIAL column of the row added by INSERT
+  lastInsertId?: number;
 }
 
-export interface WhereClause {
+export interface RejectedRecord {
+  // Line of the input file on which the record starts
+  line: number;
+  error: string;
+}
+
+export type CopyFormat = 'csv' | 'json';
+
+export interface CopyOptions {
+  // Defaults to json for .json files and csv otherwise
+  format?: CopyFormat;
+  // Whether the first CSV line holds the column names
+  header?: boolean;
+  // CSV field separator, a comma by default
+  delimiter?: string;
+  // Text of a NULL in CSV files, an empty unquoted field by default
+  null?: string;
+}
+
+export type ComparisonOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%';
+
+export interface LiteralExpression {
+  type: 'LITERAL';
+  value: Value;
+  // Set on whole numbers written with a point or an exponent, such as 2.0, which are decimals
+  decimal?: boolean;
+}
+
+export interface ColumnExpression {
+  type: 'COLUMN';
+  table?: string;
   column: string;
-  operator: '=' | '!=' | '>' | '<' | '>=' | '<=';
-  value: string | number | boolean;
 }
 
+export interface ComparisonExpression {
+  type: 'COMPARISON';
+  operator: ComparisonOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface ArithmeticExpression {
+  type: 'ARITHMETIC';
+  operator: ArithmeticOperator;
+  left: Expression;
+  right: Expression;
+}
+
+// Unary minus of anything but a number, which is a negative literal
+export interface NegateExpression {
+  type: 'NEGATE';
+  operand: Expression;
+}
+
+// left || right, joining the text of the two values
+export interface ConcatExpression {
+  type: 'CONCAT';
+  left: Expression;
+  right: Expression;
+}
+
+// CASE WHEN condition THEN result ... ELSE result END, or with an operand,
+// CASE operand WHEN value THEN result ... END, which compares the operand with each value
+export interface CaseExpression {
+  type: 'CASE';
+  operand?: Expression;
+  branches: { when: Expression; then: Expression }[];
+  // NULL when absent
+  else?: Expression;
+}
+
+export interface LogicalExpression {
+  type: 'AND' | 'OR';
+  left: Expression;
+  right: Expression;
+}
+
+export interface NotExpression {
+  type: 'NOT';
+  operand: Expression;
+}
+
+export interface LikeExpression {
+  type: 'LIKE';
+  operand: Expression;
+  pattern: Expression;
+  caseInsensitive: boolean;
+  negated: boolean;
+}
+
+export interface InExpression {
+  type: 'IN';
+  operand: Expression;
+  values: Expression[];
+  negated: boolean;
+}
+
+export interface BetweenExpression {
+  type: 'BETWEEN';
+  operand: Expression;
+  lower: Expression;
+  upper: Expression;
+  negated: boolean;
+}
+
+export interface IsNullExpression {
+  type: 'IS_NULL';
+  operand: Expression;
+  negated: boolean;
+}
+
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+export interface AggregateExpression {
+  type: 'AGGREGATE';
+  function: AggregateFunction;
+  // Undefined for COUNT(*)
+  argument?: Expression;
+  distinct: boolean;
+}
+
+// A call to a scalar function such as nextval('seq')
+export interface FunctionExpression {
+  type: 'FUNCTION';
+  // Lower case
+  name: string;
+  arguments: Expression[];
+}
+
+// CAST(operand AS type)
+export interface CastExpression {
+  type: 'CAST';
+  operand: Expression;
+  target: DataType;
+}
+
+// operand -> key gives the member of a JSON object or array as JSON; ->> gives it as a plain value
+export interface JsonAccessExpression {
+  type: 'JSON_ACCESS';
+  operand: Expression;
+  // A string for a member of an object, an integer for an element of an array
+  key: Expression;
+  asValue: boolean;
+}
+
+// A placeholder of a prepared statement, replaced by its value before the statement runs
+export interface ParameterExpression {
+  type: 'PARAMETER';
+  // From 0: $1 and the first ? are parameter 0
+  index: number;
+}
+
+export interface SubqueryExpression {
+  type: 'SUBQUERY';
+  query: SelectQuery;
+}
+
+export interface ExistsExpression {
+  type: 'EXISTS';
+  query: SelectQuery;
+}
+
+export interface InSubqueryExpression {
+  type: 'IN_SUBQUERY';
+  operand: Expression;
+  query: SelectQuery;
+  negated: boolean;
+}
+
+export type Expression =
+  | LiteralExpression
+  | ColumnExpression
+  | ComparisonExpression
+  | ArithmeticExpression
+  | NegateExpression
+  | ConcatExpression
+  | CaseExpression
+  | LogicalExpression
+  | NotExpression
+  | LikeExpression
+  | InExpression
+  | BetweenExpression
+  | IsNullExpression
+  | AggregateExpression
+  | FunctionExpression
+  | CastExpression
+  | JsonAccessExpression
+  | ParameterExpression
+  | SubqueryExpression
+  | ExistsExpression
+  | InSubqueryExpression;
+
+export interface NamedTableReference {
+  type: 'TABLE';
+  name: string;
+  alias?: string;
+}
+
+// A derived table: (SELECT ...) AS alias
+export interface SubqueryTableReference {
+  type: 'SUBQUERY';
+  query: SelectQuery;
+  alias: string;
+}
+
+export type TableReference = NamedTableReference | SubqueryTableReference;
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
 export interface JoinClause {
-  type: 'INNER' | 'LEFT';
-  table: string;
-  on: {
-    leftColumn: string;
-    rightColumn: string;
-  };
+  type: JoinType;
+  table: TableReference;
+  // Absent for CROSS JOIN
+  on?: Expression;
+}
+
+export interface SelectAllItem {
+  type: 'ALL';
+  // Set for table.* to select the columns of a single table
+  table?: string;
+}
+
+export interface SelectExpressionItem {
+  type: 'EXPRESSION';
+  expression: Expression;
+  // Key of this column in the result rows
+  name: string;
+}
+
+export type SelectItem = SelectAllItem | SelectExpressionItem;
+
+export interface OrderByClause {
+  expression: Expression;
+  direction: 'ASC' | 'DESC';
+  nulls: 'FIRST' | 'LAST';
 }